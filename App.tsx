@@ -6,14 +6,29 @@ import { Login } from './pages/Login';
 import { Dashboard } from './pages/Dashboard';
 import { GalleryManager } from './pages/GalleryManager';
 import { ClientGallery } from './pages/ClientGallery';
+import { Settings } from './pages/Settings';
 import { Session } from '@supabase/supabase-js';
 import { UploadProvider } from './contexts/UploadContext';
+import { REVIEW_REDIRECT_PARAM, REVIEW_CODE_PARAM, stashReviewerSignInCode } from './services/reviewers';
+
+// Client sign-in links open ?review=<galleryId>&code=<code>; keep the code for the gallery page and send them back into it
+const restoreReviewRoute = () => {
+  const params = new URLSearchParams(window.location.search);
+  const galleryId = params.get(REVIEW_REDIRECT_PARAM);
+  if (!galleryId) return;
+
+  const code = params.get(REVIEW_CODE_PARAM);
+  if (code) stashReviewerSignInCode(galleryId, code);
+  window.history.replaceState(null, '', `${window.location.pathname}#/g/${galleryId}`);
+};
 
 const App: React.FC = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    restoreReviewRoute();
+
     // Check for hash parameters for auth (e.g. access_token, error, type=signup)
     const hash = window.location.hash;
     const isAuthRedirect = hash && (hash.includes('access_token') || hash.includes('error') || hash.includes('type='));
@@ -49,7 +64,7 @@ const App: React.FC = () => {
         <Routes>
           {/* Public Routes */}
           <Route path="/login" element={!session ? <Login /> : <Navigate to="/dashboard" />} />
-          <Route path="/g/:galleryId" element={<ClientGallery />} />
+          <Route path="/g/:galleryId/:fileId?" element={<ClientGallery />} />
 
           {/* Protected Photographer Routes */}
           <Route path="/dashboard" element={
@@ -68,6 +83,14 @@ const App: React.FC = () => {
             ) : <Navigate to="/login" />
           } />
 
+          <Route path="/settings" element={
+            session ? (
+              <Layout>
+                <Settings />
+              </Layout>
+            ) : <Navigate to="/login" />
+          } />
+
           {/* Default */}
           <Route path="*" element={<Navigate to={session ? "/dashboard" : "/login"} />} />
         </Routes>
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2, Send, MessageSquare, CheckCircle2 } from 'lucide-react';
+import { CommentAuthor, CommentKind, FileComment, GalleryFile } from '../types';
+import { getThumbnailUrl, getDownloadName } from '../services/media';
+import { COMMENT_KIND_LABELS, countOpenComments } from '../services/comments';
+import { formatDate } from '../utils/formatters';
+
+interface CommentsModalProps {
+  file: GalleryFile;
+  comments: FileComment[];
+  viewer: CommentAuthor;
+  closedMessage?: string; // Shown instead of the form when the viewer can't post
+  reviewerNames?: Map<string, string>; // Names clients gave, by reviewer id
+  onPost: (kind: CommentKind, body: string) => Promise<void>;
+  onResolve?: () => Promise<void>;
+  onClose: () => void;
+}
+
+export const CommentsModal: React.FC<CommentsModalProps> = ({ file, comments, viewer, closedMessage, reviewerNames, onPost, onResolve, onClose }) => {
+  const [kind, setKind] = useState<CommentKind>('note');
+  const [body, setBody] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [resolving, setResolving] = useState(false);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const openCount = countOpenComments(comments);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [comments.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setPosting(true);
+    try {
+      await onPost(viewer === 'client' ? kind : 'note', body);
+      setBody('');
+      setKind('note');
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      alert('Failed to send your comment. Please try again.');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!onResolve) return;
+    setResolving(true);
+    try {
+      await onResolve();
+    } catch (error) {
+      console.error('Error resolving comments:', error);
+      alert('Failed to resolve the comments.');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl max-w-md w-full shadow-xl animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 p-4 border-b border-slate-100">
+          <div className="w-12 h-12 rounded-lg overflow-hidden bg-slate-100 shrink-0">
+            {getThumbnailUrl(file) && <img src={getThumbnailUrl(file)} alt="" className="w-full h-full object-cover" />}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold text-slate-900 truncate">{getDownloadName(file)}</p>
+            <p className="text-xs text-slate-500">
+              {comments.length === 0 ? 'No comments yet' : openCount > 0 ? `${openCount} open` : 'All resolved'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-md">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <ul ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+          {comments.length === 0 && (
+            <li className="py-6 text-center text-slate-400 text-sm">
+              <MessageSquare className="w-8 h-8 mx-auto mb-2 text-slate-200" />
+              {viewer === 'client' ? 'Leave a note or ask for an edit on this photo.' : 'The client hasn\'t commented on this photo.'}
+            </li>
+          )}
+          {comments.map(comment => {
+            const isOwn = comment.author === viewer;
+            return (
+              <li key={comment.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                <div className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm whitespace-pre-line ${
+                  isOwn ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-800'
+                } ${comment.resolved_at ? 'opacity-60' : ''}`}>
+                  {comment.kind === 'edit' && (
+                    <span className={`block text-[10px] font-semibold uppercase tracking-wider mb-0.5 ${isOwn ? 'text-amber-300' : 'text-amber-700'}`}>
+                      {COMMENT_KIND_LABELS.edit}
+                    </span>
+                  )}
+                  {comment.body}
+                </div>
+                <span className="text-[10px] text-slate-400 mt-0.5 px-1">
+                  {comment.author === 'client'
+                    ? (comment.reviewer_id && reviewerNames?.get(comment.reviewer_id)) || 'Client'
+                    : 'Photographer'} · {formatDate(comment.created_at)}
+                  {comment.resolved_at && ' · Resolved'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="p-4 border-t border-slate-100 space-y-2">
+          {onResolve && openCount > 0 && (
+            <button
+              onClick={handleResolve}
+              disabled={resolving}
+              className="w-full py-2 text-sm font-medium border border-emerald-200 rounded-lg text-emerald-700 hover:bg-emerald-50 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+            >
+              {resolving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+              Mark Resolved
+            </button>
+          )}
+
+          {closedMessage ? (
+            <p className="text-xs text-slate-500 text-center">{closedMessage}</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              {viewer === 'client' && (
+                <div className="bg-slate-100 p-1 rounded-lg flex text-xs font-medium">
+                  {(Object.keys(COMMENT_KIND_LABELS) as CommentKind[]).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setKind(option)}
+                      className={`flex-1 px-2 py-1.5 rounded-md transition-all ${kind === option ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      {COMMENT_KIND_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  placeholder={viewer === 'client'
+                    ? kind === 'edit' ? 'e.g. "Please remove the exit sign"' : 'Add a note for your photographer'
+                    : 'Reply to the client'}
+                  rows={2}
+                  maxLength={2000}
+                  className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none resize-none"
+                />
+                <button
+                  type="submit"
+                  disabled={posting || !body.trim()}
+                  className="px-3 rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center justify-center"
+                >
+                  {posting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, Layers, Trash2, CheckCircle2 } from 'lucide-react';
+import { supabase } from '../services/supabase';
+import { GalleryFile } from '../types';
+import { backfillContentHashes, findDuplicateGroups, DuplicateGroup } from '../services/duplicates';
+import { getThumbnailUrl, getStoragePaths } from '../services/media';
+import { formatDate } from '../utils/formatters';
+
+interface DuplicatesModalProps {
+  galleryId: string;
+  files: GalleryFile[];
+  selectedIds: Set<string>;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+export const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ galleryId, files, selectedIds, onClose, onDeleted }) => {
+  const [scanning, setScanning] = useState(true);
+  const [scanProgress, setScanProgress] = useState({ done: 0, total: 0 });
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const scan = async () => {
+      const hashedFiles = await backfillContentHashes(files, (done, total) => {
+        if (!cancelled) setScanProgress({ done, total });
+      });
+      if (cancelled) return;
+      setGroups(findDuplicateGroups(hashedFiles, selectedIds));
+      setScanning(false);
+    };
+
+    scan();
+    return () => { cancelled = true; };
+  }, []);
+
+  const copyCount = groups.reduce((acc, group) => acc + group.copies.length, 0);
+
+  const deleteCopies = async () => {
+    if (!confirm(`Delete ${copyCount} duplicate ${copyCount === 1 ? 'file' : 'files'} permanently? One copy of each photo is kept.`)) return;
+
+    setDeleting(true);
+    try {
+      const copies = groups.flatMap(group => group.copies);
+
+      await supabase.storage.from('gallery-files').remove(copies.flatMap(getStoragePaths));
+      const { error } = await supabase
+        .from('files')
+        .delete()
+        .in('id', copies.map(file => file.id));
+
+      if (error) throw error;
+
+      await supabase.from('activity_logs').insert({
+        gallery_id: galleryId,
+        action: `Removed ${copies.length} duplicate files`
+      });
+
+      onDeleted();
+      onClose();
+    } catch (error) {
+      console.error('Error deleting duplicates:', error);
+      alert('Failed to delete duplicates.');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-2xl max-w-lg w-full shadow-xl animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Layers className="w-5 h-5 text-slate-500" />
+            Duplicate Files
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto flex-1">
+          {scanning ? (
+            <div className="text-center py-8 text-slate-500">
+              <Loader2 className="w-8 h-8 animate-spin mx-auto mb-3 text-emerald-600" />
+              <p className="text-sm">
+                {scanProgress.total > 0
+                  ? `Checking older uploads (${scanProgress.done}/${scanProgress.total})...`
+                  : 'Comparing files...'}
+              </p>
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">
+              <CheckCircle2 className="w-10 h-10 mx-auto mb-3 text-emerald-500" />
+              <p className="text-sm">No duplicates found in this gallery.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-600">
+                Found {copyCount} duplicate {copyCount === 1 ? 'copy' : 'copies'} of {groups.length} {groups.length === 1 ? 'photo' : 'photos'}.
+                The highlighted file in each row is kept (the client's pick, otherwise the first upload).
+              </p>
+              {groups.map(group => (
+                <div key={group.contentHash} className="flex gap-2 overflow-x-auto pb-1">
+                  {[group.keep, ...group.copies].map(file => (
+                    <div key={file.id} className="shrink-0 w-20">
+                      <div className={`w-20 h-20 rounded-lg overflow-hidden bg-slate-100 border-2 ${file.id === group.keep.id ? 'border-emerald-500' : 'border-transparent opacity-60'}`}>
+                        {file.file_type === 'image' ? (
+                          <img src={getThumbnailUrl(file)} alt="" className="w-full h-full object-cover" />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center text-xs text-slate-400">Video</div>
+                        )}
+                      </div>
+                      <p className="text-[10px] text-slate-400 mt-1 truncate">{formatDate(file.created_at)}</p>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2.5 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 font-medium transition-colors text-sm"
+          >
+            Close
+          </button>
+          {copyCount > 0 && (
+            <button
+              onClick={deleteCopies}
+              disabled={deleting}
+              className="flex-1 py-2.5 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium transition-colors text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {deleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+              Delete {copyCount} {copyCount === 1 ? 'Copy' : 'Copies'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Loader2, Plus, AlertTriangle } from 'lucide-react';
+import { supabase } from '../services/supabase';
+import { Gallery, ExpiryMode } from '../types';
+import { DURATION_OPTIONS, ExpiryPolicy, getExpiryPolicy, describeExpiryPolicy, applyExpiryPolicy, extendExpiry, isExpiringSoon, formatTimeLeft, toLocalInputValue } from '../services/expiry';
+
+interface ExpiryCardProps {
+  gallery: Gallery;
+  fileCount: number;
+  nextExpiry: string | null;
+  onUpdated: () => void;
+}
+
+const EXTEND_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '1 week' },
+];
+
+export const ExpiryCard: React.FC<ExpiryCardProps> = ({ gallery, fileCount, nextExpiry, onUpdated }) => {
+  const [policy, setPolicy] = useState<ExpiryPolicy>(getExpiryPolicy(gallery));
+  const [applyToExisting, setApplyToExisting] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [extending, setExtending] = useState(false);
+
+  useEffect(() => {
+    setPolicy(getExpiryPolicy(gallery));
+  }, [gallery.expiry_mode, gallery.expiry_hours, gallery.expiry_date]);
+
+  const savedPolicy = getExpiryPolicy(gallery);
+  const isDirty = policy.mode !== savedPolicy.mode || policy.hours !== savedPolicy.hours || policy.date !== savedPolicy.date;
+
+  const savePolicy = async () => {
+    if (policy.mode === 'date' && (!policy.date || Date.parse(policy.date) <= Date.now())) {
+      alert('Please choose an end date in the future.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('galleries')
+        .update({ expiry_mode: policy.mode, expiry_hours: policy.hours, expiry_date: policy.date })
+        .eq('id', gallery.id);
+
+      if (error) throw error;
+
+      if (applyToExisting && fileCount > 0) {
+        await applyExpiryPolicy(gallery.id);
+      }
+
+      await supabase.from('activity_logs').insert({
+        gallery_id: gallery.id,
+        action: `Expiry set to: ${describeExpiryPolicy(policy)}`
+      });
+
+      onUpdated();
+    } catch (error) {
+      console.error('Error saving expiry policy:', error);
+      alert('Failed to update expiration.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExtend = async (hours: number, label: string) => {
+    if (!window.confirm(`Add ${label} to the current expiry of every file?\n\nFiles that have already expired will be reactivated from now.`)) return;
+
+    setExtending(true);
+    try {
+      await extendExpiry(gallery.id, hours);
+
+      await supabase.from('activity_logs').insert({
+        gallery_id: gallery.id,
+        action: `Extended expiration by ${hours} hours`
+      });
+
+      onUpdated();
+    } catch (error) {
+      console.error('Error extending expiration:', error);
+      alert('Failed to extend expiration.');
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  const modes: { mode: ExpiryMode; label: string }[] = [
+    { mode: 'duration', label: 'After upload' },
+    { mode: 'date', label: 'On a date' },
+    { mode: 'never', label: 'Never' },
+  ];
+
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Clock className="w-5 h-5 text-slate-500" />
+        Expiration
+      </h2>
+
+      {nextExpiry && (
+        <div className={`mb-4 p-3 rounded-lg text-sm flex items-center gap-2 ${isExpiringSoon(nextExpiry) ? 'bg-amber-50 text-amber-800 border border-amber-100' : 'bg-slate-50 text-slate-600 border border-slate-100'}`}>
+          {isExpiringSoon(nextExpiry) && <AlertTriangle className="w-4 h-4 shrink-0" />}
+          <span>Next file expires in <strong>{formatTimeLeft(nextExpiry)}</strong></span>
+        </div>
+      )}
+
+      <div className="bg-slate-100 p-1 rounded-lg flex text-xs font-medium mb-4">
+        {modes.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => setPolicy({ ...policy, mode })}
+            className={`flex-1 px-2 py-1.5 rounded-md transition-all ${policy.mode === mode ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {policy.mode === 'duration' && (
+        <select
+          value={policy.hours}
+          onChange={(e) => setPolicy({ ...policy, hours: Number(e.target.value) })}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none mb-4"
+        >
+          {DURATION_OPTIONS.map(option => (
+            <option key={option.hours} value={option.hours}>{option.label}</option>
+          ))}
+        </select>
+      )}
+
+      {policy.mode === 'date' && (
+        <input
+          type="datetime-local"
+          value={toLocalInputValue(policy.date)}
+          onChange={(e) => setPolicy({ ...policy, date: e.target.value ? new Date(e.target.value).toISOString() : null })}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none mb-4"
+        />
+      )}
+
+      {policy.mode === 'never' && (
+        <p className="text-xs text-slate-500 mb-4">Files stay available until you delete them.</p>
+      )}
+
+      {isDirty && (
+        <>
+          {fileCount > 0 && (
+            <label className="flex items-center gap-2 text-xs text-slate-600 mb-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={applyToExisting}
+                onChange={(e) => setApplyToExisting(e.target.checked)}
+                className="accent-emerald-600"
+              />
+              Also apply to existing files (except per-file overrides)
+            </label>
+          )}
+          <button
+            onClick={savePolicy}
+            disabled={saving}
+            className="w-full py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors mb-4"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Expiration
+          </button>
+        </>
+      )}
+
+      {fileCount > 0 && savedPolicy.mode !== 'never' && (
+        <div className="pt-4 border-t border-slate-100">
+          <p className="text-xs text-slate-500 mb-2">Extend current expiry</p>
+          <div className="flex gap-2">
+            {EXTEND_OPTIONS.map(option => (
+              <button
+                key={option.hours}
+                onClick={() => handleExtend(option.hours, option.label)}
+                disabled={extending}
+                className="flex-1 py-1.5 text-xs font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-emerald-50 hover:border-emerald-200 hover:text-emerald-700 disabled:opacity-50 transition-colors flex items-center justify-center gap-1"
+              >
+                <Plus className="w-3 h-3" />
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ListChecks, Eye } from 'lucide-react';
+import { FavoriteList } from '../types';
+import { formatDate } from '../utils/formatters';
+
+interface FavoriteListsCardProps {
+  lists: FavoriteList[];
+  reviewerNames: Map<string, string>;
+  viewingListId: string | null;
+  onViewList: (list: FavoriteList) => void;
+}
+
+// The named lists clients made in the gallery. They manage them; the photographer only looks.
+export const FavoriteListsCard: React.FC<FavoriteListsCardProps> = ({ lists, reviewerNames, viewingListId, onViewList }) => {
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center gap-2 mb-4">
+        <ListChecks className="w-5 h-5 text-slate-500" />
+        Client Lists
+      </h2>
+      <ul className="space-y-1">
+        {lists.map(list => (
+          <li key={list.id} className="flex items-center justify-between gap-2 text-sm">
+            <span className="min-w-0">
+              <span className="text-slate-700 font-medium">{list.name}</span>
+              <span className="text-xs text-slate-400 ml-2">
+                {list.file_ids.length} photos
+                {list.reviewer_id && reviewerNames.get(list.reviewer_id) && ` · ${reviewerNames.get(list.reviewer_id)}`}
+                {' · '}{formatDate(list.created_at)}
+              </span>
+            </span>
+            <button
+              onClick={() => onViewList(list)}
+              disabled={viewingListId === list.id}
+              className="p-1 text-slate-400 hover:text-slate-700 disabled:text-indigo-500 rounded-md shrink-0"
+              title="Show these photos"
+            >
+              <Eye className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { X, Loader2, Plus, Check, ListPlus } from 'lucide-react';
+import { FavoriteList, GalleryFile } from '../types';
+import { getThumbnailUrl, getDownloadName } from '../services/media';
+
+interface FavoriteListsModalProps {
+  file: GalleryFile;
+  lists: FavoriteList[];
+  onToggle: (list: FavoriteList) => Promise<void>;
+  onCreate: (name: string) => Promise<void>; // Creates the list with this file in it
+  onClose: () => void;
+}
+
+export const FavoriteListsModal: React.FC<FavoriteListsModalProps> = ({ file, lists, onToggle, onCreate, onClose }) => {
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+
+  const handleToggle = async (list: FavoriteList) => {
+    setTogglingId(list.id);
+    try {
+      await onToggle(list);
+    } catch (error) {
+      console.error('Error updating list:', error);
+      alert('Failed to update the list. Please try again.');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      await onCreate(name);
+      setName('');
+    } catch (error) {
+      console.error('Error creating list:', error);
+      alert('Failed to create the list. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl max-w-sm w-full shadow-xl animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 p-4 border-b border-slate-100">
+          <div className="w-12 h-12 rounded-lg overflow-hidden bg-slate-100 shrink-0">
+            {getThumbnailUrl(file) && <img src={getThumbnailUrl(file)} alt="" className="w-full h-full object-cover" />}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold text-slate-900">Add to list</p>
+            <p className="text-xs text-slate-500 truncate">{getDownloadName(file)}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-md">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-2">
+          {lists.length === 0 && (
+            <li className="py-6 text-center text-slate-400 text-sm">
+              <ListPlus className="w-8 h-8 mx-auto mb-2 text-slate-200" />
+              Make lists like "Album" or "For Grandma" and download each one on its own.
+            </li>
+          )}
+          {lists.map(list => {
+            const included = list.file_ids.includes(file.id);
+            return (
+              <li key={list.id}>
+                <button
+                  onClick={() => handleToggle(list)}
+                  disabled={togglingId !== null}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm hover:bg-slate-50 disabled:opacity-75 transition-colors"
+                >
+                  <span className={`w-5 h-5 rounded-md border flex items-center justify-center shrink-0 ${included ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300'}`}>
+                    {togglingId === list.id ? <Loader2 className="w-3 h-3 animate-spin" /> : included && <Check className="w-3 h-3" />}
+                  </span>
+                  <span className="flex-1 truncate text-slate-800">{list.name}</span>
+                  <span className="text-xs text-slate-400">{list.file_ids.length}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <form onSubmit={handleCreate} className="p-4 border-t border-slate-100 flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New list name"
+            maxLength={100}
+            className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+          />
+          <button
+            type="submit"
+            disabled={creating || !name.trim()}
+            className="px-3 rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center justify-center"
+            title="Create list"
+          >
+            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
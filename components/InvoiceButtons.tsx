@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { InvoiceDocument, downloadInvoicePdf } from '../services/invoices';
+
+interface InvoiceButtonsProps {
+  galleryId: string;
+  onGenerated?: () => void; // e.g. refresh the gallery once it has an invoice number
+}
+
+export const InvoiceButtons: React.FC<InvoiceButtonsProps> = ({ galleryId, onGenerated }) => {
+  const [generating, setGenerating] = useState<InvoiceDocument | null>(null);
+
+  const handleDownload = async (kind: InvoiceDocument) => {
+    setGenerating(kind);
+    try {
+      await downloadInvoicePdf(galleryId, kind);
+      onGenerated?.();
+    } catch (error) {
+      console.error(`Error generating ${kind}:`, error);
+      alert(`Failed to generate the ${kind}. Please try again.`);
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {(['invoice', 'receipt'] as const).map(kind => (
+        <button
+          key={kind}
+          type="button"
+          onClick={() => handleDownload(kind)}
+          disabled={!!generating}
+          className="flex-1 py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-slate-50 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+        >
+          {generating === kind ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+          {kind === 'invoice' ? 'Invoice' : 'Receipt'}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
-import { LogOut, Camera, LayoutDashboard, Loader2, Menu, X } from 'lucide-react';
+import { LogOut, Camera, LayoutDashboard, Loader2, Menu, X, AlertCircle, Settings } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '../services/supabase';
 import { useUpload } from '../contexts/UploadContext';
+import { UploadPanel } from './UploadPanel';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -11,8 +12,11 @@ interface LayoutProps {
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { uploading, progress } = useUpload();
+  const { uploading, progress, items: uploadItems } = useUpload();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isUploadPanelOpen, setIsUploadPanelOpen] = useState(true);
+
+  const failedUploads = uploadItems.filter(item => item.status === 'failed').length;
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
@@ -73,18 +77,43 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               <LayoutDashboard className="w-5 h-5" />
               <span>Dashboard</span>
             </button>
-            {/* Future settings link could go here */}
+            <button
+              onClick={() => {
+                navigate('/settings');
+                setIsMobileMenuOpen(false);
+              }}
+              className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-colors ${
+                isActive('/settings') 
+                  ? 'bg-emerald-600 text-white' 
+                  : 'text-slate-400 hover:bg-slate-800 hover:text-white'
+              }`}
+            >
+              <Settings className="w-5 h-5" />
+              <span>Settings</span>
+            </button>
           </nav>
         </div>
 
         <div className="p-4 border-t border-slate-700 space-y-4">
-          {/* Upload Status in Sidebar */}
-          {uploading && (
-            <div className="bg-slate-800 rounded-lg p-3 border border-slate-700">
+          {/* Upload Status in Sidebar (opens the upload panel) */}
+          {(uploading || failedUploads > 0) && (
+            <button
+                onClick={() => setIsUploadPanelOpen(true)}
+                className="w-full text-left bg-slate-800 rounded-lg p-3 border border-slate-700 hover:border-slate-600 transition-colors"
+            >
                 <div className="flex justify-between items-center mb-2">
                     <span className="text-xs text-slate-300 font-medium flex items-center gap-2">
-                        <Loader2 className="w-3 h-3 animate-spin text-emerald-400" />
-                        Uploading...
+                        {uploading ? (
+                            <>
+                                <Loader2 className="w-3 h-3 animate-spin text-emerald-400" />
+                                Uploading...
+                            </>
+                        ) : (
+                            <>
+                                <AlertCircle className="w-3 h-3 text-red-400" />
+                                {failedUploads} failed
+                            </>
+                        )}
                     </span>
                     <span className="text-xs text-emerald-400 font-bold">{progress}%</span>
                 </div>
@@ -94,7 +123,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                         style={{ width: `${progress}%` }}
                     />
                 </div>
-            </div>
+            </button>
           )}
 
           <button
@@ -113,6 +142,12 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
           {children}
         </div>
       </main>
+
+      {/* Global Upload Queue */}
+      <UploadPanel
+        isOpen={isUploadPanelOpen}
+        onToggle={() => setIsUploadPanelOpen(!isUploadPanelOpen)}
+      />
     </div>
   );
 };
\ No newline at end of file
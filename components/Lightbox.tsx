@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, Heart, Download, Lock, Loader2 } from 'lucide-react';
+import { GalleryFile } from '../types';
+import { getPreviewUrl, getPosterUrl, getOriginalUrl, getDownloadName } from '../services/media';
+import { formatDate, formatFileSize } from '../utils/formatters';
+
+interface LightboxProps {
+  files: GalleryFile[];
+  index: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+  isSelectionMode: boolean;
+  isLocked: boolean;
+  selectionSubmitted: boolean;
+  isSelected: boolean;
+  isDownloading: boolean;
+  onToggleSelection: (file: GalleryFile) => void;
+  onDownload: (file: GalleryFile) => void;
+}
+
+const MAX_ZOOM = 4;
+const SWIPE_THRESHOLD = 50;
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+const distance = (a: React.Touch, b: React.Touch) => Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+
+export const Lightbox: React.FC<LightboxProps> = ({
+  files,
+  index,
+  onNavigate,
+  onClose,
+  isSelectionMode,
+  isLocked,
+  selectionSubmitted,
+  isSelected,
+  isDownloading,
+  onToggleSelection,
+  onDownload,
+}) => {
+  const file = files[index];
+  const hasPrev = index > 0;
+  const hasNext = index < files.length - 1;
+
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  // Gesture bookkeeping doesn't need re-renders
+  const gestureRef = useRef<{ startX: number; startY: number; startDistance: number; start: Transform; lastTap: number }>({
+    startX: 0, startY: 0, startDistance: 0, start: IDENTITY, lastTap: 0,
+  });
+
+  const goPrev = () => hasPrev && onNavigate(index - 1);
+  const goNext = () => hasNext && onNavigate(index + 1);
+
+  // Every photo opens unzoomed
+  useEffect(() => {
+    setTransform(IDENTITY);
+  }, [file?.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') goPrev();
+      if (e.key === 'ArrowRight') goNext();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Stop the grid scrolling underneath
+  useEffect(() => {
+    const previous = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => { document.body.style.overflow = previous; };
+  }, []);
+
+  // Warm the cache for the neighbouring photos so stepping through feels instant
+  useEffect(() => {
+    [files[index - 1], files[index + 1]].forEach(neighbour => {
+      if (neighbour?.file_type === 'image') {
+        const img = new Image();
+        img.src = getPreviewUrl(neighbour) || '';
+      }
+    });
+  }, [files, index]);
+
+  if (!file) return null;
+
+  const zoomed = transform.scale > 1;
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    const gesture = gestureRef.current;
+    gesture.start = transform;
+    if (e.touches.length === 2) {
+      gesture.startDistance = distance(e.touches[0], e.touches[1]);
+    } else if (e.touches.length === 1) {
+      gesture.startX = e.touches[0].clientX;
+      gesture.startY = e.touches[0].clientY;
+    }
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    const gesture = gestureRef.current;
+    if (file.file_type !== 'image') return;
+
+    if (e.touches.length === 2 && gesture.startDistance > 0) {
+      const scale = Math.min(MAX_ZOOM, Math.max(1, gesture.start.scale * distance(e.touches[0], e.touches[1]) / gesture.startDistance));
+      setTransform(scale === 1 ? IDENTITY : { ...gesture.start, scale });
+    } else if (e.touches.length === 1 && zoomed) {
+      setTransform({
+        ...gesture.start,
+        x: gesture.start.x + e.touches[0].clientX - gesture.startX,
+        y: gesture.start.y + e.touches[0].clientY - gesture.startY,
+      });
+    }
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const gesture = gestureRef.current;
+    if (e.touches.length > 0) return;
+
+    // Pinches end here too; only a single unzoomed finger counts as a swipe
+    if (gesture.startDistance > 0) {
+      gesture.startDistance = 0;
+      return;
+    }
+
+    const touch = e.changedTouches[0];
+    const dx = touch.clientX - gesture.startX;
+    const dy = touch.clientY - gesture.startY;
+
+    if (!zoomed && Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+      if (dx > 0) goPrev();
+      else goNext();
+      return;
+    }
+
+    // Double tap toggles zoom
+    const now = Date.now();
+    if (Math.abs(dx) < 10 && Math.abs(dy) < 10 && now - gesture.lastTap < 300) {
+      toggleZoom();
+      gesture.lastTap = 0;
+    } else {
+      gesture.lastTap = now;
+    }
+  };
+
+  const toggleZoom = () => {
+    if (file.file_type !== 'image') return;
+    setTransform(zoomed ? IDENTITY : { scale: 2, x: 0, y: 0 });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    if (file.file_type !== 'image') return;
+    const scale = Math.min(MAX_ZOOM, Math.max(1, transform.scale * (e.deltaY < 0 ? 1.1 : 0.9)));
+    setTransform(scale === 1 ? IDENTITY : { ...transform, scale });
+  };
+
+  const details = [
+    file.width && file.height ? `${file.width} × ${file.height}` : null,
+    file.size_bytes ? formatFileSize(file.size_bytes) : null,
+    file.captured_at ? `Taken ${formatDate(file.captured_at)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black flex flex-col animate-in fade-in duration-200 select-none">
+      {/* Top Bar */}
+      <div className="flex items-center justify-between p-3 text-white">
+        <span className="text-sm text-white/60 pl-2">{index + 1} / {files.length}</span>
+        <div className="flex items-center gap-2">
+          {isSelectionMode ? (
+            <button
+              onClick={() => onToggleSelection(file)}
+              disabled={selectionSubmitted}
+              className={`p-2.5 rounded-full transition-colors disabled:opacity-60 ${isSelected ? 'bg-rose-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            >
+              <Heart className={`w-5 h-5 ${isSelected ? 'fill-current' : ''}`} />
+            </button>
+          ) : (
+            <button
+              onClick={() => onDownload(file)}
+              disabled={isDownloading}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-colors disabled:cursor-wait ${isLocked ? 'bg-amber-100 text-amber-700' : 'bg-white text-slate-900 hover:bg-slate-100'}`}
+            >
+              {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : isLocked ? <Lock className="w-4 h-4" /> : <Download className="w-4 h-4" />}
+              <span className="hidden sm:inline">{isLocked ? 'Locked' : 'Download'}</span>
+            </button>
+          )}
+          <button onClick={onClose} className="p-2 text-white/70 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      {/* Stage */}
+      <div
+        className="relative flex-1 min-h-0 flex items-center justify-center overflow-hidden touch-none"
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onWheel={handleWheel}
+      >
+        {file.file_type === 'image' ? (
+          <img
+            key={file.id}
+            src={getPreviewUrl(file)}
+            alt={file.caption || getDownloadName(file)}
+            className="max-w-full max-h-full object-contain transition-transform duration-100 will-change-transform"
+            style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+            onDoubleClick={toggleZoom}
+            onError={(e) => {
+              const target = e.target as HTMLImageElement;
+              const originalUrl = getOriginalUrl(file);
+              if (originalUrl && target.src !== originalUrl) target.src = originalUrl;
+            }}
+            onContextMenu={(e) => e.preventDefault()}
+            draggable={false}
+          />
+        ) : getOriginalUrl(file) ? (
+          <video
+            key={file.id}
+            src={getOriginalUrl(file)}
+            poster={getPosterUrl(file)}
+            className="max-w-full max-h-full"
+            controls
+            autoPlay
+            playsInline
+            controlsList="nodownload"
+          />
+        ) : (
+          // Videos have no proof version; the original is only signed once the client may download it
+          <div key={file.id} className="relative max-w-full max-h-full flex items-center justify-center">
+            {getPosterUrl(file) && (
+              <img
+                src={getPosterUrl(file)}
+                alt={file.caption || getDownloadName(file)}
+                className="max-w-full max-h-full object-contain opacity-60"
+                onContextMenu={(e) => e.preventDefault()}
+                draggable={false}
+              />
+            )}
+            <p className={`${getPosterUrl(file) ? 'absolute' : ''} flex items-center gap-2 px-4 py-2 rounded-full bg-black/70 text-white text-sm`}>
+              <Lock className="w-4 h-4" />
+              {isSelectionMode ? 'This video plays once your photos are delivered' : isLocked ? 'This video plays once the balance is paid' : 'This video is not available'}
+            </p>
+          </div>
+        )}
+
+        {hasPrev && (
+          <button
+            onClick={goPrev}
+            className="hidden md:flex absolute left-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+        )}
+        {hasNext && (
+          <button
+            onClick={goNext}
+            className="hidden md:flex absolute right-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+          >
+            <ChevronRight className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+
+      {/* Caption */}
+      <div className="p-4 text-center text-white">
+        {file.caption && <p className="text-sm mb-1">{file.caption}</p>}
+        <p className="text-xs text-white/50">
+          {[getDownloadName(file), ...details].join(' • ')}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Package, Loader2 } from 'lucide-react';
+import { supabase } from '../services/supabase';
+import { Gallery } from '../types';
+import { formatCurrency, getCurrencySymbol } from '../utils/formatters';
+
+interface PackageCardProps {
+  gallery: Gallery;
+  locale: string;
+  onUpdated: () => void;
+}
+
+export const PackageCard: React.FC<PackageCardProps> = ({ gallery, locale, onUpdated }) => {
+  const [included, setIncluded] = useState(gallery.included_selections?.toString() ?? '');
+  const [extraPrice, setExtraPrice] = useState(gallery.extra_price || 0);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setIncluded(gallery.included_selections?.toString() ?? '');
+    setExtraPrice(gallery.extra_price || 0);
+  }, [gallery.included_selections, gallery.extra_price]);
+
+  const includedValue = included.trim() === '' ? null : Number(included);
+  const isDirty = includedValue !== (gallery.included_selections ?? null) || extraPrice !== (gallery.extra_price || 0);
+
+  const savePackage = async () => {
+    if (includedValue !== null && (!Number.isInteger(includedValue) || includedValue < 0)) {
+      alert('Please enter a whole number of photos, or leave it blank for no limit.');
+      return;
+    }
+    if (extraPrice < 0) {
+      alert("The price per extra photo can't be negative.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('galleries')
+        .update({ included_selections: includedValue, extra_price: extraPrice })
+        .eq('id', gallery.id);
+
+      if (error) throw error;
+
+      await supabase.from('activity_logs').insert({
+        gallery_id: gallery.id,
+        action: includedValue === null
+          ? 'Package set to: no selection limit'
+          : `Package set to: ${includedValue} photos, ${formatCurrency(extraPrice, gallery.currency, locale)} per extra`
+      });
+
+      onUpdated();
+    } catch (error) {
+      console.error('Error saving package:', error);
+      alert('Failed to update the package.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Package className="w-5 h-5 text-slate-500" />
+        Package
+      </h2>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            Photos included
+            <span className="text-xs font-normal text-slate-400 ml-2">(Blank for no limit)</span>
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={included}
+            onChange={(e) => setIncluded(e.target.value)}
+            placeholder="No limit"
+            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Price per extra photo</label>
+          <div className="relative">
+            <span className="absolute left-3 top-2 text-slate-400">{getCurrencySymbol(gallery.currency, locale)}</span>
+            <input
+              type="number"
+              min={0}
+              value={extraPrice}
+              onChange={(e) => setExtraPrice(Number(e.target.value))}
+              disabled={includedValue === null}
+              className="w-full pl-12 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none disabled:bg-slate-100 disabled:text-slate-400"
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          Clients see how many of their picks are included. Extras are added to the agreed amount when they submit.
+        </p>
+
+        {isDirty && (
+          <button
+            onClick={savePackage}
+            disabled={saving}
+            className="w-full py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Package
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Lock, Loader2, Smartphone, CheckCircle2, AlertCircle } from 'lucide-react';
+import { formatCurrency } from '../utils/formatters';
+import { startPayment, waitForPayment } from '../services/payments';
+import { MPESA_CURRENCY, getVisitorLocale } from '../services/currency';
+import { InvoiceButtons } from './InvoiceButtons';
+
+interface PayModalProps {
+  galleryId: string;
+  agreedAmount: number;
+  amountPaid: number;
+  currency: string;
+  onClose: () => void;
+  onPaid: () => void; // Reload the gallery so downloads unlock
+  onShowReceipts: () => void;
+}
+
+type PayState = 'idle' | 'requesting' | 'waiting' | 'completed' | 'failed';
+
+export const PayModal: React.FC<PayModalProps> = ({ galleryId, agreedAmount, amountPaid, currency, onClose, onPaid, onShowReceipts }) => {
+  const balanceDue = Math.max(0, agreedAmount - amountPaid);
+  const money = (amount: number) => formatCurrency(amount, currency, getVisitorLocale());
+  const canPayByMpesa = currency === MPESA_CURRENCY;
+  const [phone, setPhone] = useState('');
+  const [state, setState] = useState<PayState>('idle');
+  const [message, setMessage] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop polling if the modal is closed mid-payment
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!phone.trim()) return;
+
+    setState('requesting');
+    setMessage('');
+    abortRef.current = new AbortController();
+
+    try {
+      const { transaction_id } = await startPayment(galleryId, phone);
+      setState('waiting');
+
+      const result = await waitForPayment(galleryId, transaction_id, abortRef.current.signal);
+      if (abortRef.current.signal.aborted) return;
+
+      if (result.status === 'completed') {
+        setState('completed');
+        setMessage(result.receipt_number ? `Receipt ${result.receipt_number}` : '');
+        onPaid();
+      } else if (result.status === 'failed') {
+        setState('failed');
+        setMessage(result.result_description || 'The payment was not completed.');
+      } else {
+        setState('failed');
+        setMessage('We did not hear back in time. If you paid, your gallery will unlock shortly.');
+      }
+    } catch (error: any) {
+      console.error('Payment failed', error);
+      setState('failed');
+      setMessage(error?.message || 'Could not start the payment. Please try again.');
+    }
+  };
+
+  if (state === 'completed') {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+        <div className="bg-white rounded-2xl max-w-sm w-full p-6 text-center shadow-xl animate-in fade-in zoom-in-95 duration-200">
+          <div className="w-12 h-12 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <CheckCircle2 className="w-6 h-6 text-emerald-600" />
+          </div>
+          <h3 className="text-lg font-bold text-slate-900 mb-2">Payment Received</h3>
+          <p className="text-slate-600 mb-1 text-sm">Thank you! Your downloads are now unlocked.</p>
+          {message && <p className="text-xs text-slate-400 mb-6">{message}</p>}
+          <button
+            onClick={onClose}
+            className="w-full bg-slate-900 text-white py-2.5 rounded-lg font-medium hover:bg-slate-800 transition-colors"
+          >
+            Start Downloading
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const busy = state === 'requesting' || state === 'waiting';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-2xl max-w-sm w-full p-6 text-center shadow-xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="w-12 h-12 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-6 h-6 text-amber-600" />
+        </div>
+        <h3 className="text-lg font-bold text-slate-900 mb-2">Downloads Locked</h3>
+        <p className="text-slate-600 mb-6 text-sm">
+          You have a remaining balance of <strong className="text-slate-900">{money(balanceDue)}</strong>.
+          <br/>
+          <span className="text-xs text-slate-500 mt-2 block">(Agreed: {money(agreedAmount)} - Paid: {money(amountPaid)})</span>
+          {amountPaid > 0 && (
+            <button onClick={onShowReceipts} className="text-xs text-emerald-700 hover:text-emerald-800 underline mt-1">
+              View payments
+            </button>
+          )}
+        </p>
+
+        <div className="mb-4">
+          <InvoiceButtons galleryId={galleryId} />
+        </div>
+
+        {state === 'waiting' ? (
+          <div className="mb-6 p-4 bg-emerald-50 border border-emerald-100 rounded-xl text-sm text-emerald-800 flex items-center gap-3 text-left">
+            <Smartphone className="w-6 h-6 shrink-0" />
+            <span>Check your phone and enter your M-Pesa PIN to pay <strong>{money(balanceDue)}</strong>.</span>
+          </div>
+        ) : !canPayByMpesa ? (
+          <p className="mb-3 text-xs text-slate-400">Contact your photographer to settle payment.</p>
+        ) : (
+          <form onSubmit={handlePay} className="mb-3 space-y-3">
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="M-Pesa number, e.g. 0712 345 678"
+              disabled={busy}
+              className="w-full px-4 py-2.5 border border-slate-300 rounded-lg text-center focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            />
+            <button
+              type="submit"
+              disabled={busy || !phone.trim()}
+              className="w-full bg-emerald-600 text-white py-2.5 rounded-lg font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              Pay {money(balanceDue)} with M-Pesa
+            </button>
+          </form>
+        )}
+
+        {state === 'failed' && message && (
+          <p className="mb-3 text-xs text-red-600 flex items-center justify-center gap-1">
+            <AlertCircle className="w-3 h-3 shrink-0" />
+            {message}
+          </p>
+        )}
+
+        <button
+            onClick={onClose}
+            className="w-full text-slate-500 py-2 rounded-lg text-sm font-medium hover:bg-slate-50 transition-colors"
+        >
+            {state === 'waiting' ? 'Close (payment continues)' : 'Close'}
+        </button>
+      </div>
+    </div>
+  );
+};
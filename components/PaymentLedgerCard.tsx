@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { Receipt, Loader2, Plus, Ban, Undo2 } from 'lucide-react';
+import { Gallery, Payment, PaymentMethod } from '../types';
+import { formatCurrency, formatDate, getCurrencySymbol } from '../utils/formatters';
+import { toLocalInputValue } from '../services/expiry';
+import { PAYMENT_METHOD_LABELS, NewLedgerEntry, listPayments, recordPayment, voidPayment } from '../services/payments';
+
+interface PaymentLedgerCardProps {
+  gallery: Gallery;
+  locale: string;
+  onUpdated: () => void;
+}
+
+const emptyEntry = (kind: Payment['kind']): NewLedgerEntry => ({
+  kind,
+  amount: 0,
+  method: 'mpesa',
+  reference: '',
+  paid_at: toLocalInputValue(new Date().toISOString()),
+  note: '',
+});
+
+export const PaymentLedgerCard: React.FC<PaymentLedgerCardProps> = ({ gallery, locale, onUpdated }) => {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<NewLedgerEntry | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [voidingId, setVoidingId] = useState<string | null>(null);
+
+  const loadPayments = async () => {
+    try {
+      setPayments(await listPayments(gallery.id));
+    } catch (error) {
+      console.error('Error loading payments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // amount_paid changes whenever the ledger does, including payments made from the client gallery
+  useEffect(() => {
+    loadPayments();
+  }, [gallery.id, gallery.amount_paid]);
+
+  const paid = gallery.amount_paid || 0;
+  const money = (amount: number) => formatCurrency(amount, gallery.currency, locale);
+
+  const saveEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (!(draft.amount > 0)) {
+      alert('Please enter an amount greater than zero.');
+      return;
+    }
+    if (draft.kind === 'refund' && draft.amount > paid) {
+      alert(`A refund can't be more than the ${money(paid)} paid so far.`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await recordPayment(gallery, { ...draft, paid_at: new Date(draft.paid_at).toISOString() });
+      setDraft(null);
+      onUpdated();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      alert('Failed to record payment.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVoid = async (payment: Payment) => {
+    const reason = window.prompt(`Void this ${payment.kind} of ${money(payment.amount)}? It stays in the history but no longer counts.\n\nReason (optional):`);
+    if (reason === null) return;
+
+    setVoidingId(payment.id);
+    try {
+      await voidPayment(payment.id, reason);
+      onUpdated();
+    } catch (error) {
+      console.error('Error voiding payment:', error);
+      alert('Failed to void payment.');
+    } finally {
+      setVoidingId(null);
+    }
+  };
+
+  const recordedBy = (payment: Payment) => {
+    if (payment.recorded_by) return 'you';
+    return payment.transaction_id ? 'the client gallery' : 'the old amount paid field';
+  };
+
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <Receipt className="w-5 h-5 text-slate-500" />
+        Payment History
+      </h2>
+      <p className="text-xs text-slate-500 mb-4">
+        Amount paid is the total of these entries. Entries can't be edited; void a mistake and record it again.
+      </p>
+
+      {loading ? (
+        <div className="py-4 text-center text-slate-400 text-sm">Loading...</div>
+      ) : payments.length === 0 ? (
+        <p className="py-4 text-center text-slate-400 text-sm">No payments recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 mb-4 max-h-80 overflow-y-auto">
+          {payments.map(payment => {
+            const voided = !!payment.voided_at;
+            return (
+              <li key={payment.id} className={`py-3 text-sm ${voided ? 'opacity-50' : ''}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className={`font-medium ${voided ? 'line-through text-slate-500' : payment.kind === 'refund' ? 'text-red-600' : 'text-slate-900'}`}>
+                      {payment.kind === 'refund' ? '−' : ''}{money(payment.amount)}
+                      <span className="font-normal text-slate-500"> · {PAYMENT_METHOD_LABELS[payment.method]}</span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {formatDate(payment.paid_at)}
+                      {payment.reference && <> · <span className="font-mono">{payment.reference}</span></>}
+                    </p>
+                    {payment.note && <p className="text-xs text-slate-500 mt-0.5 break-words">{payment.note}</p>}
+                    <p className="text-[11px] text-slate-400 mt-0.5">
+                      {payment.kind === 'refund' ? 'Refund' : 'Payment'} recorded by {recordedBy(payment)}
+                    </p>
+                    {voided && (
+                      <p className="text-[11px] text-red-500 mt-0.5">
+                        Voided {formatDate(payment.voided_at!)}{payment.void_reason ? `: ${payment.void_reason}` : ''}
+                      </p>
+                    )}
+                  </div>
+                  {!voided && (
+                    <button
+                      onClick={() => handleVoid(payment)}
+                      disabled={voidingId === payment.id}
+                      className="shrink-0 p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50"
+                      title="Void entry"
+                    >
+                      {voidingId === payment.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {draft ? (
+        <form onSubmit={saveEntry} className="space-y-3 pt-4 border-t border-slate-100">
+          <p className="text-sm font-medium text-slate-900">{draft.kind === 'refund' ? 'Record Refund' : 'Record Payment'}</p>
+          <div className="relative">
+            <span className="absolute left-3 top-2 text-slate-400 text-sm">{getCurrencySymbol(gallery.currency, locale)}</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.amount || ''}
+              onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value) })}
+              placeholder="Amount"
+              autoFocus
+              className="w-full pl-12 pr-4 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={draft.method}
+              onChange={(e) => setDraft({ ...draft, method: e.target.value as PaymentMethod })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            >
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={draft.reference}
+              onChange={(e) => setDraft({ ...draft, reference: e.target.value })}
+              placeholder="Reference"
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            />
+          </div>
+          <input
+            type="datetime-local"
+            value={draft.paid_at}
+            onChange={(e) => setDraft({ ...draft, paid_at: e.target.value })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+          />
+          <input
+            type="text"
+            value={draft.note}
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+            placeholder="Note (only you can see this)"
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="flex-1 py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={() => setDraft(emptyEntry('payment'))}
+            className="flex-1 py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-emerald-50 hover:border-emerald-200 hover:text-emerald-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Payment
+          </button>
+          <button
+            onClick={() => setDraft(emptyEntry('refund'))}
+            disabled={paid <= 0}
+            className="flex-1 py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-red-50 hover:border-red-200 hover:text-red-700 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+          >
+            <Undo2 className="w-4 h-4" />
+            Refund
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
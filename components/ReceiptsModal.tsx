@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Receipt as ReceiptIcon, X } from 'lucide-react';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { PAYMENT_METHOD_LABELS, Receipt, listReceipts } from '../services/payments';
+import { InvoiceButtons } from './InvoiceButtons';
+import { getVisitorLocale } from '../services/currency';
+
+interface ReceiptsModalProps {
+  galleryId: string;
+  agreedAmount: number;
+  amountPaid: number;
+  currency: string;
+  onClose: () => void;
+}
+
+export const ReceiptsModal: React.FC<ReceiptsModalProps> = ({ galleryId, agreedAmount, amountPaid, currency, onClose }) => {
+  const money = (amount: number) => formatCurrency(amount, currency, getVisitorLocale());
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    listReceipts(galleryId)
+      .then(setReceipts)
+      .catch(error => console.error('Error loading receipts:', error))
+      .finally(() => setLoading(false));
+  }, [galleryId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl max-w-sm w-full p-6 shadow-xl animate-in fade-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <ReceiptIcon className="w-5 h-5 text-slate-500" />
+            Payments
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-md">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="py-6 text-center text-slate-400 text-sm">Loading...</div>
+        ) : receipts.length === 0 ? (
+          <p className="py-6 text-center text-slate-400 text-sm">No payments yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+            {receipts.map(receipt => (
+              <li key={receipt.id} className="py-3 flex items-start justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="text-slate-900">{receipt.kind === 'refund' ? 'Refund' : PAYMENT_METHOD_LABELS[receipt.method]}</p>
+                  <p className="text-xs text-slate-500">
+                    {formatDate(receipt.paid_at)}
+                    {receipt.reference && <> · <span className="font-mono">{receipt.reference}</span></>}
+                  </p>
+                </div>
+                <span className={`font-medium shrink-0 ${receipt.kind === 'refund' ? 'text-red-600' : 'text-slate-900'}`}>
+                  {receipt.kind === 'refund' ? '−' : ''}{money(receipt.amount)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-4 pt-4 border-t border-slate-100 space-y-1 text-sm">
+          <div className="flex justify-between text-slate-500">
+            <span>Agreed</span>
+            <span>{money(agreedAmount)}</span>
+          </div>
+          <div className="flex justify-between text-slate-500">
+            <span>Paid</span>
+            <span>{money(amountPaid)}</span>
+          </div>
+          <div className="flex justify-between font-semibold text-slate-900">
+            <span>Balance</span>
+            <span>{money(Math.max(0, agreedAmount - amountPaid))}</span>
+          </div>
+        </div>
+
+        {agreedAmount > 0 && (
+          <div className="mt-4">
+            <InvoiceButtons galleryId={galleryId} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { X, Loader2, Mail, UserRound } from 'lucide-react';
+import { StoredReviewer, joinGallery, sendReviewerSignInLink } from '../services/reviewers';
+
+interface ReviewerModalProps {
+  galleryId: string;
+  onJoined: (reviewer: StoredReviewer) => void;
+  onClose: () => void;
+}
+
+export const ReviewerModal: React.FC<ReviewerModalProps> = ({ galleryId, onJoined, onClose }) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [sendingLink, setSendingLink] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setJoining(true);
+    setError(null);
+    try {
+      onJoined(await joinGallery(galleryId, name, email));
+    } catch (err) {
+      console.error('Error joining gallery:', err);
+      setError((err as { message?: string }).message?.includes('Email already confirmed')
+        ? 'This email was confirmed with a sign-in link. Use "Email me a sign-in link" to continue.'
+        : 'Something went wrong. Please try again.');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const handleSendLink = async () => {
+    if (!email.trim()) {
+      setError('Enter your email to get a sign-in link.');
+      return;
+    }
+
+    setSendingLink(true);
+    setError(null);
+    try {
+      await sendReviewerSignInLink(galleryId, name, email);
+      setLinkSent(true);
+    } catch (err) {
+      console.error('Error sending sign-in link:', err);
+      setError('Could not send the link. Please check the email address.');
+    } finally {
+      setSendingLink(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl max-w-sm w-full p-6 shadow-xl animate-in fade-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <UserRound className="w-5 h-5 text-slate-500" />
+            Who's choosing?
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-md">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {linkSent ? (
+          <div className="py-4 text-center">
+            <Mail className="w-10 h-10 mx-auto mb-3 text-emerald-500" />
+            <p className="text-sm text-slate-700">
+              We sent a sign-in link to <strong>{email.trim()}</strong>. Open it on any device to continue with your favorites.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleJoin} className="space-y-3">
+            <p className="text-sm text-slate-500">
+              Everyone who opens this link keeps their own favorites, so your photographer can see who picked what.
+            </p>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name"
+              maxLength={100}
+              autoFocus
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-rose-500 outline-none"
+            />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email (optional, to continue on another device)"
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-rose-500 outline-none"
+            />
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={joining || !name.trim()}
+              className="w-full py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+            >
+              {joining && <Loader2 className="w-4 h-4 animate-spin" />}
+              Start Choosing
+            </button>
+            <button
+              type="button"
+              onClick={handleSendLink}
+              disabled={sendingLink}
+              className="w-full py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-slate-50 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+            >
+              {sendingLink ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+              Email me a sign-in link
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
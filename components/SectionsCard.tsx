@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { FolderPlus, ChevronUp, ChevronDown, Trash2, Plus } from 'lucide-react';
+import { supabase } from '../services/supabase';
+import { Section } from '../types';
+import { saveSectionOrder, moveItem } from '../services/sections';
+
+interface SectionsCardProps {
+  galleryId: string;
+  sections: Section[];
+  fileCounts: Record<string, number>;
+  onChange: (sections: Section[]) => void;
+  onDeleted: () => void;
+}
+
+export const SectionsCard: React.FC<SectionsCardProps> = ({ galleryId, sections, fileCounts, onChange, onDeleted }) => {
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const createSection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setCreating(true);
+    try {
+      const { data, error } = await supabase
+        .from('sections')
+        .insert({ gallery_id: galleryId, name, position: sections.length })
+        .select()
+        .single();
+
+      if (error) throw error;
+      onChange([...sections, data]);
+      setNewName('');
+    } catch (error) {
+      console.error('Error creating section:', error);
+      alert('Failed to create section');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const renameSection = async (section: Section, value: string) => {
+    const name = value.trim();
+    if (!name || name === section.name) return;
+
+    try {
+      const { error } = await supabase
+        .from('sections')
+        .update({ name })
+        .eq('id', section.id);
+
+      if (error) throw error;
+      onChange(sections.map(s => s.id === section.id ? { ...s, name } : s));
+    } catch (error) {
+      console.error('Error renaming section:', error);
+      alert('Failed to rename section');
+    }
+  };
+
+  const moveSection = async (index: number, direction: -1 | 1) => {
+    const reordered = moveItem<Section>(sections, index, index + direction);
+    if (reordered === sections) return;
+
+    const previous = sections;
+    onChange(reordered.map((section, position) => ({ ...section, position })));
+    try {
+      await saveSectionOrder(reordered.map(section => section.id));
+    } catch (error) {
+      console.error('Error reordering sections:', error);
+      onChange(previous);
+    }
+  };
+
+  const deleteSection = async (section: Section) => {
+    if (!confirm(`Delete the "${section.name}" section? Its files stay in the gallery, unassigned.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('sections')
+        .delete()
+        .eq('id', section.id);
+
+      if (error) throw error;
+      onChange(sections.filter(s => s.id !== section.id));
+      onDeleted();
+    } catch (error) {
+      console.error('Error deleting section:', error);
+      alert('Failed to delete section');
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <FolderPlus className="w-5 h-5 text-slate-500" />
+        Sections
+      </h2>
+
+      {sections.length === 0 ? (
+        <p className="text-xs text-slate-500 mb-4">
+          Split the gallery into parts such as "Ceremony" or "Reception". Clients can jump between them and download each one separately.
+        </p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {sections.map((section, index) => (
+            <div key={section.id} className="flex items-center gap-1">
+              <input
+                type="text"
+                defaultValue={section.name}
+                onBlur={(e) => renameSection(section, e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-transparent hover:border-slate-200 focus:border-emerald-500 rounded-md outline-none"
+              />
+              <span className="text-xs text-slate-400 px-1">{fileCounts[section.id] || 0}</span>
+              <button
+                onClick={() => moveSection(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveSection(index, 1)}
+                disabled={index === sections.length - 1}
+                className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => deleteSection(section)}
+                className="p-1 text-slate-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={createSection} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New section name"
+          className="flex-1 min-w-0 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={creating || !newName.trim()}
+          className="px-3 py-2 bg-slate-900 text-white rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { FileDown, Loader2, Copy, Check, Star } from 'lucide-react';
+import { FileComment, Gallery, GalleryFile } from '../types';
+import { XmpLabel, XMP_LABELS, getLightroomFilter, downloadSelectionCsv, downloadXmpSidecars } from '../services/selectionExport';
+
+interface SelectionExportCardProps {
+  gallery: Gallery;
+  files: GalleryFile[]; // What the Selected view shows
+  comments: FileComment[];
+  reviewerNames: Map<string, string>;
+}
+
+export const SelectionExportCard: React.FC<SelectionExportCardProps> = ({ gallery, files, comments, reviewerNames }) => {
+  const [filterCopied, setFilterCopied] = useState(false);
+  const [rating, setRating] = useState<number | null>(5);
+  const [label, setLabel] = useState<XmpLabel | null>(null);
+  const [zipping, setZipping] = useState(false);
+
+  const handleCopyFilter = async () => {
+    try {
+      await navigator.clipboard.writeText(getLightroomFilter(files));
+      setFilterCopied(true);
+      setTimeout(() => setFilterCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy filenames:', error);
+      alert('Failed to copy the filenames.');
+    }
+  };
+
+  const handleDownloadXmp = async () => {
+    setZipping(true);
+    try {
+      await downloadXmpSidecars(gallery.client_name, files, { rating, label });
+    } catch (error) {
+      console.error('Error creating XMP sidecars:', error);
+      alert('Failed to create the XMP files.');
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center gap-2 mb-2">
+        <FileDown className="w-5 h-5 text-slate-500" />
+        Export Selection
+      </h2>
+      <p className="text-sm text-slate-600 mb-4">
+        {files.length} photos from the Selected view, by their original filenames.
+      </p>
+
+      <div className="space-y-2">
+        <button
+          onClick={handleCopyFilter}
+          className="w-full py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors flex items-center justify-center gap-2"
+          title="Paste into Lightroom's Library filter (Text, Filename, Contains) or Capture One's search"
+        >
+          {filterCopied ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+          {filterCopied ? 'Copied' : 'Copy Lightroom Filter'}
+        </button>
+        <button
+          onClick={() => downloadSelectionCsv(gallery.client_name, files, comments, reviewerNames)}
+          className="w-full py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors flex items-center justify-center gap-2"
+        >
+          <FileDown className="w-4 h-4" />
+          CSV with Comments
+        </button>
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100">
+        <p className="text-xs text-slate-500 mb-2">
+          XMP sidecars: copy them next to the originals, then read metadata from files in Lightroom or Capture One.
+        </p>
+        <div className="flex gap-2 mb-2">
+          <div className="flex-1 flex items-center gap-1 px-2 border border-slate-300 rounded-lg text-sm">
+            <Star className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+            <select
+              value={rating ?? ''}
+              onChange={(e) => setRating(e.target.value ? Number(e.target.value) : null)}
+              className="w-full py-2 bg-transparent outline-none cursor-pointer text-slate-700"
+            >
+              <option value="">No rating</option>
+              {[1, 2, 3, 4, 5].map(stars => (
+                <option key={stars} value={stars}>{stars} {stars === 1 ? 'star' : 'stars'}</option>
+              ))}
+            </select>
+          </div>
+          <select
+            value={label ?? ''}
+            onChange={(e) => setLabel((e.target.value || null) as XmpLabel | null)}
+            className="flex-1 px-2 py-2 border border-slate-300 rounded-lg bg-white outline-none cursor-pointer text-sm text-slate-700"
+          >
+            <option value="">No label</option>
+            {XMP_LABELS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleDownloadXmp}
+          disabled={zipping || (!rating && !label)}
+          className="w-full py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+        >
+          {zipping ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+          Download XMP Sidecars
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { Heart, Loader2, RotateCcw, CheckCheck, Layers, Eye } from 'lucide-react';
+import { Gallery, SelectionRound } from '../types';
+import { formatDate } from '../utils/formatters';
+import { SELECTION_STATUS_LABELS, reopenSelection, completeSelection, startSelectionRound, listSelectionRounds } from '../services/selections';
+
+interface SelectionWorkflowCardProps {
+  gallery: Gallery;
+  selectedCount: number;
+  viewingRound: number | null;
+  onViewRound: (round: SelectionRound) => void;
+  onUpdated: () => void;
+}
+
+type NoteAction = 'reopen' | 'round';
+
+const STATUS_STYLES: Record<Gallery['selection_status'], string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  submitted: 'bg-rose-50 text-rose-700',
+  completed: 'bg-emerald-50 text-emerald-700',
+};
+
+export const SelectionWorkflowCard: React.FC<SelectionWorkflowCardProps> = ({ gallery, selectedCount, viewingRound, onViewRound, onUpdated }) => {
+  const [rounds, setRounds] = useState<SelectionRound[]>([]);
+  const [noteAction, setNoteAction] = useState<NoteAction | null>(null);
+  const [note, setNote] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const status = gallery.selection_status;
+  const round = gallery.selection_round || 1;
+
+  useEffect(() => {
+    if (round === 1) {
+      setRounds([]);
+      return;
+    }
+    listSelectionRounds(gallery.id)
+      .then(setRounds)
+      .catch(error => console.error('Error loading selection rounds:', error));
+  }, [gallery.id, round]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setWorking(true);
+    try {
+      await action();
+      setNoteAction(null);
+      setNote('');
+      onUpdated();
+    } catch (error) {
+      console.error(error);
+      alert(failure);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleComplete = () => {
+    if (!confirm('Mark this selection as completed? The client will no longer be able to change it.')) return;
+    run(() => completeSelection(gallery.id), 'Failed to complete the selection.');
+  };
+
+  const handleNoteSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (noteAction === 'reopen') {
+      run(() => reopenSelection(gallery.id, note), 'Failed to reopen the selection.');
+    } else if (confirm(`Start round ${round + 1}? The client's current ${selectedCount} picks are saved to the history and cleared.`)) {
+      run(() => startSelectionRound(gallery.id, note), 'Failed to start a new round.');
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Heart className="w-5 h-5 text-slate-500" />
+          Selection
+        </h2>
+        <div className="flex items-center gap-2 text-xs font-medium">
+          {round > 1 && <span className="text-slate-500">Round {round}</span>}
+          <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}>{SELECTION_STATUS_LABELS[status]}</span>
+        </div>
+      </div>
+
+      <p className="text-sm text-slate-600 mb-4">
+        {status === 'pending' && `The client has picked ${selectedCount} so far and hasn't submitted yet.`}
+        {status === 'submitted' && `The client submitted ${selectedCount} photos. Mark it completed once you've delivered them, or reopen it for changes.`}
+        {status === 'completed' && `${selectedCount} photos delivered. Start a new round to send more proofs.`}
+      </p>
+
+      {status === 'pending' && gallery.selection_note && (
+        <p className="text-xs text-slate-500 bg-slate-50 border border-slate-100 rounded-lg p-3 mb-4">
+          Your note: {gallery.selection_note}
+        </p>
+      )}
+
+      {noteAction ? (
+        <form onSubmit={handleNoteSubmit} className="space-y-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={noteAction === 'reopen' ? 'Note for the client, e.g. "Please swap the blurry group shot"' : 'Note for the client about the new proofs'}
+            rows={3}
+            autoFocus
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={working}
+              className="flex-1 py-2 rounded-lg bg-slate-900 text-white hover:bg-slate-800 text-sm font-medium flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+            >
+              {working && <Loader2 className="w-4 h-4 animate-spin" />}
+              {noteAction === 'reopen' ? 'Reopen Selection' : `Start Round ${round + 1}`}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setNoteAction(null); setNote(''); }}
+              className="px-3 py-2 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : status !== 'pending' && (
+        <div className="space-y-2">
+          {status === 'submitted' && (
+            <button
+              onClick={handleComplete}
+              disabled={working}
+              className="w-full py-2.5 rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+            >
+              {working ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCheck className="w-4 h-4" />}
+              Mark Completed
+            </button>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => setNoteAction('reopen')}
+              className="flex-1 py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors flex items-center justify-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reopen
+            </button>
+            <button
+              onClick={() => setNoteAction('round')}
+              className="flex-1 py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors flex items-center justify-center gap-2"
+            >
+              <Layers className="w-4 h-4" />
+              New Round
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rounds.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-slate-100">
+          <p className="text-xs text-slate-500 mb-2">Earlier rounds</p>
+          <ul className="space-y-1">
+            {rounds.map(previous => (
+              <li key={previous.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-slate-700">
+                  Round {previous.round}
+                  <span className="text-xs text-slate-400 ml-2">
+                    {previous.file_ids.length} photos · {SELECTION_STATUS_LABELS[previous.status]} · {formatDate(previous.closed_at)}
+                  </span>
+                </span>
+                <button
+                  onClick={() => onViewRound(previous)}
+                  disabled={viewingRound === previous.round}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:text-rose-500 rounded-md"
+                  title="Show these photos"
+                >
+                  <Eye className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
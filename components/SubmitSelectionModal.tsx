@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, Send, Users, UserRound } from 'lucide-react';
+import { supabase } from '../services/supabase';
+import { Gallery } from '../types';
+import { StoredReviewer, ReviewerSummary, listGalleryReviewers, groupPicksByReviewer, filterPicks } from '../services/reviewers';
+import { getSelectionOverage } from '../services/packages';
+import { getVisitorLocale } from '../services/currency';
+import { formatCurrency } from '../utils/formatters';
+
+interface SubmitSelectionModalProps {
+  gallery: Gallery;
+  reviewer: StoredReviewer;
+  ownCount: number;
+  submitting: boolean;
+  onSubmit: (merged: boolean) => void;
+  onClose: () => void;
+}
+
+export const SubmitSelectionModal: React.FC<SubmitSelectionModalProps> = ({ gallery, reviewer, ownCount, submitting, onSubmit, onClose }) => {
+  const [others, setOthers] = useState<ReviewerSummary[]>([]);
+  const [mergedCount, setMergedCount] = useState(ownCount);
+  const [merged, setMerged] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const reviewers = await listGalleryReviewers(gallery.id);
+        setOthers(reviewers.filter(other => other.id !== reviewer.id && other.pick_count > 0));
+
+        const { data, error } = await supabase
+          .from('selections')
+          .select('file_id, reviewer_id')
+          .eq('gallery_id', gallery.id)
+          .not('reviewer_id', 'is', null);
+        if (error) throw error;
+        setMergedCount(filterPicks(groupPicksByReviewer(data || []), [], 'anyone').size);
+      } catch (error) {
+        console.error('Error loading reviewers:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [gallery.id, reviewer.id]);
+
+  const count = merged ? mergedCount : ownCount;
+  const { extras, amount } = getSelectionOverage(count, gallery);
+
+  const options = [
+    { merged: false, icon: UserRound, label: 'Just my favorites', detail: `${ownCount} photos` },
+    { merged: true, icon: Users, label: "Everyone's favorites", detail: `${mergedCount} photos from you, ${others.map(other => other.name).join(', ')}` },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl max-w-sm w-full p-6 shadow-xl animate-in fade-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-900">Submit Selection</h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-md">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="py-6 flex justify-center text-slate-400">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {others.length > 0 ? (
+              <div className="space-y-2 mb-4">
+                {options.map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => setMerged(option.merged)}
+                    className={`w-full text-left p-3 rounded-lg border flex items-start gap-3 transition-colors ${
+                      merged === option.merged ? 'border-rose-400 bg-rose-50' : 'border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    <option.icon className={`w-5 h-5 mt-0.5 shrink-0 ${merged === option.merged ? 'text-rose-600' : 'text-slate-400'}`} />
+                    <span>
+                      <span className="block text-sm font-medium text-slate-900">{option.label}</span>
+                      <span className="block text-xs text-slate-500">{option.detail}</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-600 mb-4">You're submitting {ownCount} photos.</p>
+            )}
+
+            {extras > 0 && (
+              <p className="text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded-lg p-3 mb-4">
+                {extras} of them {extras === 1 ? 'is' : 'are'} beyond your package and will add {formatCurrency(amount, gallery.currency, getVisitorLocale())} to your balance.
+              </p>
+            )}
+
+            <p className="text-xs text-slate-500 mb-4">Your photographer will be notified and favorites can't be changed afterwards.</p>
+
+            <button
+              onClick={() => onSubmit(merged)}
+              disabled={submitting || count === 0}
+              className="w-full py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+            >
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Submit {count} Photos
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Pause, Play, X, AlertCircle, CheckCircle2, Loader2, RotateCcw, Clock, Copy } from 'lucide-react';
+import { UploadItem, useUpload } from '../contexts/UploadContext';
+import { formatFileSize } from '../utils/formatters';
+
+interface UploadItemRowProps {
+  item: UploadItem;
+}
+
+export const UploadItemRow: React.FC<UploadItemRowProps> = ({ item }) => {
+  const { pauseUpload, resumeUpload, cancelUpload, uploadDuplicate } = useUpload();
+  const percentage = item.size > 0 ? Math.round((item.bytesUploaded / item.size) * 100) : 0;
+
+  return (
+    <div className="py-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-medium text-slate-700 truncate flex items-center gap-1.5">
+            {item.status === 'queued' && <Clock className="w-3 h-3 text-slate-400 shrink-0" />}
+            {item.status === 'uploading' && <Loader2 className="w-3 h-3 animate-spin text-emerald-500 shrink-0" />}
+            {item.status === 'done' && <CheckCircle2 className="w-3 h-3 text-emerald-500 shrink-0" />}
+            {item.status === 'failed' && <AlertCircle className="w-3 h-3 text-red-500 shrink-0" />}
+            {item.status === 'skipped' && <Copy className="w-3 h-3 text-amber-500 shrink-0" />}
+            <span className="truncate">{item.name}</span>
+          </p>
+          <p className="text-[10px] text-slate-400 truncate">
+            {formatFileSize(item.bytesUploaded)} / {formatFileSize(item.size)}
+            {item.status === 'queued' && ' • Queued'}
+            {item.status === 'done' && ' • Done'}
+            {item.status === 'skipped' && ' • Duplicate skipped'}
+            {item.status === 'paused' && (item.needsFile ? ' • Select this file again to resume' : ' • Paused')}
+            {item.status === 'failed' && item.needsFile && ' • Select this file again to retry'}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1 shrink-0">
+          {item.status === 'uploading' && (
+            <button onClick={() => pauseUpload(item.id)} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Pause">
+              <Pause className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {item.status === 'paused' && !item.needsFile && (
+            <button onClick={() => resumeUpload(item.id)} className="p-1 text-slate-400 hover:text-emerald-600 rounded" title="Resume">
+              <Play className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {item.status === 'failed' && !item.needsFile && (
+            <button onClick={() => resumeUpload(item.id)} className="p-1 text-slate-400 hover:text-emerald-600 rounded" title="Retry">
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {item.status === 'skipped' && (
+            <button onClick={() => uploadDuplicate(item.id)} className="px-1.5 py-0.5 text-[10px] font-medium text-slate-500 hover:text-emerald-600 rounded border border-slate-200" title="Upload this copy anyway">
+              Upload anyway
+            </button>
+          )}
+          {item.status !== 'done' && (
+            <button onClick={() => cancelUpload(item.id)} className="p-1 text-slate-400 hover:text-red-600 rounded" title={item.status === 'skipped' ? 'Dismiss' : 'Cancel'}>
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {item.status !== 'skipped' && (
+        <div className="w-full h-1 bg-slate-200 rounded-full overflow-hidden mt-1">
+          <div
+            className={`h-full transition-all duration-300 ease-out ${item.status === 'failed' ? 'bg-red-400' : item.status === 'paused' ? 'bg-amber-400' : 'bg-emerald-500'}`}
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      )}
+
+      {item.status === 'failed' && item.error && (
+        <p className="text-[10px] text-red-600 mt-1 break-words">{item.error}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { ChevronDown, ChevronUp, UploadCloud, AlertCircle } from 'lucide-react';
+import { useUpload } from '../contexts/UploadContext';
+import { UploadItemRow } from './UploadItemRow';
+
+interface UploadPanelProps {
+  isOpen: boolean;
+  onToggle: () => void;
+}
+
+export const UploadPanel: React.FC<UploadPanelProps> = ({ isOpen, onToggle }) => {
+  const { items, progress, uploading, clearFinished } = useUpload();
+
+  if (items.length === 0) return null;
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const skippedCount = items.filter(item => item.status === 'skipped').length;
+  const uploadCount = items.length - skippedCount;
+
+  // Group by gallery so batches started back to back stay readable
+  const galleryIds = Array.from(new Set(items.map(item => item.galleryId)));
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-[calc(100%-2rem)] sm:w-96 bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden">
+      <button
+        onClick={onToggle}
+        className="w-full px-4 py-3 bg-slate-900 text-white flex items-center justify-between gap-3"
+      >
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <UploadCloud className="w-4 h-4 text-emerald-400" />
+          {uploading ? `Uploading ${doneCount}/${uploadCount}` : `Uploads (${doneCount}/${uploadCount} done)`}
+          {failedCount > 0 && (
+            <span className="flex items-center gap-1 text-xs text-red-300">
+              <AlertCircle className="w-3 h-3" />
+              {failedCount} failed
+            </span>
+          )}
+          {skippedCount > 0 && (
+            <span className="text-xs text-amber-300">{skippedCount} skipped</span>
+          )}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="text-xs text-emerald-400 font-bold">{progress}%</span>
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="max-h-80 overflow-y-auto">
+          {galleryIds.map(galleryId => {
+            const galleryItems = items.filter(item => item.galleryId === galleryId);
+            const gallerySkipped = galleryItems.filter(item => item.status === 'skipped').length;
+            return (
+              <div key={galleryId} className="px-4 py-2 border-b border-slate-100 last:border-0">
+                <p className="text-[10px] uppercase tracking-wider font-semibold text-slate-400 pt-1">
+                  {galleryItems[0].galleryName}
+                </p>
+                {gallerySkipped > 0 && (
+                  <p className="text-[11px] text-amber-700 bg-amber-50 border border-amber-100 rounded px-2 py-1 mt-1">
+                    {gallerySkipped} {gallerySkipped === 1 ? 'file was' : 'files were'} skipped because {gallerySkipped === 1 ? 'it is' : 'they are'} already in this gallery.
+                  </p>
+                )}
+                <div className="divide-y divide-slate-100">
+                  {galleryItems.map(item => (
+                    <UploadItemRow key={item.id} item={item} />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          {(doneCount > 0 || skippedCount > 0) && (
+            <div className="px-4 py-2 bg-slate-50 text-right">
+              <button onClick={clearFinished} className="text-xs text-slate-500 hover:text-slate-900 font-medium">
+                Clear completed
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Stamp, Loader2, RefreshCw } from 'lucide-react';
+import { supabase } from '../services/supabase';
+import { Gallery, GalleryFile, WatermarkSettings } from '../types';
+import { resolveWatermark, regenerateProofs } from '../services/watermark';
+import { WatermarkEditor } from './WatermarkEditor';
+
+interface WatermarkCardProps {
+  gallery: Gallery;
+  files: GalleryFile[];
+  accountWatermark: WatermarkSettings | null;
+  onUpdated: () => void;
+}
+
+export const WatermarkCard: React.FC<WatermarkCardProps> = ({ gallery, files, accountWatermark, onUpdated }) => {
+  const [override, setOverride] = useState<WatermarkSettings | null>(gallery.watermark);
+  const [saving, setSaving] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    setOverride(gallery.watermark);
+  }, [gallery.watermark]);
+
+  const isDirty = JSON.stringify(override) !== JSON.stringify(gallery.watermark);
+  const imageCount = files.filter(file => file.file_type === 'image').length;
+
+  const saveOverride = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('galleries')
+        .update({ watermark: override })
+        .eq('id', gallery.id);
+
+      if (error) throw error;
+
+      await supabase.from('activity_logs').insert({
+        gallery_id: gallery.id,
+        action: override ? 'Custom watermark set' : 'Watermark reset to account default'
+      });
+
+      onUpdated();
+    } catch (error) {
+      console.error('Error saving watermark:', error);
+      alert('Failed to save watermark.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm(`Re-render the watermarked preview of ${imageCount} photo${imageCount === 1 ? '' : 's'}? Keep this page open until it finishes.`)) return;
+
+    try {
+      const failed = await regenerateProofs(files, resolveWatermark(accountWatermark, gallery), (done, total) => setProgress({ done, total }));
+      if (failed > 0) alert(`${failed} photo${failed === 1 ? '' : 's'} could not be updated.`);
+      onUpdated();
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <Stamp className="w-5 h-5 text-slate-500" />
+        Watermark
+      </h2>
+      <p className="text-xs text-slate-500 mb-4">
+        Clients see watermarked previews while a balance is due or selection mode is on.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-slate-700 mb-4 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={override === null}
+          onChange={(e) => setOverride(e.target.checked ? null : resolveWatermark(accountWatermark))}
+          className="accent-emerald-600"
+        />
+        Use my account watermark
+      </label>
+
+      {override && <WatermarkEditor value={override} onChange={setOverride} />}
+
+      {isDirty && (
+        <button
+          onClick={saveOverride}
+          disabled={saving}
+          className="w-full mt-4 py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Watermark
+        </button>
+      )}
+
+      {!isDirty && imageCount > 0 && (
+        <div className="pt-4 mt-4 border-t border-slate-100">
+          <p className="text-xs text-slate-500 mb-2">New uploads use the current watermark. Existing photos keep theirs until updated.</p>
+          <button
+            onClick={handleRegenerate}
+            disabled={!!progress}
+            className="w-full py-2 text-sm font-medium border border-slate-200 rounded-lg text-slate-700 hover:bg-emerald-50 hover:border-emerald-200 hover:text-emerald-700 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+          >
+            {progress ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            {progress ? `Updating ${progress.done} / ${progress.total}` : 'Update Existing Photos'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
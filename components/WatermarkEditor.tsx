@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, Loader2 } from 'lucide-react';
+import { WatermarkSettings } from '../types';
+import { WATERMARK_POSITIONS, uploadWatermarkLogo, loadWatermarkLogo } from '../services/watermark';
+
+interface WatermarkEditorProps {
+  value: WatermarkSettings;
+  onChange: (value: WatermarkSettings) => void;
+}
+
+// Where a single (untiled) mark sits in the preview box
+const POSITION_CLASSES: Record<WatermarkSettings['position'], string> = {
+  'center': 'inset-0 items-center justify-center',
+  'top-left': 'top-2 left-2',
+  'top-right': 'top-2 right-2',
+  'bottom-left': 'bottom-2 left-2',
+  'bottom-right': 'bottom-2 right-2',
+};
+
+export const WatermarkEditor: React.FC<WatermarkEditorProps> = ({ value, onChange }) => {
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<WatermarkSettings>) => onChange({ ...value, ...patch });
+
+  // Show the stored logo in the preview
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    loadWatermarkLogo(value).then(blob => {
+      objectUrl = blob ? URL.createObjectURL(blob) : null;
+      setLogoUrl(objectUrl);
+    });
+    return () => { if (objectUrl) URL.revokeObjectURL(objectUrl); };
+  }, [value.type, value.logo_path]);
+
+  const handleLogoSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploadingLogo(true);
+    try {
+      const path = await uploadWatermarkLogo(file);
+      update({ type: 'logo', logo_path: path });
+    } catch (error) {
+      console.error('Error uploading watermark logo:', error);
+      alert('Failed to upload logo');
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
+  const mark = value.type === 'logo'
+    ? (logoUrl ? <img src={logoUrl} alt="" className="h-8 w-auto" /> : null)
+    : <span className="text-white font-bold text-sm drop-shadow whitespace-nowrap">{value.text}</span>;
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-900">Watermark previews</span>
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-emerald-600 w-4 h-4"
+        />
+      </label>
+
+      {value.enabled && (
+        <>
+          {/* Preview */}
+          <div className="relative aspect-[3/2] rounded-lg overflow-hidden bg-gradient-to-br from-slate-400 to-slate-700">
+            {value.tiled ? (
+              <div className="absolute -inset-1/2 flex flex-wrap content-center justify-center gap-x-8 gap-y-6 -rotate-[30deg]" style={{ opacity: value.opacity }}>
+                {Array.from({ length: 24 }).map((_, i) => <div key={i}>{mark}</div>)}
+              </div>
+            ) : (
+              <div className={`absolute flex ${POSITION_CLASSES[value.position]}`} style={{ opacity: value.opacity }}>
+                {mark}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-slate-100 p-1 rounded-lg flex text-xs font-medium">
+            {(['text', 'logo'] as const).map(type => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => update({ type })}
+                className={`flex-1 px-2 py-1.5 rounded-md transition-all ${value.type === type ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {type === 'text' ? 'Text' : 'Logo'}
+              </button>
+            ))}
+          </div>
+
+          {value.type === 'text' ? (
+            <input
+              type="text"
+              value={value.text}
+              onChange={(e) => update({ text: e.target.value })}
+              placeholder="e.g. your studio name"
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            />
+          ) : (
+            <>
+              <input
+                type="file"
+                ref={logoInputRef}
+                accept="image/png,image/jpeg,image/webp"
+                onChange={handleLogoSelected}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => logoInputRef.current?.click()}
+                disabled={uploadingLogo}
+                className="w-full py-2 border border-dashed border-slate-300 rounded-lg text-sm text-slate-600 hover:border-emerald-400 hover:text-emerald-700 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {uploadingLogo ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                {value.logo_path ? 'Replace logo' : 'Upload logo'}
+              </button>
+              <p className="text-xs text-slate-500">A PNG with a transparent background works best.</p>
+            </>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={value.tiled}
+              onChange={(e) => update({ tiled: e.target.checked })}
+              className="accent-emerald-600"
+            />
+            Repeat across the whole photo
+          </label>
+
+          {!value.tiled && (
+            <select
+              value={value.position}
+              onChange={(e) => update({ position: e.target.value as WatermarkSettings['position'] })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            >
+              {WATERMARK_POSITIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+
+          <div>
+            <div className="flex justify-between text-xs text-slate-500 mb-1">
+              <span>Opacity</span>
+              <span>{Math.round(value.opacity * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={10}
+              max={100}
+              step={5}
+              value={Math.round(value.opacity * 100)}
+              onChange={(e) => update({ opacity: Number(e.target.value) / 100 })}
+              className="w-full accent-emerald-600"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,20 +1,81 @@
-import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
+import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
 import { supabase } from '../services/supabase';
+import { createResumableUpload, ResumableUpload } from '../services/resumableUpload';
+import { generateImageDerivatives, stripLocationData, readCaptureDate } from '../services/imageDerivatives';
+import { captureVideoMetadata } from '../services/videoMetadata';
+import { sha256Hex } from '../utils/hash';
+import { computeExpiry, ExpiryPolicy } from '../services/expiry';
+import { DEFAULT_WATERMARK, loadWatermarkLogo } from '../services/watermark';
+import { getDerivativeFolder } from '../services/media';
+import { WatermarkSettings } from '../types';
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'failed' | 'skipped' | 'done';
+
+export interface UploadItem {
+  id: string;
+  galleryId: string;
+  galleryName: string;
+  name: string;
+  size: number;
+  lastModified: number;
+  mimeType: string;
+  filePath: string; // Storage path, kept stable so a resumed upload continues the same object
+  expiry: ExpiryPolicy; // Gallery policy at the time the file was queued
+  stripLocation: boolean;
+  watermark: WatermarkSettings; // Applied to the proof shown to clients who haven't paid yet
+  contentHash?: string; // SHA-256 of the original file
+  allowDuplicate?: boolean; // Set when the user chooses to upload a skipped duplicate anyway
+  thumbnailPath?: string; // Set once the derivatives are stored, so a resume doesn't regenerate them
+  previewPath?: string;
+  proofPath?: string; // Watermarked preview for unpaid galleries
+  proofThumbnailPath?: string; // Watermarked grid thumbnail for unpaid galleries
+  posterPath?: string; // Video poster frame
+  duration?: number; // Video length in seconds
+  width?: number;
+  height?: number;
+  capturedAt?: string | null; // EXIF capture time (ISO), null when the file has none
+  bytesUploaded: number;
+  status: UploadStatus;
+  error?: string;
+  needsFile?: boolean; // Restored after a reload: the file must be selected again to resume
+}
+
+export interface UploadTarget {
+  galleryId: string;
+  galleryName: string;
+  expiry: ExpiryPolicy;
+  stripLocation: boolean;
+  watermark: WatermarkSettings;
+}
 
 interface UploadContextType {
   uploading: boolean;
   progress: number;
-  activeGalleryId: string | null;
-  uploadFiles: (galleryId: string, files: File[], expiryHours: number) => Promise<void>;
+  items: UploadItem[];
+  uploadFiles: (files: File[], target: UploadTarget) => Promise<void>;
+  pauseUpload: (itemId: string) => void;
+  resumeUpload: (itemId: string) => void; // Re-queues a paused or failed item
+  cancelUpload: (itemId: string) => void;
+  uploadDuplicate: (itemId: string) => void;
+  clearFinished: () => void;
 }
 
 const UploadContext = createContext<UploadContextType | undefined>(undefined);
 
+// Unfinished uploads are persisted per gallery so they can be resumed after a reload
+const QUEUE_STORAGE_KEY = 'upload_queue';
+
+// Minimum time between progress re-renders for a single file
+const PROGRESS_THROTTLE_MS = 250;
+
+// Files sent at the same time across all galleries; the rest wait in the queue
+const MAX_CONCURRENT_UPLOADS = 3;
+
 // Helper to deduce MIME type if browser fails (common with MKV, AVI, etc.)
 const getMimeType = (file: File) => {
     if (file.type && file.type !== "") return file.type;
     const ext = file.name.split('.').pop()?.toLowerCase();
-    
+
     // Video fallbacks
     if (ext === 'mp4') return 'video/mp4';
     if (ext === 'mov') return 'video/quicktime';
@@ -22,160 +83,407 @@ const getMimeType = (file: File) => {
     if (ext === 'avi') return 'video/x-msvideo';
     if (ext === 'mkv') return 'video/x-matroska';
     if (ext === 'wmv') return 'video/x-ms-wmv';
-    
+
     // Image fallbacks
     if (ext === 'jpg' || ext === 'jpeg') return 'image/jpeg';
     if (ext === 'png') return 'image/png';
     if (ext === 'gif') return 'image/gif';
     if (ext === 'webp') return 'image/webp';
-    
+
     return 'application/octet-stream';
 };
 
+// Items queued before expiry policies existed carried a plain hour count
+type LegacyUploadItem = UploadItem & { expiryHours?: number };
+
+const loadPersistedQueue = (): UploadItem[] => {
+    try {
+        const saved = localStorage.getItem(QUEUE_STORAGE_KEY);
+        if (!saved) return [];
+        const queueByGallery: Record<string, LegacyUploadItem[]> = JSON.parse(saved);
+        // File handles don't survive a reload, so everything restored waits for the user to pick the files again
+        return Object.values(queueByGallery).flat().map(({ expiryHours, ...item }) => ({
+            ...item,
+            expiry: item.expiry || { mode: 'duration', hours: expiryHours ?? 24, date: null },
+            watermark: item.watermark || DEFAULT_WATERMARK,
+            status: item.status === 'failed' ? 'failed' : 'paused',
+            needsFile: true,
+        }));
+    } catch {
+        return [];
+    }
+};
+
+const persistQueue = (items: UploadItem[]) => {
+    const queueByGallery: Record<string, UploadItem[]> = {};
+    // Skipped duplicates only matter for the current session
+    items.filter(item => item.status !== 'done' && item.status !== 'skipped').forEach(item => {
+        if (!queueByGallery[item.galleryId]) queueByGallery[item.galleryId] = [];
+        queueByGallery[item.galleryId].push(item);
+    });
+
+    try {
+        if (Object.keys(queueByGallery).length === 0) {
+            localStorage.removeItem(QUEUE_STORAGE_KEY);
+        } else {
+            localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queueByGallery));
+        }
+    } catch {
+        // Storage full or unavailable: uploads still work, they just can't be resumed after a reload
+    }
+};
+
+const describeError = (err: any) => {
+    let msg = err?.message || 'Unknown error';
+
+    // Enhance error message for common Supabase limits
+    if (msg.includes('maximum allowed size') || msg.includes('Entity Too Large') || msg.includes('413')) {
+        msg = 'File exceeds server size limit. Please check Supabase Bucket settings.';
+    }
+
+    return msg;
+};
+
+const uploadDerivative = async (path: string, blob: Blob) => {
+    const { error } = await supabase.storage
+        .from('gallery-files')
+        .upload(path, blob, {
+            cacheControl: '3600',
+            upsert: true,
+            contentType: blob.type
+        });
+
+    if (error) throw error;
+};
+
+const hasStoredCopy = async (galleryId: string, contentHash: string) => {
+    const { data, error } = await supabase
+        .from('files')
+        .select('id')
+        .eq('gallery_id', galleryId)
+        .eq('content_hash', contentHash)
+        .limit(1);
+
+    if (error) throw error;
+    return !!data && data.length > 0;
+};
+
+const derivativeExtension = (blob: Blob) => blob.type === 'image/webp' ? 'webp' : 'jpg';
+
+// Stores image derivatives or the video poster beside the original (once) and strips location data when requested
+const prepareUpload = async (item: UploadItem, file: File) => {
+    const patch: Partial<UploadItem> = {};
+    const folder = getDerivativeFolder(item.filePath);
+
+    if (item.mimeType.startsWith('image/') && !item.thumbnailPath) {
+        const logo = await loadWatermarkLogo(item.watermark);
+        const derivatives = await generateImageDerivatives(file, item.watermark, logo);
+        if (derivatives) {
+            const thumbnailPath = `${folder}/thumb.${derivativeExtension(derivatives.thumbnail)}`;
+            const previewPath = `${folder}/preview.${derivativeExtension(derivatives.preview)}`;
+            const proofPath = `${folder}/proof.${derivativeExtension(derivatives.proof)}`;
+            const proofThumbnailPath = `${folder}/proof-thumb.${derivativeExtension(derivatives.proofThumbnail)}`;
+
+            await Promise.all([
+                uploadDerivative(thumbnailPath, derivatives.thumbnail),
+                uploadDerivative(previewPath, derivatives.preview),
+                uploadDerivative(proofPath, derivatives.proof),
+                uploadDerivative(proofThumbnailPath, derivatives.proofThumbnail),
+            ]);
+
+            patch.thumbnailPath = thumbnailPath;
+            patch.previewPath = previewPath;
+            patch.proofPath = proofPath;
+            patch.proofThumbnailPath = proofThumbnailPath;
+            patch.width = derivatives.width;
+            patch.height = derivatives.height;
+        }
+    }
+
+    // Read before location stripping so the original EXIF block is used
+    if (item.capturedAt === undefined) {
+        const capturedAt = await readCaptureDate(file, item.mimeType).catch(() => null);
+        patch.capturedAt = capturedAt ? capturedAt.toISOString() : null;
+    }
+
+    if (item.mimeType.startsWith('video/') && item.duration === undefined) {
+        // Containers the browser can't decode are uploaded as-is and keep the generic video tile
+        const metadata = await captureVideoMetadata(file);
+        if (metadata) {
+            if (metadata.poster) {
+                const posterPath = `${folder}/poster.${derivativeExtension(metadata.poster)}`;
+                await uploadDerivative(posterPath, metadata.poster);
+                patch.posterPath = posterPath;
+            }
+            patch.duration = metadata.duration;
+            patch.width = metadata.width;
+            patch.height = metadata.height;
+        }
+    }
+
+    const uploadFile = item.stripLocation ? await stripLocationData(file, item.mimeType) : file;
+    return { file: uploadFile, patch };
+};
+
 export const UploadProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [uploading, setUploading] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [activeGalleryId, setActiveGalleryId] = useState<string | null>(null);
+  const [items, setItems] = useState<UploadItem[]>(loadPersistedQueue);
+
+  // File handles and running uploads live in refs: they can't be serialized and shouldn't trigger re-renders
+  const filesRef = useRef(new Map<string, File>());
+  const uploadsRef = useRef(new Map<string, ResumableUpload>());
+  const lastProgressRef = useRef(new Map<string, number>());
+  // Bumped on every start, pause and cancel so async preparation can tell it has been superseded
+  const runsRef = useRef(new Map<string, number>());
+  // `${galleryId}:${hash}` -> item id, so identical files in the same batch are caught before either is saved
+  const claimedHashesRef = useRef(new Map<string, string>());
+
+  const uploading = items.some(item => item.status === 'uploading' || item.status === 'queued');
+
+  const countedItems = items.filter(item => item.status !== 'skipped');
+  const totalBytes = countedItems.reduce((acc, item) => acc + item.size, 0);
+  const totalUploaded = countedItems.reduce((acc, item) => acc + item.bytesUploaded, 0);
+  const progress = totalBytes > 0 ? Math.round((totalUploaded / totalBytes) * 100) : 0;
 
-  // We use a Ref to track progress of individual files without triggering re-renders for every byte
-  const fileProgressMap = useRef<number[]>([]);
+  useEffect(() => {
+    persistQueue(items);
+  }, [items]);
 
-  const uploadFiles = useCallback(async (galleryId: string, filesToUpload: File[], expiryHours: number) => {
-    if (uploading) {
-        alert("An upload is already in progress. Please wait for it to finish.");
+  // Clear finished items a little while after the whole queue settles
+  useEffect(() => {
+    if (uploading || !items.some(item => item.status === 'done')) return;
+    const timer = setTimeout(() => {
+        setItems(prev => prev.filter(item => item.status !== 'done'));
+    }, 5000);
+    return () => clearTimeout(timer);
+  }, [uploading, items]);
+
+  const updateItem = useCallback((itemId: string, patch: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...patch } : item));
+  }, []);
+
+  const insertFileRecord = async (item: UploadItem) => {
+    // Determine type for DB
+    const dbFileType = item.mimeType.startsWith('image/') ? 'image' : 'video';
+
+    const { error: dbError } = await supabase
+        .from('files')
+        .insert([{
+            gallery_id: item.galleryId,
+            file_path: item.filePath,
+            original_name: item.name,
+            size_bytes: item.size,
+            mime_type: item.mimeType,
+            captured_at: item.capturedAt ?? null,
+            thumbnail_path: item.thumbnailPath ?? null,
+            preview_path: item.previewPath ?? null,
+            proof_path: item.proofPath ?? null,
+            proof_thumbnail_path: item.proofThumbnailPath ?? null,
+            content_hash: item.contentHash ?? null,
+            poster_path: item.posterPath ?? null,
+            duration: item.duration ?? null,
+            width: item.width ?? null,
+            height: item.height ?? null,
+            file_type: dbFileType,
+            expires_at: computeExpiry(item.expiry)
+        }]);
+
+    if (dbError) throw dbError;
+  };
+
+  const startUpload = useCallback(async (queuedItem: UploadItem) => {
+    const file = filesRef.current.get(queuedItem.id);
+    if (!file) {
+        updateItem(queuedItem.id, { status: 'paused', needsFile: true });
         return;
     }
 
+    const runId = (runsRef.current.get(queuedItem.id) || 0) + 1;
+    runsRef.current.set(queuedItem.id, runId);
+    updateItem(queuedItem.id, { status: 'uploading', needsFile: false, error: undefined });
+
+    let prepared: Awaited<ReturnType<typeof prepareUpload>>;
+    let contentHash = queuedItem.contentHash;
+    try {
+        if (!contentHash) contentHash = await sha256Hex(file);
+
+        if (!queuedItem.allowDuplicate) {
+            const claimKey = `${queuedItem.galleryId}:${contentHash}`;
+            const claimedBy = claimedHashesRef.current.get(claimKey);
+            const isDuplicate = (claimedBy !== undefined && claimedBy !== queuedItem.id)
+                || await hasStoredCopy(queuedItem.galleryId, contentHash);
+
+            if (runsRef.current.get(queuedItem.id) !== runId) return;
+            if (isDuplicate) {
+                updateItem(queuedItem.id, { status: 'skipped', contentHash, error: 'Already in this gallery' });
+                return;
+            }
+            claimedHashesRef.current.set(claimKey, queuedItem.id);
+        }
+
+        prepared = await prepareUpload({ ...queuedItem, contentHash }, file);
+    } catch (err: any) {
+        console.error(`Failed to prepare ${queuedItem.name}`, err);
+        if (runsRef.current.get(queuedItem.id) === runId) {
+            updateItem(queuedItem.id, { status: 'failed', error: describeError(err) });
+        }
+        return;
+    }
+
+    // Paused or cancelled while the previews were being generated
+    if (runsRef.current.get(queuedItem.id) !== runId) return;
+
+    const item = { ...queuedItem, ...prepared.patch, contentHash };
+    updateItem(item.id, { ...prepared.patch, contentHash });
+
+    const upload = createResumableUpload({
+        file: prepared.file,
+        bucket: 'gallery-files',
+        objectName: item.filePath,
+        contentType: item.mimeType,
+        onProgress: (bytesUploaded) => {
+            const now = Date.now();
+            if (now - (lastProgressRef.current.get(item.id) || 0) < PROGRESS_THROTTLE_MS) return;
+            lastProgressRef.current.set(item.id, now);
+            updateItem(item.id, { bytesUploaded });
+        },
+        onSuccess: async () => {
+            uploadsRef.current.delete(item.id);
+            try {
+                await insertFileRecord(item);
+                filesRef.current.delete(item.id);
+                updateItem(item.id, { status: 'done', bytesUploaded: item.size });
+            } catch (err: any) {
+                console.error(`Failed to save ${item.name}`, err);
+                updateItem(item.id, { status: 'failed', error: describeError(err) });
+            }
+        },
+        onError: (err) => {
+            console.error(`Failed to upload ${item.name}`, err);
+            uploadsRef.current.delete(item.id);
+            updateItem(item.id, { status: 'failed', error: describeError(err) });
+        },
+    });
+
+    uploadsRef.current.set(item.id, upload);
+
+    upload.start().catch((err) => {
+        uploadsRef.current.delete(item.id);
+        updateItem(item.id, { status: 'failed', error: describeError(err) });
+    });
+  }, [updateItem]);
+
+  // Queue pump: start waiting items whenever a slot frees up
+  useEffect(() => {
+    const activeCount = items.filter(item => item.status === 'uploading').length;
+    const slots = MAX_CONCURRENT_UPLOADS - activeCount;
+    if (slots <= 0) return;
+    items.filter(item => item.status === 'queued').slice(0, slots).forEach(startUpload);
+  }, [items, startUpload]);
+
+  const uploadFiles = useCallback(async (filesToUpload: File[], target: UploadTarget) => {
+    const { galleryId, galleryName, expiry, stripLocation, watermark } = target;
+
     // Validate file sizes (Max 250MB)
     const MAX_FILE_SIZE = 250 * 1024 * 1024; // 250MB in bytes
     const oversizedFiles = filesToUpload.filter(file => file.size > MAX_FILE_SIZE);
-    
+
     if (oversizedFiles.length > 0) {
         const fileList = oversizedFiles.map(f => `- ${f.name} (${(f.size / (1024 * 1024)).toFixed(1)} MB)`).join('\n');
         alert(`Upload Cancelled.\n\nThe following files exceed the 250MB limit:\n${fileList}\n\nPlease remove them or compress them before uploading.`);
         return;
     }
 
-    setUploading(true);
-    setActiveGalleryId(galleryId);
-    setProgress(0);
+    const newItems: UploadItem[] = [];
+    const resumedIds = new Set<string>();
 
-    const totalBytes = filesToUpload.reduce((acc, f) => acc + f.size, 0);
-    // Initialize progress map with 0 for each file index
-    fileProgressMap.current = new Array(filesToUpload.length).fill(0);
-    const uploadErrors: string[] = [];
+    filesToUpload.forEach(file => {
+        // Re-selecting a file that was interrupted continues its previous upload
+        const existing = items.find(item =>
+            item.galleryId === galleryId &&
+            item.status !== 'done' &&
+            item.name === file.name &&
+            item.size === file.size &&
+            item.lastModified === file.lastModified
+        );
 
-    // Global ticker to update the React state from the Refs
-    const uiInterval = setInterval(() => {
-        const totalUploaded = fileProgressMap.current.reduce((a, b) => a + b, 0);
-        const percentage = totalBytes > 0 ? Math.round((totalUploaded / totalBytes) * 100) : 0;
-        // Cap visual progress at 95% until everything is truly resolved
-        setProgress(Math.min(95, percentage));
-    }, 200);
+        if (existing) {
+            filesRef.current.set(existing.id, file);
+            if (existing.status !== 'uploading') resumedIds.add(existing.id);
+            return;
+        }
 
-    try {
-        await Promise.all(filesToUpload.map(async (file, index) => {
-            // Adaptive Simulation:
-            // For small files (<5MB), we simulate fast.
-            // For large files (>50MB), we simulate slower but realistic.
-            let estimatedSpeed = 3000000; // Default 3MB/s simulation
-            if (file.size > 50 * 1024 * 1024) estimatedSpeed = 1000000; // 1MB/s for large files
-            
-            // Split bandwidth among concurrent files
-            const bandwidthPerFile = estimatedSpeed / filesToUpload.length;
-            const tickRateMs = 500;
-            const bytesPerTick = (bandwidthPerFile * tickRateMs) / 1000;
-
-            const simulationInterval = setInterval(() => {
-                const current = fileProgressMap.current[index];
-                // Only simulate up to 90% of the file size
-                if (current < file.size * 0.90) {
-                    fileProgressMap.current[index] = current + bytesPerTick;
-                }
-            }, tickRateMs);
+        const uniqueId = Math.random().toString(36).substring(2);
+        const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+        const item: UploadItem = {
+            id: uniqueId,
+            galleryId,
+            galleryName,
+            name: file.name,
+            size: file.size,
+            lastModified: file.lastModified,
+            mimeType: getMimeType(file),
+            filePath: `${galleryId}/${uniqueId}/${sanitizedFileName}`,
+            expiry,
+            stripLocation,
+            watermark,
+            bytesUploaded: 0,
+            status: 'queued',
+        };
 
-            try {
-                const uniqueId = Math.random().toString(36).substring(2);
-                const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
-                const filePath = `${galleryId}/${uniqueId}/${sanitizedFileName}`;
-                const mimeType = getMimeType(file);
-
-                // 1. Upload to Supabase Storage
-                // Standard upload works for files up to 6MB. 
-                // For larger files, supabase-js automatically uses TUS if the browser supports it.
-                const { error: uploadError } = await supabase.storage
-                    .from('gallery-files')
-                    .upload(filePath, file, {
-                        cacheControl: '3600',
-                        upsert: true,
-                        contentType: mimeType
-                    });
-
-                if (uploadError) throw uploadError;
-
-                // 2. Get Public URL
-                const { data: { publicUrl } } = supabase.storage
-                    .from('gallery-files')
-                    .getPublicUrl(filePath);
-
-                // 3. Insert Record into DB
-                const expiresAt = new Date();
-                expiresAt.setTime(expiresAt.getTime() + expiryHours * 60 * 60 * 1000);
-
-                // Determine type for DB
-                const dbFileType = mimeType.startsWith('image/') ? 'image' : 'video';
-
-                const { error: dbError } = await supabase
-                    .from('files')
-                    .insert([{
-                        gallery_id: galleryId,
-                        file_url: publicUrl,
-                        file_path: filePath,
-                        file_type: dbFileType,
-                        expires_at: expiresAt.toISOString()
-                    }]);
-
-                if (dbError) throw dbError;
+        filesRef.current.set(item.id, file);
+        newItems.push(item);
+    });
 
-            } catch (err: any) {
-                console.error(`Failed to upload ${file.name}`, err);
-                let msg = err.message || 'Unknown error';
-                
-                // Enhance error message for common Supabase limits
-                if (msg.includes('maximum allowed size') || msg.includes('Entity Too Large')) {
-                    msg = 'File exceeds server size limit. Please check Supabase Bucket settings.';
-                }
-                
-                uploadErrors.push(`${file.name}: ${msg}`);
-            } finally {
-                clearInterval(simulationInterval);
-                // Snap this file's progress to 100%
-                fileProgressMap.current[index] = file.size;
-            }
-        }));
-    } catch (error) {
-        console.error("Batch upload critical error", error);
-        uploadErrors.push("Batch process failed critically.");
-    } finally {
-        clearInterval(uiInterval);
-        setProgress(100);
-        
-        if (uploadErrors.length > 0) {
-            alert(`Upload completed with errors:\n\n${uploadErrors.join('\n')}\n\nPlease try again or check your configuration.`);
-        }
+    setItems(prev => [
+        ...prev.map(item => resumedIds.has(item.id) ? { ...item, status: 'queued' as const, needsFile: false, error: undefined } : item),
+        ...newItems,
+    ]);
+  }, [items]);
 
-        // Reset state
-        setTimeout(() => {
-            setUploading(false);
-            setActiveGalleryId(null);
-            setProgress(0);
-            fileProgressMap.current = [];
-        }, 1500);
-    }
-  }, [uploading]);
+  const pauseUpload = useCallback((itemId: string) => {
+    const upload = uploadsRef.current.get(itemId);
+    uploadsRef.current.delete(itemId);
+    runsRef.current.set(itemId, (runsRef.current.get(itemId) || 0) + 1);
+    if (upload) upload.pause();
+    updateItem(itemId, { status: 'paused' });
+  }, [updateItem]);
+
+  const resumeUpload = useCallback((itemId: string) => {
+    setItems(prev => prev.map(item => {
+        if (item.id !== itemId || (item.status !== 'paused' && item.status !== 'failed')) return item;
+        // Without the file handle the item can only be resumed by selecting the file again
+        if (!filesRef.current.has(itemId)) return { ...item, status: 'paused', needsFile: true };
+        return { ...item, status: 'queued', error: undefined };
+    }));
+  }, []);
+
+  const cancelUpload = useCallback((itemId: string) => {
+    const upload = uploadsRef.current.get(itemId);
+    uploadsRef.current.delete(itemId);
+    filesRef.current.delete(itemId);
+    lastProgressRef.current.delete(itemId);
+    runsRef.current.delete(itemId);
+    claimedHashesRef.current.forEach((claimedBy, key) => {
+        if (claimedBy === itemId) claimedHashesRef.current.delete(key);
+    });
+    if (upload) upload.cancel();
+    setItems(prev => prev.filter(item => item.id !== itemId));
+  }, []);
+
+  const uploadDuplicate = useCallback((itemId: string) => {
+    setItems(prev => prev.map(item =>
+        item.id === itemId && item.status === 'skipped'
+            ? { ...item, status: 'queued', allowDuplicate: true, error: undefined }
+            : item
+    ));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'done' && item.status !== 'skipped'));
+  }, []);
 
   return (
-    <UploadContext.Provider value={{ uploading, progress, activeGalleryId, uploadFiles }}>
+    <UploadContext.Provider value={{ uploading, progress, items, uploadFiles, pauseUpload, resumeUpload, cancelUpload, uploadDuplicate, clearFinished }}>
       {children}
     </UploadContext.Provider>
   );
@@ -185,4 +493,4 @@ export const useUpload = () => {
   const context = useContext(UploadContext);
   if (!context) throw new Error('useUpload must be used within UploadProvider');
   return context;
-};
\ No newline at end of file
+};
@@ -1,30 +1,68 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { useParams } from 'react-router-dom';
-import { Download, Clock, Lock, AlertCircle, X, ShieldAlert, FolderDown, Loader2, Mail, CheckCircle2, Heart, FileImage, FileVideo, Send, Eye, ArrowLeft, Image as ImageIcon } from 'lucide-react';
-import { supabase } from '../services/supabase';
-import { Gallery, GalleryFile } from '../types';
-import { formatCurrency, getTimeRemaining, getOptimizedImageUrl } from '../utils/formatters';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Download, Clock, Lock, AlertCircle, X, ShieldAlert, FolderDown, Loader2, Mail, CheckCircle2, Heart, FileImage, FileVideo, Send, Eye, ArrowLeft, Maximize2, ArrowUpDown, MessageSquare, ListPlus, ListChecks, Pencil, Trash2, Plus, Image as ImageIcon } from 'lucide-react';
+import { supabase, supabaseUrl } from '../services/supabase';
+import { FavoriteList, FileComment, Gallery, GalleryFile, Section, SortMode } from '../types';
+import { formatCurrency, formatDuration } from '../utils/formatters';
+import { getNextExpiry, isExpiringSoon, formatTimeLeft } from '../services/expiry';
+import { getThumbnailUrl, getPreviewUrl, getPosterUrl, getOriginalUrl, getDownloadName, getUniqueDownloadNames } from '../services/media';
+import { loadSignedUrls, requestDownloadLinks, isPaymentRequired, SIGNED_URL_REFRESH_MS } from '../services/signedUrls';
+import { Lightbox } from '../components/Lightbox';
+import { PayModal } from '../components/PayModal';
+import { getVisitorLocale } from '../services/currency';
+import { getSelectionOverage } from '../services/packages';
+import { listComments, addComment, groupCommentsByFile } from '../services/comments';
+import { CommentsModal } from '../components/CommentsModal';
+import { ReviewerModal } from '../components/ReviewerModal';
+import { SubmitSelectionModal } from '../components/SubmitSelectionModal';
+import { FavoriteListsModal } from '../components/FavoriteListsModal';
+import { listFavoriteLists, createFavoriteList, renameFavoriteList, deleteFavoriteList, addToFavoriteList, removeFromFavoriteList } from '../services/favoriteLists';
+import { StoredReviewer, restoreReviewer, forgetReviewer, completeReviewerSignIn } from '../services/reviewers';
+import { ReceiptsModal } from '../components/ReceiptsModal';
+import { groupFilesBySection, SORT_MODE_LABELS } from '../services/sections';
+import { watchTables, LIVE_POLL_MS } from '../services/realtime';
+import { GalleryAccessInfo, restoreAccessToken, clearAccessToken, getGalleryAccessInfo, unlockGallery } from '../services/galleryAccess';
 // @ts-ignore
 import JSZip from 'jszip';
 // @ts-ignore
 import saveAs from 'file-saver';
 
 export const ClientGallery: React.FC = () => {
-  const { galleryId } = useParams<{ galleryId: string }>();
+  const { galleryId, fileId } = useParams<{ galleryId: string; fileId?: string }>();
+  const navigate = useNavigate();
   const [gallery, setGallery] = useState<Gallery | null>(null);
   const [files, setFiles] = useState<GalleryFile[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  // Starts from the photographer's default; changing it only affects this visit
+  const [sortMode, setSortMode] = useState<SortMode>('custom');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [lockedGallery, setLockedGallery] = useState<GalleryAccessInfo | null>(null);
+  const [password, setPassword] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState(false);
+  const [urlsSignedAt, setUrlsSignedAt] = useState(0);
   const [showPayModal, setShowPayModal] = useState(false);
+  const [showReceipts, setShowReceipts] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState<string>('');
+  const [expiringSoon, setExpiringSoon] = useState(false);
   const [showScreenshotWarning, setShowScreenshotWarning] = useState(false);
   
   // Selection Mode State
   const [selectedFileIds, setSelectedFileIds] = useState<Set<string>>(new Set());
   const [submittingSelection, setSubmittingSelection] = useState(false);
   const [selectionSubmitted, setSelectionSubmitted] = useState(false);
+  const [submittedCount, setSubmittedCount] = useState(0);
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'info' } | null>(null);
+  const [comments, setComments] = useState<FileComment[]>([]);
+  const [commentFileId, setCommentFileId] = useState<string | null>(null);
+  const [reviewer, setReviewer] = useState<StoredReviewer | null>(null);
+  const [showReviewerModal, setShowReviewerModal] = useState(false);
+  const [showSubmitModal, setShowSubmitModal] = useState(false);
+  const [lists, setLists] = useState<FavoriteList[]>([]);
+  const [activeListId, setActiveListId] = useState<string | null>(null);
+  const [listFileId, setListFileId] = useState<string | null>(null); // File whose lists are being edited
 
   // Download states
   const [downloadingAll, setDownloadingAll] = useState(false);
@@ -34,18 +72,54 @@ export const ClientGallery: React.FC = () => {
 
   // Ref to cancel download if needed
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Latest gallery row, for comparing against live updates
+  const galleryRef = useRef<Gallery | null>(null);
 
   useEffect(() => {
     if (galleryId) loadGallery();
   }, [galleryId]);
 
+  useEffect(() => {
+    galleryRef.current = gallery;
+  }, [gallery]);
+
+  // The photographer reopening the selection, recording a payment or disabling the link. Realtime only
+  // sends rows the client can still read (a disabled link or password gallery sends nothing), so also poll.
+  useEffect(() => {
+    if (!galleryId) return;
+    const stopWatching = watchTables(`client-gallery-${galleryId}`, [
+      { table: 'galleries', filter: `id=eq.${galleryId}` },
+    ], refreshGallery);
+    const poll = setInterval(refreshGallery, LIVE_POLL_MS);
+    window.addEventListener('focus', refreshGallery);
+
+    return () => {
+      stopWatching();
+      clearInterval(poll);
+      window.removeEventListener('focus', refreshGallery);
+    };
+  }, [galleryId]);
+
+  // Signed URLs expire after an hour; re-sign in the background so a long visit keeps loading images
+  useEffect(() => {
+    if (!urlsSignedAt || !galleryId) return;
+    const timer = setTimeout(async () => {
+      try {
+        await loadSignedUrls(galleryId);
+        setUrlsSignedAt(Date.now());
+      } catch (err) {
+        console.error('Failed to refresh file links', err);
+      }
+    }, SIGNED_URL_REFRESH_MS);
+    return () => clearTimeout(timer);
+  }, [urlsSignedAt, galleryId]);
+
   // Network Optimization: Preconnect to Supabase Storage
   useEffect(() => {
     if (files.length > 0) {
       try {
-        // Extract the hostname from the first file URL to preconnect
-        const url = new URL(files[0].file_url);
-        const origin = url.origin;
+        // Signed file URLs are served from the Supabase project host
+        const origin = new URL(supabaseUrl).origin;
         
         // Check if link already exists
         if (!document.querySelector(`link[rel="preconnect"][href="${origin}"]`)) {
@@ -64,18 +138,17 @@ export const ClientGallery: React.FC = () => {
   useEffect(() => {
     if (!files.length) return;
     
-    // Find the earliest expiry date
-    const firstFile = files[0];
+    // Find the earliest expiry date (files that never expire don't count)
+    const nextExpiry = getNextExpiry(files);
+    if (!nextExpiry) {
+        setTimeRemaining('');
+        setExpiringSoon(false);
+        return;
+    }
     
     const updateTimer = () => {
-        const { days, hours, minutes, expired } = getTimeRemaining(firstFile.expires_at);
-        if (expired) {
-            setTimeRemaining('Expired');
-        } else if (days > 0) {
-            setTimeRemaining(`${days}d ${hours}h`);
-        } else {
-            setTimeRemaining(`${hours}h ${minutes}m`);
-        }
+        setTimeRemaining(formatTimeLeft(nextExpiry));
+        setExpiringSoon(isExpiringSoon(nextExpiry));
     };
 
     updateTimer(); 
@@ -121,18 +194,29 @@ export const ClientGallery: React.FC = () => {
     try {
       if (!galleryId) return;
 
+      const hadToken = restoreAccessToken(galleryId);
+
       const { data: galData, error: galError } = await supabase
         .from('galleries')
         .select('*')
         .eq('id', galleryId)
-        .single();
+        .maybeSingle();
 
       if (galError || !galData) {
-        setError('Gallery not found or accessed denied.');
+        // Password-protected galleries stay hidden until unlocked
+        const access = await getGalleryAccessInfo(galleryId).catch(() => null);
+        if (access?.password_protected) {
+          if (hadToken) clearAccessToken(galleryId);
+          setLockedGallery(access);
+        } else {
+          setError('Gallery not found or accessed denied.');
+        }
         setLoading(false);
         return;
       }
 
+      setLockedGallery(null);
+
       if (!galData.link_enabled) {
         setError('This gallery is currently unavailable. Please contact the photographer.');
         setLoading(false);
@@ -140,36 +224,64 @@ export const ClientGallery: React.FC = () => {
       }
 
       setGallery(galData);
-      if (galData.selection_status === 'submitted' || galData.selection_status === 'completed') {
-        setSelectionSubmitted(true);
-      }
+      setSortMode(galData.sort_mode || 'custom');
+      // Reopened selections and new rounds are 'pending' again
+      setSelectionSubmitted(galData.selection_status !== 'pending');
 
       // Load Files
       const { data: fileData, error: fileError } = await supabase
         .from('files')
         .select('*')
         .eq('gallery_id', galleryId)
-        .gt('expires_at', new Date().toISOString()) 
-        .order('expires_at', { ascending: true }); 
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+        .order('created_at', { ascending: true }); 
 
       if (fileError) throw fileError;
       
       if (!fileData || fileData.length === 0) {
          setError('This gallery link has expired. Please contact the photographer to request access.');
       } else {
+         // The bucket is private; file contents are only reachable through signed URLs
+         await loadSignedUrls(galleryId);
+         setUrlsSignedAt(Date.now());
          setFiles(fileData);
       }
 
+      // Load Sections
+      const { data: sectionData } = await supabase
+        .from('sections')
+        .select('*')
+        .eq('gallery_id', galleryId)
+        .order('position', { ascending: true });
+
+      if (sectionData) setSections(sectionData);
+
+      // Coming back from a sign-in link takes over from whoever was choosing before
+      const signedIn = await completeReviewerSignIn(galleryId).catch(error => {
+          console.error('Error completing sign-in:', error);
+          return null;
+      });
+      const currentReviewer = signedIn || restoreReviewer(galleryId);
+      setReviewer(currentReviewer);
+
+      // Named lists work with or without Selection Mode
+      listFavoriteLists(galleryId)
+          .then(setLists)
+          .catch(error => console.error('Error loading lists:', error));
+
       // Load Selections if enabled
       if (galData.selection_enabled) {
-        const { data: selectionData } = await supabase
-            .from('selections')
-            .select('file_id')
-            .eq('gallery_id', galleryId);
-        
-        if (selectionData) {
-            setSelectedFileIds(new Set(selectionData.map(s => s.file_id)));
+        if (currentReviewer) {
+            await loadReviewerSelections(currentReviewer.id);
+        } else {
+            setShowReviewerModal(true);
         }
+
+        if (galData.selection_status !== 'pending') await loadSubmittedCount();
+
+        listComments(galleryId)
+            .then(setComments)
+            .catch(error => console.error('Error loading comments:', error));
       }
 
     } catch (err) {
@@ -180,8 +292,104 @@ export const ClientGallery: React.FC = () => {
     }
   };
 
+  const refreshGallery = async () => {
+    const current = galleryRef.current;
+    if (!galleryId || !current) return;
+
+    const { data: galData, error: galError } = await supabase
+      .from('galleries')
+      .select('*')
+      .eq('id', galleryId)
+      .maybeSingle();
+
+    if (galError) {
+      console.error('Error refreshing gallery:', galError);
+      return;
+    }
+
+    if (!galData) {
+      // Either the link was disabled or the password changed
+      const access = await getGalleryAccessInfo(galleryId).catch(() => null);
+      if (access?.password_protected) {
+        loadGallery();
+      } else {
+        setError('This gallery is currently unavailable. Please contact the photographer.');
+      }
+      setGallery(null);
+      return;
+    }
+
+    // Switching Selection Mode or starting a new round changes what the page loads
+    if (galData.selection_enabled !== current.selection_enabled || galData.selection_round !== current.selection_round) {
+      loadGallery();
+      return;
+    }
+
+    // A payment settling the balance unlocks the originals; the proofs signed so far are still the watermarked ones
+    if (galData.amount_paid !== current.amount_paid || galData.agreed_balance !== current.agreed_balance) {
+      try {
+        await loadSignedUrls(galleryId);
+        setUrlsSignedAt(Date.now());
+      } catch (err) {
+        console.error('Failed to refresh file links', err);
+      }
+    }
+
+    setGallery(galData);
+    setSelectionSubmitted(galData.selection_status !== 'pending');
+    if (galData.selection_status !== current.selection_status) {
+      setShowSubmitModal(false);
+      // Someone else may have submitted, or the photographer finalized a different list
+      if (galData.selection_status !== 'pending') await loadSubmittedCount();
+    }
+  };
+
+  // Each reviewer only sees and edits their own favorites
+  const loadReviewerSelections = async (reviewerId: string) => {
+    const { data: selectionData } = await supabase
+        .from('selections')
+        .select('file_id')
+        .eq('gallery_id', galleryId)
+        .eq('reviewer_id', reviewerId);
+
+    setSelectedFileIds(new Set((selectionData || []).map(s => s.file_id)));
+  };
+
+  // The submitted list is stored without a reviewer; it may hold everyone's picks, not just this reviewer's
+  const loadSubmittedCount = async () => {
+    const { count, error } = await supabase
+        .from('selections')
+        .select('file_id', { count: 'exact', head: true })
+        .eq('gallery_id', galleryId)
+        .is('reviewer_id', null);
+
+    if (error) {
+        console.error('Error counting the submitted selection:', error);
+        return;
+    }
+    setSubmittedCount(count || 0);
+  };
+
+  const handleReviewerJoined = async (joined: StoredReviewer) => {
+    setReviewer(joined);
+    setShowReviewerModal(false);
+    await loadReviewerSelections(joined.id);
+  };
+
+  const switchReviewer = () => {
+    if (!galleryId) return;
+    forgetReviewer(galleryId);
+    setReviewer(null);
+    setSelectedFileIds(new Set());
+    setShowReviewerModal(true);
+  };
+
   const toggleSelection = async (file: GalleryFile) => {
     if (!gallery?.selection_enabled || selectionSubmitted) return;
+    if (!reviewer) {
+        setShowReviewerModal(true);
+        return;
+    }
 
     const isSelected = selectedFileIds.has(file.id);
     const newSet = new Set(selectedFileIds);
@@ -206,12 +414,13 @@ export const ClientGallery: React.FC = () => {
                 .from('selections')
                 .delete()
                 .eq('gallery_id', gallery.id)
-                .eq('file_id', file.id);
+                .eq('file_id', file.id)
+                .eq('reviewer_id', reviewer.id);
         } else {
             // Add to DB
             await supabase
                 .from('selections')
-                .insert({ gallery_id: gallery.id, file_id: file.id });
+                .insert({ gallery_id: gallery.id, file_id: file.id, reviewer_id: reviewer.id });
         }
     } catch (err) {
         console.error("Selection sync failed", err);
@@ -220,13 +429,94 @@ export const ClientGallery: React.FC = () => {
     }
   };
 
-  const submitSelection = async () => {
+  // Lists are shared by everyone reviewing, but changing them needs a name behind it
+  const openListPicker = (file: GalleryFile) => {
+    if (!reviewer) {
+        setShowReviewerModal(true);
+        return;
+    }
+    setListFileId(file.id);
+  };
+
+  const toggleListFile = async (list: FavoriteList, fileId: string) => {
+    const included = list.file_ids.includes(fileId);
+    if (included) {
+        await removeFromFavoriteList(list.id, fileId);
+    } else {
+        await addToFavoriteList(list, fileId);
+    }
+    setLists(current => current.map(l => l.id === list.id
+        ? { ...l, file_ids: included ? l.file_ids.filter(id => id !== fileId) : [...l.file_ids, fileId] }
+        : l));
+  };
+
+  // Creates a list, optionally starting with one file in it
+  const createList = async (name: string, fileId?: string) => {
+    if (!gallery || !reviewer) return;
+    const list = await createFavoriteList(gallery.id, name, reviewer.id);
+    if (fileId) await addToFavoriteList(list, fileId);
+    setLists(current => [...current, { ...list, file_ids: fileId ? [fileId] : [] }]);
+  };
+
+  const promptNewList = async () => {
+    if (!reviewer) {
+        setShowReviewerModal(true);
+        return;
+    }
+    const name = prompt('Name your list, e.g. "Album" or "For Grandma":');
+    if (!name?.trim()) return;
+
+    try {
+        await createList(name);
+    } catch (err) {
+        console.error('Error creating list:', err);
+        alert('Failed to create the list. Please try again.');
+    }
+  };
+
+  const renameList = async (list: FavoriteList) => {
+    const name = prompt('Rename list:', list.name);
+    if (!name?.trim() || name.trim() === list.name) return;
+
+    try {
+        await renameFavoriteList(list.id, name);
+        setLists(current => current.map(l => l.id === list.id ? { ...l, name: name.trim() } : l));
+    } catch (err) {
+        console.error('Error renaming list:', err);
+        alert('Failed to rename the list.');
+    }
+  };
+
+  const deleteList = async (list: FavoriteList) => {
+    if (!confirm(`Delete the list "${list.name}"? The photos stay in the gallery.`)) return;
+
+    try {
+        await deleteFavoriteList(list.id);
+        setLists(current => current.filter(l => l.id !== list.id));
+        setActiveListId(null);
+    } catch (err) {
+        console.error('Error deleting list:', err);
+        alert('Failed to delete the list.');
+    }
+  };
+
+  const showList = (listId: string | null) => {
+    setActiveListId(listId);
+    setShowFavoritesOnly(false);
+  };
+
+  const toggleFavoritesOnly = () => {
+    setShowFavoritesOnly(!showFavoritesOnly);
+    setActiveListId(null);
+  };
+
+  // Submits this reviewer's favorites, or everyone's merged into one list
+  const submitSelection = async (merged: boolean) => {
     if (!gallery) return;
-    if (!confirm(`Are you sure you want to submit your selection of ${selectedFileIds.size} photos? This will notify the photographer.`)) return;
 
     setSubmittingSelection(true);
     try {
-        const { error } = await supabase.rpc('submit_selection', { gallery_id: gallery.id });
+        const { error } = await supabase.rpc('submit_selection', { gallery_id: gallery.id, merged });
         
         if (error) throw error;
         
@@ -234,7 +524,11 @@ export const ClientGallery: React.FC = () => {
         // await supabase.from('activity_logs').insert({ ... });
 
         setSelectionSubmitted(true);
-        setGallery({ ...gallery, selection_status: 'submitted' });
+        setShowSubmitModal(false);
+        await loadSubmittedCount();
+        // The server may have added extras to the balance
+        const { data: updated } = await supabase.from('galleries').select('*').eq('id', gallery.id).maybeSingle();
+        setGallery(updated || { ...gallery, selection_status: 'submitted' });
         
         alert("Selection submitted successfully! The photographer has been notified.");
     } catch (err) {
@@ -263,14 +557,11 @@ export const ClientGallery: React.FC = () => {
     setDownloadingId(file.id);
 
     try {
-      await supabase.rpc('increment_download', { row_id: file.id });
-      
-      const response = await fetch(file.file_url);
-      const blob = await response.blob();
-      const blobUrl = window.URL.createObjectURL(blob);
+      // The signed link carries the original filename, so the browser saves it directly
+      const [downloadLink] = await requestDownloadLinks(gallery.id, [file.id]);
       const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = file.file_path.split('/').pop() || 'download';
+      link.href = downloadLink.url;
+      link.download = getDownloadName(file);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -278,6 +569,10 @@ export const ClientGallery: React.FC = () => {
       // Short timeout to allow the download to start before removing spinner
       await new Promise(resolve => setTimeout(resolve, 500));
     } catch (e) {
+      if (isPaymentRequired(e)) {
+        setShowPayModal(true);
+        return;
+      }
       console.error('Download failed', e);
       alert('Download failed. Please check your internet connection.');
     } finally {
@@ -285,8 +580,10 @@ export const ClientGallery: React.FC = () => {
     }
   };
 
-  const handleDownloadAll = async () => {
-    if (!gallery || !files.length) return;
+  // Zips every file, or just one section's files when a subset is passed
+  const handleDownloadAll = async (subset?: GalleryFile[], label?: string) => {
+    const filesToZip = subset || files;
+    if (!gallery || !filesToZip.length) return;
     
     if (gallery.selection_enabled) {
         alert("Downloads are disabled while Selection Mode is active.");
@@ -307,23 +604,27 @@ export const ClientGallery: React.FC = () => {
     try {
       const zip = new JSZip();
       let processed = 0;
-      const total = files.length;
+      const total = filesToZip.length;
       
       // We process files in batches (Concurrency Limit) to avoid choking the browser/network
       const CONCURRENCY_LIMIT = 3;
-      const queue = [...files];
-      const activePromises: Promise<void>[] = [];
+      // Download links only live a few minutes, so they are requested batch by batch as the ZIP fills
+      const LINK_BATCH_SIZE = 30;
+      const queue: GalleryFile[] = [];
+      const links = new Map<string, string>();
       const signal = abortControllerRef.current.signal;
+      const fileNames = getUniqueDownloadNames(filesToZip);
 
       const processFile = async (file: GalleryFile) => {
         if (signal.aborted) return;
         
         try {
-          const response = await fetch(file.file_url, { signal });
+          const downloadUrl = links.get(file.id);
+          if (!downloadUrl) throw new Error(`No download link for ${file.id}`);
+          const response = await fetch(downloadUrl, { signal });
           if (!response.ok) throw new Error(`Failed to fetch ${file.file_path}`);
           const blob = await response.blob();
-          const fileName = file.file_path.split('/').pop() || `file-${file.id}`;
-          zip.file(fileName, blob);
+          zip.file(fileNames.get(file.id)!, blob);
         } catch (error: any) {
           if (error.name !== 'AbortError') {
              console.error(`Error downloading file: ${file.id}`, error);
@@ -345,12 +646,18 @@ export const ClientGallery: React.FC = () => {
         }
       };
 
-      // Start initial batch
-      for (let i = 0; i < Math.min(CONCURRENCY_LIMIT, files.length); i++) {
-         activePromises.push(next());
+      for (let start = 0; start < total && !signal.aborted; start += LINK_BATCH_SIZE) {
+        const batch = filesToZip.slice(start, start + LINK_BATCH_SIZE);
+        const batchLinks = await requestDownloadLinks(gallery.id, batch.map(file => file.id));
+        batchLinks.forEach(link => links.set(link.id, link.url));
+        queue.push(...batch);
+
+        const activePromises: Promise<void>[] = [];
+        for (let i = 0; i < Math.min(CONCURRENCY_LIMIT, batch.length); i++) {
+           activePromises.push(next());
+        }
+        await Promise.all(activePromises);
       }
-      
-      await Promise.all(activePromises);
 
       if (signal.aborted) return;
 
@@ -365,9 +672,14 @@ export const ClientGallery: React.FC = () => {
       if (signal.aborted) return;
 
       const galleryName = gallery.client_name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-      saveAs(content, `${galleryName}_photos.zip`);
+      const suffix = label ? label.replace(/[^a-z0-9]/gi, '_').toLowerCase() : 'photos';
+      saveAs(content, `${galleryName}_${suffix}.zip`);
 
     } catch (error) {
+      if (isPaymentRequired(error)) {
+        setShowPayModal(true);
+        return;
+      }
       console.error('Error creating zip:', error);
       alert('Failed to download all files. Please try downloading individually.');
     } finally {
@@ -378,6 +690,38 @@ export const ClientGallery: React.FC = () => {
     }
   };
 
+  // The open photo lives in the URL (/g/:galleryId/:fileId) so a single shot can be shared
+  const openLightbox = (file: GalleryFile) => {
+    navigate(`/g/${galleryId}/${file.id}`);
+  };
+
+  const closeLightbox = () => {
+    navigate(`/g/${galleryId}`, { replace: true });
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!galleryId || !password) return;
+
+    setUnlocking(true);
+    setUnlockError(false);
+    try {
+      const unlocked = await unlockGallery(galleryId, password);
+      if (!unlocked) {
+        setUnlockError(true);
+        return;
+      }
+      setPassword('');
+      setLoading(true);
+      await loadGallery();
+    } catch (err) {
+      console.error('Unlock failed', err);
+      alert('Could not unlock the gallery. Please try again.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
   const cancelDownloadAll = () => {
       if (abortControllerRef.current) {
           abortControllerRef.current.abort();
@@ -388,6 +732,40 @@ export const ClientGallery: React.FC = () => {
 
   if (loading) return <div className="min-h-screen flex items-center justify-center bg-white"><div className="animate-spin h-8 w-8 border-4 border-slate-900 border-t-transparent rounded-full"></div></div>;
 
+  if (lockedGallery) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 p-4 text-center">
+        <form onSubmit={handleUnlock} className="bg-white p-8 md:p-12 rounded-2xl shadow-sm border border-slate-100 max-w-md w-full">
+            <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                <Lock className="w-8 h-8 text-slate-400" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-900 mb-3">{lockedGallery.client_name || 'Private Gallery'}</h1>
+            <p className="text-slate-600 mb-6 leading-relaxed">Enter the password from your photographer to view this gallery.</p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => { setPassword(e.target.value); setUnlockError(false); }}
+              placeholder="Password"
+              autoFocus
+              className={`w-full px-4 py-3 border rounded-xl text-center focus:ring-2 focus:ring-slate-900 outline-none ${unlockError ? 'border-red-300' : 'border-slate-300'}`}
+            />
+            {unlockError && <p className="text-sm text-red-600 mt-2">Incorrect password</p>}
+            <button
+              type="submit"
+              disabled={unlocking || !password}
+              className="w-full mt-4 py-3 rounded-xl bg-slate-900 text-white font-medium hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+            >
+              {unlocking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Unlock
+            </button>
+            <div className="pt-6 mt-8 border-t border-slate-100">
+                <p className="text-sm text-slate-400">ProGallery</p>
+            </div>
+        </form>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 p-4 text-center">
@@ -410,10 +788,33 @@ export const ClientGallery: React.FC = () => {
   const balanceDue = Math.max(0, agreedAmount - amountPaid);
   const isLocked = balanceDue > 0;
   const isSelectionMode = gallery?.selection_enabled;
+  const commentThreads = groupCommentsByFile(comments);
+  const commentFile = commentFileId ? files.find(f => f.id === commentFileId) : undefined;
+  const overage = gallery ? getSelectionOverage(selectedFileIds.size, gallery) : { included: null, extras: 0, amount: 0 };
+
+  const activeList = lists.find(list => list.id === activeListId);
+  const activeListFileIds = new Set(activeList?.file_ids);
+  const listedFileIds = new Set(lists.flatMap(list => list.file_ids));
+  const listFile = listFileId ? files.find(f => f.id === listFileId) : undefined;
+
+  const orderedFiles = groupFilesBySection(files, sections, sortMode).flatMap(group => group.files);
+  const displayedFiles = activeList
+    ? orderedFiles.filter(f => activeListFileIds.has(f.id))
+    : showFavoritesOnly 
+    ? orderedFiles.filter(f => selectedFileIds.has(f.id))
+    : orderedFiles;
+
+  const displayedGroups = groupFilesBySection(displayedFiles, sections, sortMode).filter(group => group.files.length > 0);
+  const hasSections = sections.length > 0;
+  const fileIndex = new Map(displayedFiles.map((f, i) => [f.id, i]));
+
+  const scrollToSection = (sectionKey: string) => {
+    document.getElementById(`section-${sectionKey}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
 
-  const displayedFiles = showFavoritesOnly 
-    ? files.filter(f => selectedFileIds.has(f.id))
-    : files;
+  // The lightbox steps through what's on screen, unless a shared link points outside the current filter
+  const lightboxFiles = displayedFiles.some(f => f.id === fileId) ? displayedFiles : orderedFiles;
+  const lightboxIndex = fileId ? lightboxFiles.findIndex(f => f.id === fileId) : -1;
 
   return (
     <div className={`min-h-screen bg-white select-none ${isSelectionMode ? 'pb-24' : ''}`}>
@@ -422,21 +823,34 @@ export const ClientGallery: React.FC = () => {
         <div className="max-w-7xl mx-auto px-4 py-3 md:py-4 flex flex-col md:flex-row justify-between md:items-center gap-3 md:gap-4">
           <div>
             <h1 className="text-lg md:text-xl font-bold text-slate-900 flex items-center gap-2">
-                {showFavoritesOnly && (
-                    <button onClick={() => setShowFavoritesOnly(false)} className="md:hidden mr-1 text-slate-400">
+                {(showFavoritesOnly || activeList) && (
+                    <button onClick={() => showList(null)} className="md:hidden mr-1 text-slate-400">
                         <ArrowLeft className="w-5 h-5" />
                     </button>
                 )}
-                {showFavoritesOnly ? "My Selection" : gallery?.client_name}
+                {activeList ? activeList.name : showFavoritesOnly ? "My Selection" : gallery?.client_name}
             </h1>
             <p className="text-xs md:text-sm text-slate-500 flex items-center gap-2">
                 {displayedFiles.length} items 
                 <span className="text-slate-300">•</span>
+                <span className="flex items-center gap-1">
+                    <ArrowUpDown className="w-3 h-3" />
+                    <select
+                        value={sortMode}
+                        onChange={(e) => setSortMode(e.target.value as SortMode)}
+                        className="bg-transparent outline-none cursor-pointer text-slate-600"
+                    >
+                        {(Object.keys(SORT_MODE_LABELS) as SortMode[]).map(mode => (
+                            <option key={mode} value={mode}>{mode === 'custom' ? 'Featured' : SORT_MODE_LABELS[mode]}</option>
+                        ))}
+                    </select>
+                </span>
+                {timeRemaining && <span className="text-slate-300">•</span>}
                 {timeRemaining === 'Expired' ? (
                    <span className="text-red-600 font-bold bg-red-50 px-2 py-0.5 rounded text-xs uppercase tracking-wide">Expired</span>
-                ) : (
+                ) : timeRemaining ? (
                    <span>Expires in <span className="text-red-500 font-medium">{timeRemaining}</span></span>
-                )}
+                ) : null}
             </p>
           </div>
           
@@ -448,13 +862,25 @@ export const ClientGallery: React.FC = () => {
                         <Heart className="w-4 h-4 text-rose-600 fill-rose-600" />
                         <span>Selection Mode Active</span>
                      </div>
+                     {reviewer ? (
+                        <span className="text-xs md:text-sm text-slate-500">
+                            Choosing as <span className="font-medium text-slate-700">{reviewer.name}</span>
+                            {!selectionSubmitted && (
+                                <button onClick={switchReviewer} className="ml-2 text-rose-600 hover:underline">Not you?</button>
+                            )}
+                        </span>
+                     ) : (
+                        <button onClick={() => setShowReviewerModal(true)} className="text-xs md:text-sm font-medium text-rose-600 hover:underline">
+                            Tell us who you are
+                        </button>
+                     )}
                  </div>
              ) : (
                 // Standard Mode Header Content
                 <>
                     {/* Download All Button */}
                     <button
-                        onClick={handleDownloadAll}
+                        onClick={() => handleDownloadAll()}
                         disabled={downloadingAll || files.length === 0}
                         className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors text-sm ${
                             isLocked 
@@ -478,33 +904,158 @@ export const ClientGallery: React.FC = () => {
                     </button>
 
                     {isLocked ? (
-                        <div className="flex items-center gap-2 bg-amber-50 px-3 py-2 rounded-lg border border-amber-100">
+                        <button
+                            onClick={() => setShowPayModal(true)}
+                            className="flex items-center gap-2 bg-amber-50 px-3 py-2 rounded-lg border border-amber-100 hover:bg-amber-100 transition-colors"
+                        >
                             <div className="flex flex-col text-right">
                                 <span className="text-slate-500 text-[10px] uppercase tracking-wider font-semibold">Balance Due</span>
-                                <span className="font-bold text-amber-700 text-sm leading-tight">{formatCurrency(balanceDue)}</span>
+                                <span className="font-bold text-amber-700 text-sm leading-tight">{formatCurrency(balanceDue, gallery?.currency, getVisitorLocale())}</span>
                             </div>
                             <Lock className="w-4 h-4 text-amber-600" />
-                        </div>
+                        </button>
                     ) : agreedAmount === 0 ? (
                         <div className="flex items-center gap-2 px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-full font-medium border border-indigo-200 text-xs md:text-sm">
                             <Heart className="w-4 h-4 text-indigo-600" />
                             <span>Collaboration</span>
                         </div>
                     ) : (
-                        <div className="flex items-center gap-2 px-3 py-1.5 bg-emerald-50 text-emerald-700 rounded-full font-medium border border-emerald-200 text-xs md:text-sm">
+                        <button
+                            onClick={() => setShowReceipts(true)}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-emerald-50 text-emerald-700 rounded-full font-medium border border-emerald-200 text-xs md:text-sm hover:bg-emerald-100 transition-colors"
+                        >
                             <CheckCircle2 className="w-4 h-4 text-emerald-600" />
                             <span>Paid in Full</span>
-                        </div>
+                        </button>
                     )}
                 </>
              )}
           </div>
         </div>
+
+        {/* Named lists */}
+        {lists.length > 0 && (
+          <nav className="max-w-7xl mx-auto px-4 pb-3 flex items-center gap-2 overflow-x-auto">
+            <ListChecks className="w-4 h-4 text-slate-400 shrink-0" />
+            {lists.map(list => (
+                <button
+                    key={list.id}
+                    onClick={() => showList(activeListId === list.id ? null : list.id)}
+                    className={`shrink-0 px-3 py-1 rounded-full border text-xs md:text-sm transition-colors ${
+                        activeListId === list.id
+                            ? 'bg-indigo-600 border-indigo-600 text-white'
+                            : 'border-slate-200 text-slate-600 hover:bg-slate-100 hover:text-slate-900'
+                    }`}
+                >
+                    {list.name}
+                    <span className={`ml-1.5 ${activeListId === list.id ? 'text-indigo-200' : 'text-slate-400'}`}>{list.file_ids.length}</span>
+                </button>
+            ))}
+            <button
+                onClick={promptNewList}
+                className="shrink-0 px-3 py-1 rounded-full border border-dashed border-slate-300 text-xs md:text-sm text-slate-500 hover:text-slate-900 hover:border-slate-400 transition-colors flex items-center gap-1"
+            >
+                <Plus className="w-3.5 h-3.5" />
+                New list
+            </button>
+          </nav>
+        )}
+
+        {/* Section jump navigation */}
+        {hasSections && displayedGroups.length > 1 && (
+          <nav className="max-w-7xl mx-auto px-4 pb-3 flex gap-2 overflow-x-auto">
+            {displayedGroups.map(group => {
+                const sectionKey = group.section?.id || 'other';
+                return (
+                    <button
+                        key={sectionKey}
+                        onClick={() => scrollToSection(sectionKey)}
+                        className="shrink-0 px-3 py-1 rounded-full border border-slate-200 text-xs md:text-sm text-slate-600 hover:bg-slate-100 hover:text-slate-900 transition-colors"
+                    >
+                        {group.section?.name || 'More Photos'}
+                    </button>
+                );
+            })}
+          </nav>
+        )}
       </header>
 
       {/* Grid */}
       <main className="max-w-7xl mx-auto px-2 md:px-4 py-4 md:py-8">
-        {isSelectionMode && !showFavoritesOnly && (
+        {activeList && (
+            <div className="mb-6 px-1 flex flex-wrap items-center gap-2">
+                <p className="text-sm text-slate-500 mr-auto">
+                    {activeList.file_ids.length} {activeList.file_ids.length === 1 ? 'photo' : 'photos'} in this list
+                </p>
+                <button
+                    onClick={() => renameList(activeList)}
+                    className="flex items-center gap-1.5 text-xs md:text-sm font-medium px-3 py-1.5 rounded-lg text-slate-700 hover:bg-slate-100 transition-colors"
+                >
+                    <Pencil className="w-3.5 h-3.5" />
+                    <span>Rename</span>
+                </button>
+                <button
+                    onClick={() => deleteList(activeList)}
+                    className="flex items-center gap-1.5 text-xs md:text-sm font-medium px-3 py-1.5 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    <span>Delete</span>
+                </button>
+                {!isSelectionMode && (
+                    <button
+                        onClick={() => handleDownloadAll(displayedFiles, activeList.name)}
+                        disabled={downloadingAll || displayedFiles.length === 0}
+                        className={`flex items-center gap-1.5 text-xs md:text-sm font-medium px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50 ${isLocked ? 'text-slate-400' : 'text-slate-700 hover:bg-slate-100'}`}
+                    >
+                        {isLocked ? <Lock className="w-3.5 h-3.5" /> : <FolderDown className="w-3.5 h-3.5" />}
+                        <span>Download List</span>
+                    </button>
+                )}
+            </div>
+        )}
+
+        {expiringSoon && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-100 rounded-lg flex items-start gap-3">
+                <Clock className="w-5 h-5 text-amber-600 mt-0.5 shrink-0" />
+                <p className="text-sm text-amber-800">
+                    <strong>This gallery expires in {timeRemaining}.</strong> {isSelectionMode ? 'Please finish your selection before then.' : 'Download your photos before then.'}
+                </p>
+            </div>
+        )}
+
+        {isSelectionMode && gallery?.selection_status === 'pending' && (gallery.selection_note || gallery.selection_round > 1) && (
+            <div className="mb-6 p-4 bg-indigo-50 border border-indigo-100 rounded-lg flex items-start gap-3">
+                <MessageSquare className="w-5 h-5 text-indigo-600 mt-0.5 shrink-0" />
+                <div className="text-sm text-indigo-900">
+                    <p className="font-semibold">
+                        {gallery.selection_round > 1
+                            ? `Round ${gallery.selection_round}: pick your favorites from the new photos`
+                            : 'Your photographer reopened your selection'}
+                    </p>
+                    {gallery.selection_note && <p className="mt-1 whitespace-pre-line">{gallery.selection_note}</p>}
+                </div>
+            </div>
+        )}
+
+        {isSelectionMode && gallery?.selection_status === 'submitted' && (
+            <div className="mb-6 p-4 bg-emerald-50 border border-emerald-100 rounded-lg flex items-start gap-3">
+                <CheckCircle2 className="w-5 h-5 text-emerald-600 mt-0.5 shrink-0" />
+                <p className="text-sm text-emerald-800">
+                    <strong>Selection submitted.</strong> Your photographer is working on your {submittedCount} photos and will let you know if anything needs changing.
+                </p>
+            </div>
+        )}
+
+        {isSelectionMode && gallery?.selection_status === 'completed' && (
+            <div className="mb-6 p-4 bg-emerald-50 border border-emerald-100 rounded-lg flex items-start gap-3">
+                <CheckCircle2 className="w-5 h-5 text-emerald-600 mt-0.5 shrink-0" />
+                <p className="text-sm text-emerald-800">
+                    <strong>Selection complete.</strong> Your photographer has finalized your {submittedCount} photos.
+                </p>
+            </div>
+        )}
+
+        {isSelectionMode && !showFavoritesOnly && !activeList && !selectionSubmitted && (
             <div className="mb-6 p-4 bg-rose-50 border border-rose-100 rounded-lg flex items-start gap-3 md:hidden">
                 <Heart className="w-5 h-5 text-rose-500 mt-0.5 shrink-0" />
                 <p className="text-sm text-rose-800">
@@ -515,7 +1066,19 @@ export const ClientGallery: React.FC = () => {
 
         {displayedFiles.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-20 text-slate-400">
-                {showFavoritesOnly ? (
+                {activeList ? (
+                    <>
+                        <ListChecks className="w-16 h-16 text-slate-200 mb-4" />
+                        <h3 className="text-lg font-semibold text-slate-600">This List Is Empty</h3>
+                        <p className="text-sm mb-6 max-w-xs text-center">Use the list button on a photo to add it here.</p>
+                        <button 
+                            onClick={() => showList(null)}
+                            className="text-indigo-600 font-medium hover:underline"
+                        >
+                            Browse Photos
+                        </button>
+                    </>
+                ) : showFavoritesOnly ? (
                     <>
                         <Heart className="w-16 h-16 text-slate-200 mb-4" />
                         <h3 className="text-lg font-semibold text-slate-600">No Favorites Yet</h3>
@@ -535,26 +1098,51 @@ export const ClientGallery: React.FC = () => {
                 )}
             </div>
         ) : (
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 md:gap-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
-            {displayedFiles.map((file, index) => {
+            <div className="space-y-8 md:space-y-12 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            {displayedGroups.map((group) => {
+                const sectionKey = group.section?.id || 'other';
+                return (
+            <section key={sectionKey} id={`section-${sectionKey}`} className="scroll-mt-40">
+            {hasSections && (
+                <div className="flex items-center justify-between gap-3 mb-3 md:mb-4 px-1">
+                    <h2 className="text-base md:text-lg font-semibold text-slate-900">
+                        {group.section?.name || 'More Photos'}
+                        <span className="ml-2 text-xs font-normal text-slate-400">{group.files.length}</span>
+                    </h2>
+                    {!isSelectionMode && (
+                        <button
+                            onClick={() => handleDownloadAll(group.files, group.section?.name || 'more_photos')}
+                            disabled={downloadingAll}
+                            className={`flex items-center gap-1.5 text-xs md:text-sm font-medium px-3 py-1.5 rounded-lg transition-colors ${isLocked ? 'text-slate-400' : 'text-slate-700 hover:bg-slate-100'}`}
+                        >
+                            {isLocked ? <Lock className="w-3.5 h-3.5" /> : <FolderDown className="w-3.5 h-3.5" />}
+                            <span>Download Section</span>
+                        </button>
+                    )}
+                </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 md:gap-4">
+            {group.files.map((file) => {
+                const index = fileIndex.get(file.id) ?? 0;
                 const isSelected = selectedFileIds.has(file.id);
+                const thread = commentThreads.get(file.id);
+                const isListed = listedFileIds.has(file.id);
                 return (
                 <div 
                     key={file.id} 
-                    className={`group relative aspect-square bg-slate-200 rounded-lg overflow-hidden break-inside-avoid ${isSelectionMode && isSelected ? 'ring-4 ring-rose-500' : ''} content-vis-auto`}
+                    className={`group relative aspect-square bg-slate-200 rounded-lg overflow-hidden break-inside-avoid ${isSelectionMode && isSelected ? 'ring-4 ring-rose-500' : ''} ${file.file_type === 'image' ? 'cursor-zoom-in' : ''} content-vis-auto`}
                     style={{ contentVisibility: 'auto' }}
+                    onClick={() => file.file_type === 'image' && openLightbox(file)}
                 >
                 {file.file_type === 'image' ? (
                     <img 
-                        src={getOptimizedImageUrl(file.file_url, 400, 400, 30)}
-                        srcSet={`
-                            ${getOptimizedImageUrl(file.file_url, 150, 150, 25)} 150w,
-                            ${getOptimizedImageUrl(file.file_url, 300, 300, 30)} 300w,
-                            ${getOptimizedImageUrl(file.file_url, 600, 600, 40)} 600w,
-                            ${getOptimizedImageUrl(file.file_url, 900, 900, 50)} 900w
-                        `}
+                        src={getThumbnailUrl(file)}
+                        srcSet={file.thumbnail_path && file.preview_path ? `
+                            ${getThumbnailUrl(file)} 600w,
+                            ${getPreviewUrl(file)} 2048w
+                        ` : undefined}
                         sizes="(max-width: 640px) 48vw, (max-width: 1024px) 32vw, 24vw"
-                        alt="Gallery item" 
+                        alt={file.caption || "Gallery item"}
                         className="w-full h-full object-cover transition-transform duration-500 md:group-hover:scale-105 pointer-events-none will-change-transform"
                         loading={index < 8 ? "eager" : "lazy"}
                         decoding="async"
@@ -564,29 +1152,100 @@ export const ClientGallery: React.FC = () => {
                             const target = e.target as HTMLImageElement;
                             target.removeAttribute('srcset');
                             target.removeAttribute('sizes');
-                            if (target.src !== file.file_url) {
-                                target.src = file.file_url;
+                            const originalUrl = getOriginalUrl(file);
+                            if (originalUrl && target.src !== originalUrl) {
+                                target.src = originalUrl;
                             }
                         }}
                         onContextMenu={(e) => e.preventDefault()}
                     />
                 ) : (
-                    <video src={file.file_url} className="w-full h-full object-cover" controls controlsList="nodownload" />
+                    <>
+                        {getOriginalUrl(file) ? (
+                            <video 
+                                src={getOriginalUrl(file)} 
+                                poster={getPosterUrl(file)}
+                                // Only fetch the video once the client actually plays it when we have a poster
+                                preload={file.poster_path ? 'none' : 'metadata'}
+                                className="w-full h-full object-cover" 
+                                controls 
+                                controlsList="nodownload" 
+                            />
+                        ) : (
+                            // Videos have no proof version, so they only play once the gallery can be downloaded
+                            <div className="w-full h-full flex items-center justify-center bg-slate-800">
+                                {getPosterUrl(file) ? (
+                                    <img src={getPosterUrl(file)} alt={file.caption || "Video"} className="w-full h-full object-cover pointer-events-none" onContextMenu={(e) => e.preventDefault()} />
+                                ) : (
+                                    <FileVideo className="w-10 h-10 text-slate-500" />
+                                )}
+                                <span className="absolute bottom-2 left-2 bg-black/70 text-white text-xs font-medium px-1.5 py-0.5 rounded flex items-center gap-1 pointer-events-none">
+                                    <Lock className="w-3 h-3" />
+                                    {isSelectionMode ? 'Plays on delivery' : 'Plays once paid'}
+                                </span>
+                            </div>
+                        )}
+                        {file.duration ? (
+                            <span className="absolute top-2 left-2 bg-black/70 text-white text-xs font-medium px-1.5 py-0.5 rounded pointer-events-none">
+                                {formatDuration(file.duration)}
+                            </span>
+                        ) : null}
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                openLightbox(file);
+                            }}
+                            className="absolute top-2 right-2 z-10 p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80 transition-colors"
+                        >
+                            <Maximize2 className="w-4 h-4" />
+                        </button>
+                    </>
                 )}
                 
                 {/* Desktop Hover Overlay */}
                 <div className="hidden md:flex absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity items-center justify-center gap-3">
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            openListPicker(file);
+                        }}
+                        className={`p-3 rounded-full shadow-lg transform transition-all hover:scale-110 bg-white ${isListed ? 'text-indigo-600' : 'text-slate-500 hover:text-slate-900'}`}
+                        title="Add to list"
+                    >
+                        <ListPlus className="w-5 h-5" />
+                    </button>
                     {isSelectionMode ? (
+                        <>
                         <button
-                            onClick={() => toggleSelection(file)}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                toggleSelection(file);
+                            }}
                             className={`p-3 rounded-full shadow-lg transform transition-all hover:scale-110 ${isSelected ? 'bg-rose-500 text-white' : 'bg-white text-slate-400 hover:text-rose-500'}`}
                             disabled={selectionSubmitted}
                         >
                             <Heart className={`w-5 h-5 ${isSelected ? 'fill-current' : ''}`} />
                         </button>
+                        {(isSelected || thread) && (
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setCommentFileId(file.id);
+                                }}
+                                className="relative p-3 rounded-full shadow-lg transform transition-all hover:scale-110 bg-white text-slate-500 hover:text-slate-900"
+                                title="Comments"
+                            >
+                                <MessageSquare className="w-5 h-5" />
+                                {thread && <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-slate-900 text-white text-[10px] font-bold flex items-center justify-center">{thread.length}</span>}
+                            </button>
+                        )}
+                        </>
                     ) : (
                         <button
-                            onClick={() => handleDownload(file)}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                handleDownload(file);
+                            }}
                             disabled={downloadingId === file.id}
                             className="bg-white/95 hover:bg-white text-slate-900 px-4 py-2 rounded-full font-medium flex items-center gap-2 transform translate-y-4 group-hover:translate-y-0 transition-all shadow-lg text-sm disabled:opacity-75 disabled:cursor-wait"
                         >
@@ -598,6 +1257,15 @@ export const ClientGallery: React.FC = () => {
 
                 {/* Mobile Actions */}
                 <div className="md:hidden absolute bottom-2 right-2 flex gap-2">
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            openListPicker(file);
+                        }}
+                        className={`p-2.5 rounded-full shadow-md backdrop-blur-sm transition-all active:scale-95 border border-white/20 bg-white/90 ${isListed ? 'text-indigo-600' : 'text-slate-600'}`}
+                    >
+                        <ListPlus className="w-4 h-4" />
+                    </button>
                     {isSelectionMode && (
                         <button
                             onClick={(e) => {
@@ -610,6 +1278,18 @@ export const ClientGallery: React.FC = () => {
                             <Heart className={`w-4 h-4 ${isSelected ? 'fill-current' : ''}`} />
                         </button>
                     )}
+                    {isSelectionMode && (isSelected || thread) && (
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setCommentFileId(file.id);
+                            }}
+                            className="relative p-2.5 rounded-full shadow-md backdrop-blur-sm transition-all active:scale-95 border border-white/20 bg-white/90 text-slate-600"
+                        >
+                            <MessageSquare className="w-4 h-4" />
+                            {thread && <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-slate-900 text-white text-[9px] font-bold flex items-center justify-center">{thread.length}</span>}
+                        </button>
+                    )}
                     {!isSelectionMode && (
                         <button
                             onClick={(e) => {
@@ -630,6 +1310,9 @@ export const ClientGallery: React.FC = () => {
                 </div>
             )})}
             </div>
+            </section>
+            )})}
+            </div>
         )}
       </main>
 
@@ -640,15 +1323,30 @@ export const ClientGallery: React.FC = () => {
                 <div className="flex items-center gap-4 w-full sm:w-auto">
                     <div 
                         className="flex items-center gap-2 cursor-pointer group"
-                        onClick={() => setShowFavoritesOnly(!showFavoritesOnly)}
+                        onClick={toggleFavoritesOnly}
                     >
                         <div className={`p-2 rounded-full transition-colors ${showFavoritesOnly ? 'bg-rose-500 text-white' : 'bg-rose-100 text-rose-600'}`}>
                             <Heart className={`w-5 h-5 ${showFavoritesOnly ? 'fill-current' : ''}`} />
                         </div>
                         <div>
-                            <p className="font-bold text-slate-900 group-hover:text-rose-600 transition-colors">{selectedFileIds.size} Selected</p>
+                            {overage.included === null ? (
+                                <p className="font-bold text-slate-900 group-hover:text-rose-600 transition-colors">{selectedFileIds.size} Selected</p>
+                            ) : (
+                                <p className="font-bold text-slate-900 group-hover:text-rose-600 transition-colors">
+                                    {selectedFileIds.size} / {overage.included}
+                                    {overage.extras > 0 && (
+                                        <span className="font-medium text-amber-600">
+                                            {' '}— {overage.extras} {overage.extras === 1 ? 'extra' : 'extras'}, {formatCurrency(overage.amount, gallery?.currency, getVisitorLocale())}
+                                        </span>
+                                    )}
+                                </p>
+                            )}
                             <p className="text-xs text-slate-500 hidden sm:inline-block">
-                                {showFavoritesOnly ? "Showing favorites" : "Tap heart to select"}
+                                {showFavoritesOnly
+                                    ? "Showing favorites"
+                                    : overage.included !== null && overage.extras === 0
+                                        ? `${overage.included - selectedFileIds.size} left in your package`
+                                        : "Tap heart to select"}
                             </p>
                         </div>
                     </div>
@@ -656,7 +1354,7 @@ export const ClientGallery: React.FC = () => {
                 
                 <div className="flex gap-2 w-full sm:w-auto">
                     <button 
-                        onClick={() => setShowFavoritesOnly(!showFavoritesOnly)}
+                        onClick={toggleFavoritesOnly}
                         className="flex-1 sm:flex-none px-4 py-2.5 rounded-lg font-medium border border-slate-200 text-slate-700 hover:bg-slate-50 text-sm transition-colors"
                     >
                         {showFavoritesOnly ? "Browse All" : "Review"}
@@ -665,11 +1363,11 @@ export const ClientGallery: React.FC = () => {
                     {selectionSubmitted ? (
                         <div className="flex-1 sm:flex-none bg-emerald-50 text-emerald-700 px-4 py-2 rounded-lg font-medium border border-emerald-200 flex items-center justify-center gap-2 text-sm">
                             <CheckCircle2 className="w-5 h-5" />
-                            <span>Submitted</span>
+                            <span>{gallery?.selection_status === 'completed' ? 'Completed' : 'Submitted'}</span>
                         </div>
                     ) : (
                         <button 
-                            onClick={submitSelection}
+                            onClick={() => reviewer ? setShowSubmitModal(true) : setShowReviewerModal(true)}
                             disabled={submittingSelection || selectedFileIds.size === 0}
                             className="flex-1 sm:flex-none bg-slate-900 text-white px-6 py-2.5 rounded-lg font-medium hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm"
                         >
@@ -694,30 +1392,94 @@ export const ClientGallery: React.FC = () => {
         </div>
       )}
 
+      {lightboxIndex >= 0 && (
+        <Lightbox
+          files={lightboxFiles}
+          index={lightboxIndex}
+          onNavigate={(index) => navigate(`/g/${galleryId}/${lightboxFiles[index].id}`, { replace: true })}
+          onClose={closeLightbox}
+          isSelectionMode={!!isSelectionMode}
+          isLocked={isLocked}
+          selectionSubmitted={selectionSubmitted}
+          isSelected={selectedFileIds.has(lightboxFiles[lightboxIndex].id)}
+          isDownloading={downloadingId === lightboxFiles[lightboxIndex].id}
+          onToggleSelection={toggleSelection}
+          onDownload={handleDownload}
+        />
+      )}
+
+      {/* Reviewer Modal */}
+      {showReviewerModal && gallery && (
+        <ReviewerModal
+          galleryId={gallery.id}
+          onJoined={handleReviewerJoined}
+          onClose={() => setShowReviewerModal(false)}
+        />
+      )}
+
+      {showSubmitModal && gallery && reviewer && (
+        <SubmitSelectionModal
+          gallery={gallery}
+          reviewer={reviewer}
+          ownCount={selectedFileIds.size}
+          submitting={submittingSelection}
+          onSubmit={submitSelection}
+          onClose={() => setShowSubmitModal(false)}
+        />
+      )}
+
+      {commentFile && gallery && (
+        <CommentsModal
+          file={commentFile}
+          comments={commentThreads.get(commentFile.id) || []}
+          viewer="client"
+          closedMessage={
+            selectionSubmitted
+              ? 'Your selection has been submitted, so comments are closed.'
+              : !selectedFileIds.has(commentFile.id)
+                ? 'Add this photo to your favorites to comment on it.'
+                : undefined
+          }
+          onPost={async (kind, body) => {
+            const comment = await addComment(gallery.id, commentFile.id, 'client', kind, body, reviewer?.id);
+            setComments(current => [...current, comment]);
+          }}
+          onClose={() => setCommentFileId(null)}
+        />
+      )}
+
+      {listFile && (
+        <FavoriteListsModal
+          file={listFile}
+          lists={lists}
+          onToggle={(list) => toggleListFile(list, listFile.id)}
+          onCreate={(name) => createList(name, listFile.id)}
+          onClose={() => setListFileId(null)}
+        />
+      )}
+
       {/* Pay Modal */}
-      {showPayModal && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-          <div className="bg-white rounded-2xl max-w-sm w-full p-6 text-center shadow-xl animate-in fade-in zoom-in-95 duration-200">
-            <div className="w-12 h-12 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <Lock className="w-6 h-6 text-amber-600" />
-            </div>
-            <h3 className="text-lg font-bold text-slate-900 mb-2">Downloads Locked</h3>
-            <p className="text-slate-600 mb-6 text-sm">
-              You have a remaining balance of <strong className="text-slate-900">{formatCurrency(balanceDue)}</strong>.
-              <br/>
-              <span className="text-xs text-slate-500 mt-2 block">(Agreed: {formatCurrency(agreedAmount)} - Paid: {formatCurrency(amountPaid)})</span>
-            </p>
-            <div className="space-y-3">
-                <button 
-                    onClick={() => setShowPayModal(false)}
-                    className="w-full bg-slate-900 text-white py-2.5 rounded-lg font-medium hover:bg-slate-800 transition-colors"
-                >
-                    Close
-                </button>
-                <p className="text-xs text-slate-400">Contact your photographer to settle payment.</p>
-            </div>
-          </div>
-        </div>
+      {showPayModal && gallery && (
+        <PayModal
+          galleryId={gallery.id}
+          agreedAmount={agreedAmount}
+          amountPaid={amountPaid}
+          currency={gallery.currency}
+          onClose={() => setShowPayModal(false)}
+          onPaid={loadGallery}
+          onShowReceipts={() => { setShowPayModal(false); setShowReceipts(true); }}
+        />
+      )}
+
+      {/* Receipts */}
+      {showReceipts && gallery && (
+        <ReceiptsModal
+          galleryId={gallery.id}
+          agreedAmount={agreedAmount}
+          amountPaid={amountPaid}
+          currency={gallery.currency}
+          onClose={() => setShowReceipts(false)}
+        />
       )}
 
       {/* Download Progress Modal */}
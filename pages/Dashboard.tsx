@@ -1,16 +1,55 @@
 import React, { useEffect, useState } from 'react';
-import { Plus, Eye, EyeOff, Image as ImageIcon, Loader2, Trash2, Heart, Bell, Clock } from 'lucide-react';
+import { Plus, Eye, EyeOff, Image as ImageIcon, Loader2, Trash2, Heart, Bell, Clock, Wallet, MessageSquare } from 'lucide-react';
 import { supabase } from '../services/supabase';
-import { Gallery, ActivityLog } from '../types';
+import { Gallery, ActivityLog, Profile } from '../types';
 import { useNavigate } from 'react-router-dom';
-import { getOptimizedImageUrl, formatDate } from '../utils/formatters';
+import { formatDate, formatCurrency, DEFAULT_CURRENCY, DEFAULT_LOCALE } from '../utils/formatters';
+import { getProfile } from '../services/profile';
+import { getStoragePaths } from '../services/media';
+import { signOwnPaths } from '../services/signedUrls';
+import { isExpiringSoon, formatTimeLeft } from '../services/expiry';
+import { watchTables } from '../services/realtime';
 
 // Extended interface for dashboard display
 interface DashboardGallery extends Gallery {
+  coverPath: string | null; // Thumbnail if there is one, else the original
   coverUrl: string | null;
   itemCount: number;
+  nextExpiry: string | null;
+  openComments: number; // Client comments the photographer hasn't resolved
 }
 
+// Money is only ever added up within one currency
+interface CurrencyTotals {
+  currency: string;
+  agreed: number;
+  paid: number;
+  outstanding: number;
+}
+
+const totalsByCurrency = (galleries: Gallery[]): CurrencyTotals[] => {
+  const totals = new Map<string, CurrencyTotals>();
+  galleries.forEach(gallery => {
+    const currency = gallery.currency || DEFAULT_CURRENCY;
+    const entry = totals.get(currency) || { currency, agreed: 0, paid: 0, outstanding: 0 };
+    entry.agreed += gallery.agreed_balance || 0;
+    entry.paid += gallery.amount_paid || 0;
+    entry.outstanding += Math.max(0, (gallery.agreed_balance || 0) - (gallery.amount_paid || 0));
+    totals.set(currency, entry);
+  });
+  return [...totals.values()]
+    .filter(entry => entry.agreed > 0 || entry.paid > 0)
+    .sort((a, b) => a.currency.localeCompare(b.currency));
+};
+
+// Submitted selections first, then newest
+const sortGalleries = (galleries: DashboardGallery[]) =>
+  [...galleries].sort((a, b) => {
+    if (a.selection_status === 'submitted' && b.selection_status !== 'submitted') return -1;
+    if (a.selection_status !== 'submitted' && b.selection_status === 'submitted') return 1;
+    return b.created_at.localeCompare(a.created_at);
+  });
+
 interface EnrichedActivityLog extends ActivityLog {
   gallery?: {
     client_name: string;
@@ -22,6 +61,7 @@ export const Dashboard: React.FC = () => {
   const [galleries, setGalleries] = useState<DashboardGallery[]>([]);
   const [activities, setActivities] = useState<EnrichedActivityLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [profile, setProfile] = useState<Profile | null>(null);
 
   useEffect(() => {
     const initDashboard = async () => {
@@ -33,6 +73,28 @@ export const Dashboard: React.FC = () => {
         fetchData();
     };
     initDashboard();
+    getProfile()
+      .then(setProfile)
+      .catch(error => console.error('Error loading profile:', error));
+  }, []);
+
+  useEffect(() => {
+    let stopWatching: (() => void) | undefined;
+    let unmounted = false;
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || unmounted) return;
+      // Activity logs need no filter: the policies only let a photographer read their own
+      stopWatching = watchTables(`dashboard-${user.id}`, [
+        { table: 'galleries', filter: `photographer_id=eq.${user.id}` },
+        { table: 'activity_logs' },
+      ], () => refreshLive(user.id));
+    });
+
+    return () => {
+      unmounted = true;
+      stopWatching?.();
+    };
   }, []);
 
   const fetchData = async () => {
@@ -61,41 +123,51 @@ export const Dashboard: React.FC = () => {
           // Get latest image for cover
           const { data: files } = await supabase
             .from('files')
-            .select('file_url')
+            .select('file_path, thumbnail_path')
             .eq('gallery_id', gallery.id)
             .eq('file_type', 'image')
             .order('created_at', { ascending: false })
             .limit(1);
 
+          // Get the soonest upcoming expiry
+          const { data: expiring } = await supabase
+            .from('files')
+            .select('expires_at')
+            .eq('gallery_id', gallery.id)
+            .gt('expires_at', new Date().toISOString())
+            .order('expires_at', { ascending: true })
+            .limit(1);
+
+          // Unresolved client comments
+          const { count: openComments } = await supabase
+            .from('file_comments')
+            .select('*', { count: 'exact', head: true })
+            .eq('gallery_id', gallery.id)
+            .eq('author', 'client')
+            .is('resolved_at', null);
+
           return {
             ...gallery,
             itemCount: count || 0,
-            coverUrl: files && files.length > 0 ? files[0].file_url : null,
+            openComments: openComments || 0,
+            coverPath: files && files.length > 0 ? files[0].thumbnail_path || files[0].file_path : null,
+            coverUrl: null,
+            nextExpiry: expiring && expiring.length > 0 ? expiring[0].expires_at : null,
           };
         })
       );
       
       // Sort galleries
-      const sortedGalleries = enrichedGalleries.sort((a, b) => {
-          if (a.selection_status === 'submitted' && b.selection_status !== 'submitted') return -1;
-          if (a.selection_status !== 'submitted' && b.selection_status === 'submitted') return 1;
-          return 0;
+      // Sign every cover in one request; the bucket is private
+      const coverUrls = await signOwnPaths(enrichedGalleries.map(g => g.coverPath).filter((path): path is string => !!path));
+      enrichedGalleries.forEach(g => {
+          g.coverUrl = g.coverPath ? coverUrls.get(g.coverPath) ?? null : null;
       });
 
-      setGalleries(sortedGalleries);
+      setGalleries(sortGalleries(enrichedGalleries));
 
       // 3. Fetch Recent Activity
-      const { data: activityData } = await supabase
-        .from('activity_logs')
-        .select('*, gallery:galleries(client_name)')
-        .order('timestamp', { ascending: false })
-        .limit(10);
-        
-      if (activityData) {
-          // Filter out logs where gallery might have been deleted (if cascade didn't work or for safety)
-          // @ts-ignore
-          setActivities(activityData.filter(log => log.gallery));
-      }
+      await fetchActivity();
 
     } catch (error) {
       console.error('Error loading dashboard data:', error);
@@ -104,6 +176,43 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const fetchActivity = async () => {
+    const { data: activityData } = await supabase
+      .from('activity_logs')
+      .select('*, gallery:galleries(client_name)')
+      .order('timestamp', { ascending: false })
+      .limit(10);
+      
+    if (activityData) {
+        // Filter out logs where gallery might have been deleted (if cascade didn't work or for safety)
+        // @ts-ignore
+        setActivities(activityData.filter(log => log.gallery));
+    }
+  };
+
+  // Submissions, payments and new activity as they happen. Covers and counts keep their values from the last full load.
+  const refreshLive = async (userId: string) => {
+    try {
+      const { data: galleriesData, error } = await supabase
+        .from('galleries')
+        .select('*')
+        .eq('photographer_id', userId);
+
+      if (error) throw error;
+
+      const latest = new Map((galleriesData as Gallery[]).map(gallery => [gallery.id, gallery]));
+      setGalleries(current => sortGalleries(
+        current
+          .filter(gallery => latest.has(gallery.id))
+          .map(gallery => ({ ...gallery, ...latest.get(gallery.id)! }))
+      ));
+
+      await fetchActivity();
+    } catch (error) {
+      console.error('Error refreshing dashboard:', error);
+    }
+  };
+
   const createGallery = async () => {
     const clientName = prompt("Enter Client Name:");
     if (!clientName) return;
@@ -120,6 +229,7 @@ export const Dashboard: React.FC = () => {
           title: `${clientName}'s Gallery`,
           agreed_balance: 0,
           amount_paid: 0,
+          currency: profile?.currency || DEFAULT_CURRENCY,
           link_enabled: true
         }])
         .select()
@@ -143,11 +253,11 @@ export const Dashboard: React.FC = () => {
     try {
         const { data: filesData } = await supabase
             .from('files')
-            .select('file_path')
+            .select('file_path, thumbnail_path, preview_path, proof_path, proof_thumbnail_path, poster_path')
             .eq('gallery_id', galleryId);
             
         if (filesData && filesData.length > 0) {
-            const paths = filesData.map(f => f.file_path);
+            const paths = filesData.flatMap(f => getStoragePaths(f));
             await supabase.storage.from('gallery-files').remove(paths);
         }
 
@@ -168,6 +278,9 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const locale = profile?.locale || DEFAULT_LOCALE;
+  const currencyTotals = totalsByCurrency(galleries);
+
   if (loading) return <div className="flex justify-center items-center h-full text-slate-400"><Loader2 className="animate-spin mr-2" /> Loading dashboard...</div>;
 
   return (
@@ -188,6 +301,29 @@ export const Dashboard: React.FC = () => {
             </button>
         </div>
 
+        {/* Payment totals, one row per currency */}
+        {currencyTotals.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
+                {currencyTotals.map(totals => (
+                    <div key={totals.currency} className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+                        <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">
+                            <Wallet className="w-4 h-4" />
+                            {totals.currency}
+                        </div>
+                        <p className="text-lg font-bold text-slate-900">{formatCurrency(totals.paid, totals.currency, locale)}</p>
+                        <p className="text-xs text-slate-500">
+                            received of {formatCurrency(totals.agreed, totals.currency, locale)}
+                        </p>
+                        {totals.outstanding > 0 && (
+                            <p className="text-xs font-medium text-amber-600 mt-1">
+                                {formatCurrency(totals.outstanding, totals.currency, locale)} outstanding
+                            </p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        )}
+
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
             {galleries.map((gallery) => (
             <div 
@@ -199,13 +335,9 @@ export const Dashboard: React.FC = () => {
                 <div className="relative aspect-[3/2] bg-slate-100 rounded-xl overflow-hidden mb-3 shadow-sm transition-all duration-300 group-hover:shadow-md border border-slate-100">
                 {gallery.coverUrl ? (
                     <img 
-                    src={getOptimizedImageUrl(gallery.coverUrl, 600, 400)} 
+                    src={gallery.coverUrl} 
                     alt={gallery.client_name}
                     className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
-                    onError={(e) => {
-                        const target = e.target as HTMLImageElement;
-                        if (target.src !== gallery.coverUrl) target.src = gallery.coverUrl!;
-                    }}
                     />
                 ) : (
                     <div className="w-full h-full flex items-center justify-center bg-slate-50 text-slate-300">
@@ -221,6 +353,18 @@ export const Dashboard: React.FC = () => {
                             SUBMITTED
                         </div>
                     )}
+                    {gallery.openComments > 0 && (
+                        <div className="bg-slate-900 text-white text-[10px] font-bold px-2 py-1 rounded-md shadow-sm flex items-center gap-1">
+                            <MessageSquare className="w-3 h-3" />
+                            {gallery.openComments} {gallery.openComments === 1 ? 'COMMENT' : 'COMMENTS'}
+                        </div>
+                    )}
+                    {isExpiringSoon(gallery.nextExpiry) && (
+                        <div className="bg-amber-500 text-white text-[10px] font-bold px-2 py-1 rounded-md shadow-sm flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            EXPIRES IN {formatTimeLeft(gallery.nextExpiry!).toUpperCase()}
+                        </div>
+                    )}
                 </div>
                 
                 {/* Hover Overlay */}
@@ -256,6 +400,11 @@ export const Dashboard: React.FC = () => {
                     <span className="text-slate-500">
                     {gallery.itemCount} {gallery.itemCount === 1 ? 'item' : 'items'}
                     </span>
+                    {(gallery.agreed_balance || 0) > (gallery.amount_paid || 0) && (
+                        <span className="text-amber-600 font-medium">
+                        · {formatCurrency(gallery.agreed_balance - (gallery.amount_paid || 0), gallery.currency, locale)} due
+                        </span>
+                    )}
                 </div>
                 </div>
             </div>
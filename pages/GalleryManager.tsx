@@ -1,10 +1,35 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useParams } from 'react-router-dom';
-import { Upload, Trash2, Save, ExternalLink, RefreshCw, Eye, Lock, Unlock, Download, DollarSign, Calculator, Check, Copy, Clock, Loader2, ArrowLeft, Heart, Filter } from 'lucide-react';
+import { Upload, Trash2, Save, ExternalLink, Eye, Lock, Unlock, Download, DollarSign, Calculator, Check, Copy, Loader2, ArrowLeft, Heart, Filter, Layers, ChevronUp, ChevronDown, X, GripVertical, ArrowUpDown, MessageSquare, Users, ListChecks } from 'lucide-react';
 import { supabase } from '../services/supabase';
-import { Gallery, GalleryFile } from '../types';
-import { formatCurrency, formatDate, getOptimizedImageUrl } from '../utils/formatters';
+import { FavoriteList, FileComment, Gallery, GalleryFile, Reviewer, Section, SelectionRound, SortMode, WatermarkSettings } from '../types';
+import { formatCurrency, formatAmount, getCurrencySymbol, formatDate, formatDuration, formatFileSize, DEFAULT_CURRENCY, DEFAULT_LOCALE } from '../utils/formatters';
+import { CURRENCY_OPTIONS } from '../services/currency';
+import { getThumbnailUrl, getPosterUrl, getOriginalUrl, getStoragePaths, getDownloadName } from '../services/media';
+import { loadSignedUrls, SIGNED_URL_REFRESH_MS } from '../services/signedUrls';
 import { useUpload } from '../contexts/UploadContext';
+import { UploadItemRow } from '../components/UploadItemRow';
+import { DuplicatesModal } from '../components/DuplicatesModal';
+import { SectionsCard } from '../components/SectionsCard';
+import { ExpiryCard } from '../components/ExpiryCard';
+import { WatermarkCard } from '../components/WatermarkCard';
+import { PackageCard } from '../components/PackageCard';
+import { SelectionWorkflowCard } from '../components/SelectionWorkflowCard';
+import { CommentsModal } from '../components/CommentsModal';
+import { FavoriteListsCard } from '../components/FavoriteListsCard';
+import { SelectionExportCard } from '../components/SelectionExportCard';
+import { listFavoriteLists } from '../services/favoriteLists';
+import { watchTables } from '../services/realtime';
+import { PickFilter, listReviewers, groupPicksByReviewer, filterPicks, getInitials } from '../services/reviewers';
+import { listComments, addComment, resolveComments, groupCommentsByFile, countOpenComments } from '../services/comments';
+import { getPackageAmount } from '../services/packages';
+import { PaymentLedgerCard } from '../components/PaymentLedgerCard';
+import { InvoiceButtons } from '../components/InvoiceButtons';
+import { resolveWatermark } from '../services/watermark';
+import { getProfile } from '../services/profile';
+import { getExpiryPolicy, computeExpiry, getNextExpiry, isExpiringSoon, toLocalInputValue } from '../services/expiry';
+import { groupFilesBySection, saveFileOrder, moveItem, SORT_MODE_LABELS } from '../services/sections';
+import { setGalleryPassword } from '../services/galleryAccess';
 import { useNavigate } from 'react-router-dom';
 
 export const GalleryManager: React.FC = () => {
@@ -12,63 +37,89 @@ export const GalleryManager: React.FC = () => {
   const navigate = useNavigate();
   const [gallery, setGallery] = useState<Gallery | null>(null);
   const [files, setFiles] = useState<GalleryFile[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
   const [clientSelections, setClientSelections] = useState<Set<string>>(new Set());
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [reviewerPicks, setReviewerPicks] = useState<Map<string, Set<string>>>(new Map());
+  const [comments, setComments] = useState<FileComment[]>([]);
+  const [favoriteLists, setFavoriteLists] = useState<FavoriteList[]>([]);
+  const [commentFileId, setCommentFileId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Use Global Upload Context
-  const { uploading, progress, activeGalleryId, uploadFiles } = useUpload();
-  const isUploadingThisGallery = uploading && activeGalleryId === id;
+  const { items: uploadItems, uploadFiles } = useUpload();
+  const galleryUploads = uploadItems.filter(item => item.galleryId === id);
+  const isUploadingThisGallery = galleryUploads.some(item => item.status === 'uploading' || item.status === 'queued');
+  const countedUploads = galleryUploads.filter(item => item.status !== 'skipped');
+  const galleryUploadBytes = countedUploads.reduce((acc, item) => acc + item.size, 0);
+  const progress = galleryUploadBytes > 0
+    ? Math.round((countedUploads.reduce((acc, item) => acc + item.bytesUploaded, 0) / galleryUploadBytes) * 100)
+    : 0;
   
   // Track previous uploading state to trigger refresh on completion
-  const prevUploadingRef = useRef(uploading);
+  const prevUploadingRef = useRef(isUploadingThisGallery);
 
   // Edit states
   const [agreedAmount, setAgreedAmount] = useState<number>(0);
-  const [paid, setPaid] = useState<number>(0);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
   const [paymentUpdated, setPaymentUpdated] = useState(false);
   const [linkCopied, setLinkCopied] = useState(false);
   
   // UI States
-  const [viewFilter, setViewFilter] = useState<'all' | 'selected'>('all');
+  const [viewFilter, setViewFilter] = useState<'all' | 'selected' | 'round' | 'list'>('all');
+  const [viewingRound, setViewingRound] = useState<SelectionRound | null>(null);
+  const [viewingListId, setViewingListId] = useState<string | null>(null);
+  const [pickFilter, setPickFilter] = useState<PickFilter | null>(null); // null = the client's selection as a whole
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [checkedFileIds, setCheckedFileIds] = useState<Set<string>>(new Set());
+  const [draggedFileId, setDraggedFileId] = useState<string | null>(null);
+  const [editingExpiryFileId, setEditingExpiryFileId] = useState<string | null>(null);
+  const [expiryDraft, setExpiryDraft] = useState('');
+  const [passwordDraft, setPasswordDraft] = useState('');
+  const [editingPassword, setEditingPassword] = useState(false);
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [urlsSignedAt, setUrlsSignedAt] = useState(0);
+  const [accountWatermark, setAccountWatermark] = useState<WatermarkSettings | null>(null);
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
 
-  // Expiration settings (in hours)
-  const [expiryHours, setExpiryHours] = useState<number>(24);
-
-  // Load preference specific to this gallery ID
   useEffect(() => {
-    if (!id) return;
-    try {
-        const key = `gallery_expiry_${id}`;
-        const saved = localStorage.getItem(key);
-        if (saved) {
-            setExpiryHours(parseFloat(saved));
-        } else {
-            setExpiryHours(24);
-        }
-    } catch {
-        setExpiryHours(24);
-    }
+    if (id) fetchGalleryData();
   }, [id]);
 
-  // Save preference specific to this gallery ID when it changes
   useEffect(() => {
-    if (!id) return;
-    const key = `gallery_expiry_${id}`;
-    localStorage.setItem(key, expiryHours.toString());
-  }, [expiryHours, id]);
+    getProfile()
+      .then(profile => {
+        setAccountWatermark(profile?.watermark ?? null);
+        setLocale(profile?.locale || DEFAULT_LOCALE);
+      })
+      .catch(error => console.error('Error loading profile:', error));
+  }, []);
 
+  // Realtime can't filter deletes, so a pick a reviewer takes back shows up with the next change
   useEffect(() => {
-    if (id) fetchGalleryData();
+    if (!id) return;
+    return watchTables(`gallery-manager-${id}`, [
+      { table: 'galleries', filter: `id=eq.${id}` },
+      { table: 'selections', filter: `gallery_id=eq.${id}` },
+      { table: 'activity_logs', filter: `gallery_id=eq.${id}` },
+    ], refreshLive);
   }, [id]);
 
-  // Effect to refresh data when global upload finishes
+  // Effect to refresh data when this gallery's queued uploads finish
   useEffect(() => {
     const wasUploading = prevUploadingRef.current;
-    if (wasUploading && !uploading) {
+    if (wasUploading && !isUploadingThisGallery) {
         fetchGalleryData();
     }
-    prevUploadingRef.current = uploading;
-  }, [uploading]);
+    prevUploadingRef.current = isUploadingThisGallery;
+  }, [isUploadingThisGallery]);
+
+  // Keep signed file links fresh while the page stays open
+  useEffect(() => {
+    if (!urlsSignedAt) return;
+    const timer = setTimeout(fetchGalleryData, SIGNED_URL_REFRESH_MS);
+    return () => clearTimeout(timer);
+  }, [urlsSignedAt]);
 
   const fetchGalleryData = async () => {
     if (!id) return;
@@ -87,28 +138,97 @@ export const GalleryManager: React.FC = () => {
     
     setGallery(galData);
     setAgreedAmount(galData.agreed_balance);
-    setPaid(galData.amount_paid);
+    setCurrency(galData.currency || DEFAULT_CURRENCY);
 
     // Get Files
     const { data: fileData, error: fileError } = await supabase
       .from('files')
       .select('*')
       .eq('gallery_id', id)
-      .order('created_at', { ascending: false });
+      .order('created_at', { ascending: true });
+
+    if (fileError) console.error(fileError);
+
+    if (fileData) {
+      try {
+        await loadSignedUrls(id);
+        setUrlsSignedAt(Date.now());
+      } catch (error) {
+        console.error('Error signing file links:', error);
+      }
+      setFiles(fileData);
+    }
+
+    // Get Sections
+    const { data: sectionData } = await supabase
+      .from('sections')
+      .select('*')
+      .eq('gallery_id', id)
+      .order('position', { ascending: true });
 
-    if (fileData) setFiles(fileData);
+    if (sectionData) setSections(sectionData);
+
+    await loadClientActivity(galData);
+  };
+
+  // Everything the client side changes: picks, reviewers, comments and lists
+  const loadClientActivity = async (galData: Gallery) => {
+    if (!id) return;
 
     // Get Selections - Always fetch these so the photographer can see them even if they disabled the mode
     const { data: selectionData } = await supabase
         .from('selections')
-        .select('file_id')
+        .select('file_id, reviewer_id')
         .eq('gallery_id', id);
     
     if (selectionData) {
-        setClientSelections(new Set(selectionData.map(s => s.file_id)));
+        // Once submitted, the submitted list is what counts; until then, anything anyone has picked
+        const submitted = selectionData.filter(s => !s.reviewer_id);
+        const current = galData.selection_status !== 'pending' && submitted.length > 0 ? submitted : selectionData;
+        setClientSelections(new Set(current.map(s => s.file_id)));
+        setReviewerPicks(groupPicksByReviewer(selectionData));
+    }
+
+    try {
+        setReviewers(await listReviewers(id));
+    } catch (error) {
+        console.error('Error loading reviewers:', error);
+    }
+
+    try {
+        setComments(await listComments(id));
+    } catch (error) {
+        console.error('Error loading comments:', error);
+    }
+
+    try {
+        setFavoriteLists(await listFavoriteLists(id));
+    } catch (error) {
+        console.error('Error loading lists:', error);
     }
   };
 
+  // A submission, a payment or the client's picks as they happen. Files and their links are left alone.
+  const refreshLive = async () => {
+    if (!id) return;
+
+    const { data: galData, error } = await supabase
+      .from('galleries')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error(error);
+      return;
+    }
+
+    setGallery(galData);
+    setAgreedAmount(galData.agreed_balance);
+    setCurrency(galData.currency || DEFAULT_CURRENCY);
+    await loadClientActivity(galData);
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const fileList = event.target.files;
     if (!fileList || fileList.length === 0 || !gallery) return;
@@ -116,58 +236,30 @@ export const GalleryManager: React.FC = () => {
     const filesToUpload = Array.from(fileList);
     
     // Use Context
-    await uploadFiles(gallery.id, filesToUpload, expiryHours);
+    await uploadFiles(filesToUpload, {
+        galleryId: gallery.id,
+        galleryName: gallery.client_name,
+        expiry: getExpiryPolicy(gallery),
+        stripLocation: gallery.strip_location ?? true,
+        watermark: resolveWatermark(accountWatermark, gallery),
+    });
     
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleExtendExpiration = async () => {
-    if (!gallery || files.length === 0) return;
-    
-    // Calculate readable expiration time for confirmation
-    const newExpiry = new Date();
-    newExpiry.setTime(newExpiry.getTime() + expiryHours * 60 * 60 * 1000);
-    const formattedTime = newExpiry.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
-
-    const confirmMessage = `Are you sure you want to update the expiration for all ${files.length} files?\n\nThey will be set to expire in ${expiryHours} hours from now (approx ${formattedTime}).\n\nThis will reactivate any currently expired files.`;
-    
-    if (!window.confirm(confirmMessage)) return;
-
-    try {
-      const { error } = await supabase
-        .from('files')
-        .update({ expires_at: newExpiry.toISOString() })
-        .eq('gallery_id', gallery.id);
-        
-      if (error) throw error;
-      
-      // Log activity
-      await supabase.from('activity_logs').insert({
-        gallery_id: gallery.id,
-        action: `Extended expiration for ${files.length} files by ${expiryHours} hours`
-      });
-
-      await fetchGalleryData();
-      alert("Files updated successfully! The link is active again.");
-    } catch (error) {
-      console.error('Error updating expiration:', error);
-      alert('Failed to update expiration.');
-    }
-  };
-
   const updatePayment = async () => {
     if (!gallery) return;
     
     try {
       await supabase
         .from('galleries')
-        .update({ agreed_balance: agreedAmount, amount_paid: paid })
+        .update({ agreed_balance: agreedAmount, currency })
         .eq('id', gallery.id);
       
       // Log activity
       await supabase.from('activity_logs').insert({
         gallery_id: gallery.id,
-        action: `Payment updated: Agreed ${agreedAmount}, Paid ${paid}`
+        action: `Agreed amount updated: ${formatCurrency(agreedAmount, currency, locale)}`
       });
 
       setPaymentUpdated(true);
@@ -195,6 +287,24 @@ export const GalleryManager: React.FC = () => {
     }
   };
 
+  const showFilter = (filter: 'all' | 'selected' | 'round' | 'list') => {
+      setViewFilter(filter);
+      if (filter !== 'round') setViewingRound(null);
+      if (filter !== 'list') setViewingListId(null);
+  };
+
+  const viewSelectionRound = (round: SelectionRound) => {
+      setViewingRound(round);
+      setViewingListId(null);
+      setViewFilter('round');
+  };
+
+  const viewFavoriteList = (list: FavoriteList) => {
+      setViewingListId(list.id);
+      setViewingRound(null);
+      setViewFilter('list');
+  };
+
   const toggleSelectionMode = async () => {
       if (!gallery) return;
       
@@ -212,6 +322,46 @@ export const GalleryManager: React.FC = () => {
       }
   };
 
+  const savePassword = async (password: string | null) => {
+      if (!gallery) return;
+      if (password === null && !confirm('Remove the password? Anyone with the link will be able to open the gallery.')) return;
+
+      setSavingPassword(true);
+      try {
+          await setGalleryPassword(gallery.id, password);
+
+          await supabase.from('activity_logs').insert({
+            gallery_id: gallery.id,
+            action: password ? 'Gallery password set' : 'Gallery password removed'
+          });
+
+          setGallery({ ...gallery, password_protected: !!password });
+          setPasswordDraft('');
+          setEditingPassword(false);
+      } catch (error) {
+          console.error('Error updating gallery password:', error);
+          alert('Failed to update password');
+      } finally {
+          setSavingPassword(false);
+      }
+  };
+
+  const toggleStripLocation = async () => {
+      if (!gallery) return;
+
+      try {
+          const newStatus = !(gallery.strip_location ?? true);
+          await supabase
+            .from('galleries')
+            .update({ strip_location: newStatus })
+            .eq('id', gallery.id);
+
+          setGallery({ ...gallery, strip_location: newStatus });
+      } catch (error) {
+          console.error(error);
+      }
+  };
+
   const handleCopyLink = async () => {
     if (!gallery) return;
     const url = `${window.location.origin}/#/g/${gallery.id}`;
@@ -224,16 +374,118 @@ export const GalleryManager: React.FC = () => {
     }
   };
 
-  const deleteFile = async (fileId: string, filePath: string) => {
+  const saveCaption = async (file: GalleryFile, value: string) => {
+    const caption = value.trim() || null;
+    if (caption === (file.caption || null)) return;
+
+    try {
+      const { error } = await supabase
+        .from('files')
+        .update({ caption })
+        .eq('id', file.id);
+
+      if (error) throw error;
+      setFiles(prev => prev.map(f => f.id === file.id ? { ...f, caption } : f));
+    } catch (error) {
+      console.error(error);
+      alert('Failed to save caption');
+    }
+  };
+
+  const toggleChecked = (fileId: string) => {
+    const next = new Set(checkedFileIds);
+    if (next.has(fileId)) next.delete(fileId);
+    else next.add(fileId);
+    setCheckedFileIds(next);
+  };
+
+  // Moves the checked files to a section (or out of all sections); they join the end of it
+  const assignSection = async (sectionId: string | null) => {
+    if (checkedFileIds.size === 0) return;
+    const ids = Array.from(checkedFileIds);
+
+    try {
+      const { error } = await supabase
+        .from('files')
+        .update({ section_id: sectionId, position: null })
+        .in('id', ids);
+
+      if (error) throw error;
+      setFiles(prev => prev.map(f => checkedFileIds.has(f.id) ? { ...f, section_id: sectionId, position: null } : f));
+      setCheckedFileIds(new Set());
+    } catch (error) {
+      console.error('Error assigning section:', error);
+      alert('Failed to move files');
+    }
+  };
+
+  const moveFile = async (groupFiles: GalleryFile[], from: number, to: number) => {
+    const reordered = moveItem(groupFiles, from, to);
+    if (reordered === groupFiles) return;
+
+    const positions = new Map(reordered.map((file, position) => [file.id, position]));
+    setFiles(prev => prev.map(f => positions.has(f.id) ? { ...f, position: positions.get(f.id)! } : f));
+
+    try {
+      await saveFileOrder(reordered.map(file => file.id));
+    } catch (error) {
+      console.error('Error reordering files:', error);
+      fetchGalleryData();
+    }
+  };
+
+  const handleDrop = (groupFiles: GalleryFile[], targetIndex: number) => {
+    const from = groupFiles.findIndex(f => f.id === draggedFileId);
+    setDraggedFileId(null);
+    // Files can only be dragged within their own section
+    if (from === -1) return;
+    moveFile(groupFiles, from, targetIndex);
+  };
+
+  const updateSortMode = async (sortMode: SortMode) => {
+    if (!gallery) return;
+
+    try {
+      const { error } = await supabase
+        .from('galleries')
+        .update({ sort_mode: sortMode })
+        .eq('id', gallery.id);
+
+      if (error) throw error;
+      setGallery({ ...gallery, sort_mode: sortMode });
+    } catch (error) {
+      console.error(error);
+      alert('Failed to update sort order');
+    }
+  };
+
+  // Per-file expiry. Overrides survive the gallery policy being re-applied; clearing one puts the file back on the policy.
+  const setFileExpiry = async (file: GalleryFile, expiresAt: string | null, override: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('files')
+        .update({ expires_at: expiresAt, expiry_override: override })
+        .eq('id', file.id);
+
+      if (error) throw error;
+      setFiles(prev => prev.map(f => f.id === file.id ? { ...f, expires_at: expiresAt, expiry_override: override } : f));
+      setEditingExpiryFileId(null);
+    } catch (error) {
+      console.error('Error updating file expiry:', error);
+      alert('Failed to update expiration.');
+    }
+  };
+
+  const deleteFile = async (file: GalleryFile) => {
     if (!confirm('Delete this file permanently?')) return;
 
     try {
-      // Delete from storage
-      await supabase.storage.from('gallery-files').remove([filePath]);
+      // Delete original and derivatives from storage
+      await supabase.storage.from('gallery-files').remove(getStoragePaths(file));
       // Delete from DB
-      await supabase.from('files').delete().eq('id', fileId);
+      await supabase.from('files').delete().eq('id', file.id);
       
-      setFiles(files.filter(f => f.id !== fileId));
+      setFiles(files.filter(f => f.id !== file.id));
     } catch (error) {
       console.error(error);
     }
@@ -241,13 +493,39 @@ export const GalleryManager: React.FC = () => {
 
   if (!gallery) return <div className="p-8">Loading...</div>;
 
+  const paid = gallery.amount_paid || 0;
   const remainingBalance = Math.max(0, agreedAmount - paid);
+  const currencySymbol = getCurrencySymbol(gallery.currency, locale);
   const isVolunteer = agreedAmount === 0;
 
+  const commentThreads = groupCommentsByFile(comments);
+  const openCommentCount = countOpenComments(comments);
+  const commentFile = commentFileId ? files.find(f => f.id === commentFileId) : undefined;
+
   // Filter files based on view
+  const roundFileIds = new Set(viewingRound?.file_ids);
+  const viewingList = favoriteLists.find(list => list.id === viewingListId);
+  const listFileIds = new Set(viewingList?.file_ids);
+  const selectedFileIds = pickFilter ? filterPicks(reviewerPicks, reviewers, pickFilter) : clientSelections;
+  const reviewerNames = new Map(reviewers.map(reviewer => [reviewer.id, reviewer.name]));
   const visibleFiles = viewFilter === 'selected' 
-     ? files.filter(f => clientSelections.has(f.id))
-     : files;
+     ? files.filter(f => selectedFileIds.has(f.id))
+     : viewFilter === 'round'
+        ? files.filter(f => roundFileIds.has(f.id))
+        : viewFilter === 'list'
+           ? files.filter(f => listFileIds.has(f.id))
+           : files;
+
+  const sortMode = gallery.sort_mode || 'custom';
+  const visibleGroups = groupFilesBySection(visibleFiles, sections, sortMode)
+     .filter(group => viewFilter === 'all' || group.files.length > 0);
+  // Manual arranging only makes sense when the full list is shown in custom order
+  const canReorder = viewFilter === 'all' && sortMode === 'custom';
+
+  const sectionFileCounts = files.reduce<Record<string, number>>((acc, f) => {
+     if (f.section_id) acc[f.section_id] = (acc[f.section_id] || 0) + 1;
+     return acc;
+  }, {});
 
   return (
     <div className="space-y-6 md:space-y-8 pb-10">
@@ -320,7 +598,7 @@ export const GalleryManager: React.FC = () => {
                   </div>
               </div>
               <button 
-                onClick={() => setViewFilter('selected')}
+                onClick={() => showFilter('selected')}
                 className="text-sm font-medium text-rose-700 hover:text-rose-900 underline"
               >
                   View Selection
@@ -343,28 +621,58 @@ export const GalleryManager: React.FC = () => {
                     Total Agreed Amount
                     <span className="text-xs font-normal text-slate-400 ml-2">(Set 0 for volunteer)</span>
                 </label>
-                <div className="relative">
-                    <span className="absolute left-3 top-2 text-slate-400">KES</span>
+                <div className="flex gap-2">
+                    {/* Ledger entries are in the gallery's currency, so it's fixed once money has come in */}
+                    <select
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    disabled={paid !== 0}
+                    title={paid !== 0 ? 'Void or refund recorded payments to change the currency' : 'Currency'}
+                    className="px-2 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none disabled:bg-slate-100 disabled:text-slate-500"
+                    >
+                    {!CURRENCY_OPTIONS.some(option => option.code === currency) && <option value={currency}>{currency}</option>}
+                    {CURRENCY_OPTIONS.map(option => (
+                        <option key={option.code} value={option.code}>{option.code}</option>
+                    ))}
+                    </select>
                     <input 
                     type="number" 
                     value={agreedAmount}
                     onChange={(e) => setAgreedAmount(Number(e.target.value))}
-                    className="w-full pl-12 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+                    className="flex-1 min-w-0 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
                     placeholder="Total amount"
                     />
                 </div>
+                {gallery.extras_count > 0 && (
+                  <div className="mt-2 p-3 bg-slate-50 rounded-lg border border-slate-100 text-xs text-slate-600 space-y-1">
+                    <div className="flex justify-between">
+                      <span>Package</span>
+                      <span>{formatCurrency(getPackageAmount(gallery), gallery.currency, locale)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Extras ({gallery.extras_count} × {formatCurrency(gallery.extra_price, gallery.currency, locale)})</span>
+                      <span>{formatCurrency(gallery.extras_amount, gallery.currency, locale)}</span>
+                    </div>
+                    <div className="flex justify-between font-medium text-slate-900 pt-1 border-t border-slate-200">
+                      <span>Total agreed</span>
+                      <span>{formatCurrency(gallery.agreed_balance, gallery.currency, locale)}</span>
+                    </div>
+                  </div>
+                )}
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Amount Paid</label>
-                <div className="relative">
-                    <span className="absolute left-3 top-2 text-slate-400">KES</span>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Amount Paid
+                    <span className="text-xs font-normal text-slate-400 ml-2">(From payment history)</span>
+                </label>
+                <div className="relative bg-slate-50 rounded-lg">
+                    <span className="absolute left-3 top-2 text-slate-400">{currencySymbol}</span>
                     <input 
-                    type="number" 
-                    value={paid}
-                    onChange={(e) => setPaid(Number(e.target.value))}
-                    className="w-full pl-12 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
-                    placeholder="Amount received"
+                    type="text" 
+                    value={formatAmount(paid, gallery.currency, locale)}
+                    disabled
+                    className="w-full pl-12 pr-4 py-2 border border-slate-300 bg-slate-100 text-slate-500 rounded-lg outline-none cursor-not-allowed"
                     />
                 </div>
               </div>
@@ -372,10 +680,10 @@ export const GalleryManager: React.FC = () => {
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Remaining Balance</label>
                 <div className="relative bg-slate-50 rounded-lg">
-                    <span className="absolute left-3 top-2 text-slate-400">KES</span>
+                    <span className="absolute left-3 top-2 text-slate-400">{currencySymbol}</span>
                     <input 
                     type="text" 
-                    value={formatCurrency(remainingBalance).replace('KES', '').trim()}
+                    value={formatAmount(remainingBalance, gallery.currency, locale)}
                     disabled
                     className="w-full pl-12 pr-4 py-2 border border-slate-300 bg-slate-100 text-slate-500 rounded-lg outline-none cursor-not-allowed"
                     />
@@ -415,13 +723,56 @@ export const GalleryManager: React.FC = () => {
                 ) : (
                   <>
                     <Save className="w-4 h-4" />
-                    <span>Update Payment</span>
+                    <span>Update Agreed Amount</span>
                   </>
                 )}
               </button>
+
+              {!isVolunteer && (
+                <div className="pt-4 border-t border-slate-100">
+                  <p className="text-xs text-slate-500 mb-2">
+                    {gallery.invoice_number
+                      ? <>Invoice <span className="font-mono">{gallery.invoice_number}</span>. PDFs always show the latest amounts.</>
+                      : 'The next invoice number is assigned the first time you or your client download one.'}
+                  </p>
+                  <InvoiceButtons galleryId={gallery.id} onGenerated={gallery.invoice_number ? undefined : fetchGalleryData} />
+                </div>
+              )}
             </div>
           </div>
 
+          <PaymentLedgerCard gallery={gallery} locale={locale} onUpdated={fetchGalleryData} />
+
+          <PackageCard gallery={gallery} locale={locale} onUpdated={fetchGalleryData} />
+
+          {(gallery.selection_enabled || gallery.selection_status !== 'pending' || gallery.selection_round > 1) && (
+            <SelectionWorkflowCard
+              gallery={gallery}
+              selectedCount={clientSelections.size}
+              viewingRound={viewFilter === 'round' ? viewingRound?.round ?? null : null}
+              onViewRound={viewSelectionRound}
+              onUpdated={fetchGalleryData}
+            />
+          )}
+
+          {selectedFileIds.size > 0 && (
+            <SelectionExportCard
+              gallery={gallery}
+              files={files.filter(f => selectedFileIds.has(f.id))}
+              comments={comments}
+              reviewerNames={reviewerNames}
+            />
+          )}
+
+          {favoriteLists.length > 0 && (
+            <FavoriteListsCard
+              lists={favoriteLists}
+              reviewerNames={reviewerNames}
+              viewingListId={viewFilter === 'list' ? viewingListId : null}
+              onViewList={viewFavoriteList}
+            />
+          )}
+
           {/* Settings Card */}
           <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
              <h2 className="text-lg font-semibold mb-4">Gallery Settings</h2>
@@ -441,8 +792,111 @@ export const GalleryManager: React.FC = () => {
                      <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${gallery.selection_enabled ? 'translate-x-5' : ''}`}></div>
                  </button>
              </div>
+
+             {/* Location Stripping Toggle */}
+             <div className="flex items-center justify-between mt-4 pt-4 border-t border-slate-100">
+                 <div>
+                     <p className="font-medium text-slate-900">Remove Location Data</p>
+                     <p className="text-xs text-slate-500 max-w-[200px]">
+                         Strips GPS coordinates from photos uploaded from now on.
+                     </p>
+                 </div>
+                 <button
+                    onClick={toggleStripLocation}
+                    className={`w-11 h-6 rounded-full transition-colors relative flex-shrink-0 ${(gallery.strip_location ?? true) ? 'bg-emerald-500' : 'bg-slate-300'}`}
+                 >
+                     <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${(gallery.strip_location ?? true) ? 'translate-x-5' : ''}`}></div>
+                 </button>
+             </div>
+
+             {/* Password Protection */}
+             <div className="mt-4 pt-4 border-t border-slate-100">
+                 <div className="flex items-center justify-between">
+                     <div>
+                         <p className="font-medium text-slate-900">Password Protection</p>
+                         <p className="text-xs text-slate-500 max-w-[200px]">
+                             {gallery.password_protected
+                               ? 'Clients must enter the password to open this gallery.'
+                               : 'Anyone with the link can open this gallery.'}
+                         </p>
+                     </div>
+                     {!editingPassword && (
+                         <button
+                            onClick={() => setEditingPassword(true)}
+                            className="text-xs font-medium text-emerald-600 hover:text-emerald-700 flex-shrink-0"
+                         >
+                             {gallery.password_protected ? 'Change' : 'Set Password'}
+                         </button>
+                     )}
+                 </div>
+
+                 {editingPassword && (
+                     <form
+                        onSubmit={(e) => { e.preventDefault(); if (passwordDraft.trim()) savePassword(passwordDraft.trim()); }}
+                        className="mt-3 space-y-2"
+                     >
+                         <input
+                            type="text"
+                            value={passwordDraft}
+                            onChange={(e) => setPasswordDraft(e.target.value)}
+                            placeholder="Password or PIN"
+                            autoFocus
+                            className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+                         />
+                         <div className="flex gap-2">
+                             <button
+                                type="submit"
+                                disabled={savingPassword || !passwordDraft.trim()}
+                                className="flex-1 py-2 rounded-lg bg-slate-900 text-white hover:bg-slate-800 text-sm font-medium flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+                             >
+                                 {savingPassword && <Loader2 className="w-4 h-4 animate-spin" />}
+                                 Save
+                             </button>
+                             {gallery.password_protected && (
+                                 <button
+                                    type="button"
+                                    onClick={() => savePassword(null)}
+                                    disabled={savingPassword}
+                                    className="px-3 py-2 rounded-lg border border-red-200 text-red-600 hover:bg-red-50 text-sm font-medium disabled:opacity-50"
+                                 >
+                                     Remove
+                                 </button>
+                             )}
+                             <button
+                                type="button"
+                                onClick={() => { setEditingPassword(false); setPasswordDraft(''); }}
+                                className="px-3 py-2 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm font-medium"
+                             >
+                                 Cancel
+                             </button>
+                         </div>
+                     </form>
+                 )}
+             </div>
           </div>
 
+          <ExpiryCard
+            gallery={gallery}
+            fileCount={files.length}
+            nextExpiry={getNextExpiry(files.filter(f => !f.expires_at || Date.parse(f.expires_at) > Date.now()))}
+            onUpdated={fetchGalleryData}
+          />
+
+          <WatermarkCard
+            gallery={gallery}
+            files={files}
+            accountWatermark={accountWatermark}
+            onUpdated={fetchGalleryData}
+          />
+
+          <SectionsCard
+            galleryId={gallery.id}
+            sections={sections}
+            fileCounts={sectionFileCounts}
+            onChange={setSections}
+            onDeleted={fetchGalleryData}
+          />
+
           {/* Stats Card */}
           <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
             <h2 className="text-lg font-semibold mb-4">Gallery Stats</h2>
@@ -455,6 +909,10 @@ export const GalleryManager: React.FC = () => {
                     <span>Selected by Client</span>
                     <span className="font-medium text-rose-700 bg-rose-50 px-2 py-0.5 rounded-full">{clientSelections.size}</span>
                 </div>
+                <div className="flex justify-between items-center border-b border-slate-100 pb-2">
+                    <span>Unresolved Comments</span>
+                    <span className={`font-medium px-2 py-0.5 rounded-full ${openCommentCount > 0 ? 'text-amber-800 bg-amber-100' : 'text-slate-900 bg-slate-100'}`}>{openCommentCount}</span>
+                </div>
                 <div className="flex justify-between items-center">
                     <span>Total Downloads</span>
                     <span className="font-medium text-slate-900 bg-slate-100 px-2 py-0.5 rounded-full">{files.reduce((acc, curr) => acc + curr.download_count, 0)}</span>
@@ -472,60 +930,82 @@ export const GalleryManager: React.FC = () => {
                         {/* Filter Tabs */}
                         <div className="bg-slate-100 p-1 rounded-lg flex text-xs font-medium">
                             <button 
-                                onClick={() => setViewFilter('all')}
+                                onClick={() => showFilter('all')}
                                 className={`px-3 py-1 rounded-md transition-all ${viewFilter === 'all' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
                             >
                                 All ({files.length})
                             </button>
                             <button 
-                                onClick={() => setViewFilter('selected')}
+                                onClick={() => showFilter('selected')}
                                 className={`px-3 py-1 rounded-md transition-all flex items-center gap-1 ${viewFilter === 'selected' ? 'bg-white shadow-sm text-rose-600' : 'text-slate-500 hover:text-rose-600'}`}
                             >
                                 <Heart className="w-3 h-3" />
                                 Selected ({clientSelections.size})
                             </button>
-                        </div>
-                    </div>
-
-                    <div className="flex flex-col sm:flex-row flex-wrap items-stretch sm:items-center gap-3">
-                        <div className="flex items-center gap-2 bg-slate-50 px-3 py-2.5 rounded-lg border border-slate-200 flex-1 sm:flex-none">
-                           <Clock className="w-4 h-4 text-slate-500 shrink-0" />
-                           <select 
-                             value={expiryHours}
-                             onChange={(e) => setExpiryHours(Number(e.target.value))}
-                             className="bg-transparent text-sm text-slate-700 outline-none cursor-pointer w-full sm:w-auto"
-                             title="Content Expiration"
-                             disabled={uploading}
-                           >
-                             <option value={0.5}>30 Minutes</option>
-                             <option value={1}>1 Hour</option>
-                             <option value={2}>2 Hours</option>
-                             <option value={3}>3 Hours</option>
-                             <option value={6}>6 Hours</option>
-                             <option value={12}>12 Hours</option>
-                             <option value={24}>24 Hours</option>
-                             <option value={48}>48 Hours</option>
-                             <option value={72}>3 Days</option>
-                             <option value={168}>1 Week</option>
-                           </select>
-
-                           {files.length > 0 && (
-                            <>
-                                <div className="w-px h-4 bg-slate-300 mx-1"></div>
-                                <button
-                                    onClick={handleExtendExpiration}
-                                    disabled={uploading}
-                                    className="text-slate-400 hover:text-emerald-600 transition-colors p-1 rounded-md hover:bg-emerald-50"
-                                    title="Apply this duration to all existing files (Reactivate expired)"
+                            {viewingRound && (
+                                <button 
+                                    onClick={() => showFilter('round')}
+                                    className={`px-3 py-1 rounded-md transition-all flex items-center gap-1 ${viewFilter === 'round' ? 'bg-white shadow-sm text-rose-600' : 'text-slate-500 hover:text-rose-600'}`}
                                 >
-                                    <RefreshCw className="w-4 h-4" />
+                                    Round {viewingRound.round} ({viewingRound.file_ids.length})
                                 </button>
-                            </>
-                           )}
+                            )}
+                            {viewingList && (
+                                <button 
+                                    onClick={() => showFilter('list')}
+                                    className={`px-3 py-1 rounded-md transition-all flex items-center gap-1 max-w-[10rem] ${viewFilter === 'list' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`}
+                                >
+                                    <span className="truncate">{viewingList.name}</span> ({viewingList.file_ids.length})
+                                </button>
+                            )}
                         </div>
-                        
-                        <div className="h-6 w-px bg-slate-300 hidden sm:block"></div>
+                        {viewFilter === 'selected' && reviewers.length > 0 && (
+                            <div className="flex items-center gap-1 text-xs text-slate-500">
+                                <Users className="w-3.5 h-3.5" />
+                                <select
+                                    value={pickFilter ?? ''}
+                                    onChange={(e) => setPickFilter(e.target.value || null)}
+                                    className="bg-transparent outline-none cursor-pointer font-medium text-slate-700"
+                                >
+                                    <option value="">{gallery.selection_status === 'pending' ? 'All favorites' : 'Submitted list'}</option>
+                                    <option value="anyone">Picked by anyone</option>
+                                    {reviewers.length > 1 && (
+                                        <option value="everyone">{reviewers.length === 2 ? 'Picked by both' : 'Picked by everyone'}</option>
+                                    )}
+                                    {reviewers.map(reviewer => (
+                                        <option key={reviewer.id} value={reviewer.id}>
+                                            {reviewer.name} ({reviewerPicks.get(reviewer.id)?.size || 0})
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        {files.length > 1 && (
+                            <div className="flex items-center gap-1 text-xs text-slate-500" title="Default order for the client gallery">
+                                <ArrowUpDown className="w-3.5 h-3.5" />
+                                <select
+                                    value={sortMode}
+                                    onChange={(e) => updateSortMode(e.target.value as SortMode)}
+                                    className="bg-transparent outline-none cursor-pointer font-medium text-slate-700"
+                                >
+                                    {(Object.keys(SORT_MODE_LABELS) as SortMode[]).map(mode => (
+                                        <option key={mode} value={mode}>{SORT_MODE_LABELS[mode]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        {files.length > 1 && (
+                            <button
+                                onClick={() => setShowDuplicates(true)}
+                                className="text-slate-400 hover:text-slate-700 p-1.5 rounded-md hover:bg-slate-100 transition-colors"
+                                title="Find duplicates"
+                            >
+                                <Layers className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
 
+                    <div className="flex flex-col sm:flex-row flex-wrap items-stretch sm:items-center gap-3">
                         <input
                             type="file"
                             multiple
@@ -535,7 +1015,7 @@ export const GalleryManager: React.FC = () => {
                             accept="image/*,video/*"
                         />
                         
-                        {isUploadingThisGallery ? (
+                        {isUploadingThisGallery && (
                           <div className="flex items-center gap-3 bg-slate-50 px-4 py-2 rounded-lg border border-slate-200 flex-1 sm:flex-none">
                              <div className="flex flex-col w-full sm:w-32">
                                 <div className="flex justify-between text-xs mb-1">
@@ -550,19 +1030,53 @@ export const GalleryManager: React.FC = () => {
                                 </div>
                              </div>
                           </div>
-                        ) : (
-                          <button 
-                              onClick={() => fileInputRef.current?.click()}
-                              disabled={uploading} 
-                              className={`bg-emerald-600 text-white px-4 py-2.5 rounded-lg hover:bg-emerald-700 flex justify-center items-center gap-2 font-medium transition-colors shadow-sm ${uploading ? 'opacity-50 cursor-not-allowed' : ''}`}
-                          >
-                              <Upload className="w-4 h-4" />
-                              <span>Upload Files</span>
-                          </button>
                         )}
+
+                        {/* More batches can be queued while earlier ones are still uploading */}
+                        <button 
+                            onClick={() => fileInputRef.current?.click()}
+                            className="bg-emerald-600 text-white px-4 py-2.5 rounded-lg hover:bg-emerald-700 flex justify-center items-center gap-2 font-medium transition-colors shadow-sm"
+                        >
+                            <Upload className="w-4 h-4" />
+                            <span>{isUploadingThisGallery ? 'Add Files' : 'Upload Files'}</span>
+                        </button>
                     </div>
                 </div>
 
+                {/* Per-file upload progress with pause / resume / cancel */}
+                {galleryUploads.length > 0 && (
+                    <div className="px-4 md:px-6 py-2 border-b border-slate-200 bg-slate-50 divide-y divide-slate-100">
+                        {galleryUploads.map(item => (
+                            <UploadItemRow key={item.id} item={item} />
+                        ))}
+                    </div>
+                )}
+
+                {/* Bulk section assignment */}
+                {checkedFileIds.size > 0 && (
+                    <div className="px-4 md:px-6 py-3 border-b border-slate-200 bg-emerald-50 flex flex-wrap items-center gap-3 text-sm">
+                        <span className="font-medium text-emerald-900">{checkedFileIds.size} selected</span>
+                        <select
+                            value=""
+                            onChange={(e) => assignSection(e.target.value === 'none' ? null : e.target.value)}
+                            className="px-2 py-1.5 border border-emerald-200 rounded-md bg-white text-slate-700 outline-none"
+                        >
+                            <option value="" disabled>Move to section...</option>
+                            {sections.map(section => (
+                                <option key={section.id} value={section.id}>{section.name}</option>
+                            ))}
+                            <option value="none">No section</option>
+                        </select>
+                        <button
+                            onClick={() => setCheckedFileIds(new Set())}
+                            className="ml-auto text-emerald-700 hover:text-emerald-900 flex items-center gap-1"
+                        >
+                            <X className="w-4 h-4" />
+                            Clear
+                        </button>
+                    </div>
+                )}
+
                 {visibleFiles.length === 0 ? (
                     <div className="p-12 text-center text-slate-500">
                         {viewFilter === 'selected' ? (
@@ -570,37 +1084,82 @@ export const GalleryManager: React.FC = () => {
                                 <Heart className="w-12 h-12 mx-auto mb-4 text-slate-300" />
                                 <p>No files selected by the client yet.</p>
                             </>
+                        ) : viewFilter === 'round' ? (
+                            <>
+                                <Heart className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+                                <p>None of the photos picked in round {viewingRound?.round} are still in the gallery.</p>
+                            </>
+                        ) : viewFilter === 'list' ? (
+                            <>
+                                <ListChecks className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+                                <p>The client hasn't added any photos to "{viewingList?.name}" yet.</p>
+                            </>
                         ) : (
                             <>
                                 <Upload className="w-12 h-12 mx-auto mb-4 text-slate-300" />
-                                <p>No files uploaded yet. Select an expiration time above and upload.</p>
+                                <p>No files uploaded yet. Set how long files stay available under Expiration, then upload.</p>
                             </>
                         )}
                     </div>
                 ) : (
                     <div className="divide-y divide-slate-100">
-                        {visibleFiles.map((file) => {
-                            const isExpired = new Date(file.expires_at) < new Date();
+                        {visibleGroups.map((group) => (
+                        <React.Fragment key={group.section?.id || 'unassigned'}>
+                        {sections.length > 0 && (
+                            <div className="px-4 py-2 bg-slate-50 flex items-center justify-between text-xs font-semibold uppercase tracking-wider text-slate-500">
+                                <span>{group.section?.name || 'No Section'}</span>
+                                <span className="font-normal normal-case tracking-normal">{group.files.length} files</span>
+                            </div>
+                        )}
+                        {group.files.map((file, index) => {
+                            const isExpired = !!file.expires_at && new Date(file.expires_at) < new Date();
                             const isSelected = clientSelections.has(file.id);
+                            const thread = commentThreads.get(file.id);
+                            const pickedBy = reviewers.filter(reviewer => reviewerPicks.get(reviewer.id)?.has(file.id));
+                            const openComments = countOpenComments(thread);
                             return (
-                                <div key={file.id} className={`p-4 flex items-center justify-between hover:bg-slate-50 transition-colors ${isSelected ? 'bg-rose-50/50' : ''}`}>
+                                <div
+                                    key={file.id}
+                                    draggable={canReorder && group.files.length > 1}
+                                    onDragStart={() => setDraggedFileId(file.id)}
+                                    onDragEnd={() => setDraggedFileId(null)}
+                                    onDragOver={(e) => draggedFileId && e.preventDefault()}
+                                    onDrop={() => handleDrop(group.files, index)}
+                                    className={`p-4 flex items-center justify-between hover:bg-slate-50 transition-colors ${isSelected ? 'bg-rose-50/50' : ''} ${draggedFileId === file.id ? 'opacity-40' : ''}`}
+                                >
                                     <div className="flex items-center gap-3 md:gap-4 overflow-hidden">
+                                        {canReorder && group.files.length > 1 && (
+                                            <GripVertical className="hidden md:block w-4 h-4 text-slate-300 shrink-0 cursor-grab" />
+                                        )}
+                                        <input
+                                            type="checkbox"
+                                            checked={checkedFileIds.has(file.id)}
+                                            onChange={() => toggleChecked(file.id)}
+                                            className="w-4 h-4 accent-emerald-600 shrink-0 cursor-pointer"
+                                        />
                                         <div className="relative w-14 h-14 md:w-16 md:h-16 bg-slate-100 rounded-lg overflow-hidden flex-shrink-0 border border-slate-200">
                                             {file.file_type === 'image' ? (
                                                 <img 
-                                                  src={getOptimizedImageUrl(file.file_url, 100, 100)} 
+                                                  src={getThumbnailUrl(file)} 
                                                   alt="Thumbnail" 
                                                   className="w-full h-full object-cover" 
-                                                  onError={(e) => {
-                                                    const target = e.target as HTMLImageElement;
-                                                    if (target.src !== file.file_url) target.src = file.file_url;
-                                                  }}
+                                                />
+                                            ) : file.poster_path ? (
+                                                <img 
+                                                  src={getPosterUrl(file)} 
+                                                  alt="Video poster" 
+                                                  className="w-full h-full object-cover" 
                                                 />
                                             ) : (
                                                 <div className="w-full h-full flex items-center justify-center text-slate-400 bg-slate-50">
                                                     <span className="text-xs">Video</span>
                                                 </div>
                                             )}
+                                            {file.file_type === 'video' && file.duration ? (
+                                                <span className="absolute bottom-1 right-1 bg-black/70 text-white text-[10px] font-medium px-1 rounded">
+                                                    {formatDuration(file.duration)}
+                                                </span>
+                                            ) : null}
                                             {isSelected && (
                                                 <div className="absolute inset-0 bg-rose-500/20 flex items-center justify-center">
                                                     <Heart className="w-6 h-6 text-rose-600 fill-rose-600" />
@@ -609,13 +1168,86 @@ export const GalleryManager: React.FC = () => {
                                         </div>
                                         <div className="min-w-0 flex-1">
                                             <p className="text-sm font-medium text-slate-900 truncate flex items-center gap-2">
-                                                {file.file_path.split('/').pop()}
+                                                <span className="truncate">{getDownloadName(file)}</span>
                                                 {isSelected && <span className="text-[10px] bg-rose-100 text-rose-700 px-1.5 py-0.5 rounded font-bold">SELECTED</span>}
+                                                {pickedBy.length > 0 && (
+                                                    <span className="flex -space-x-1 shrink-0" title={`Picked by ${pickedBy.map(reviewer => reviewer.name).join(', ')}`}>
+                                                        {pickedBy.map(reviewer => (
+                                                            <span key={reviewer.id} className="w-5 h-5 rounded-full bg-rose-500 text-white text-[9px] font-bold flex items-center justify-center ring-2 ring-white">
+                                                                {getInitials(reviewer.name)}
+                                                            </span>
+                                                        ))}
+                                                    </span>
+                                                )}
+                                                {thread && (
+                                                    <button
+                                                        onClick={() => setCommentFileId(file.id)}
+                                                        className={`text-[10px] px-1.5 py-0.5 rounded font-bold flex items-center gap-1 shrink-0 ${openComments > 0 ? 'bg-amber-100 text-amber-800 hover:bg-amber-200' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                                                        title={openComments > 0 ? `${openComments} unresolved` : 'All resolved'}
+                                                    >
+                                                        <MessageSquare className="w-3 h-3" />
+                                                        {openComments > 0 ? openComments : thread.length}
+                                                    </button>
+                                                )}
                                             </p>
-                                            <p className="text-xs text-slate-500 mt-0.5">Uploaded: {formatDate(file.created_at)}</p>
-                                            <p className={`text-xs mt-0.5 truncate ${isExpired ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
-                                                {isExpired ? 'Expired: ' : 'Expires: '} {formatDate(file.expires_at)}
+                                            <p className="text-xs text-slate-500 mt-0.5 truncate">
+                                                {[
+                                                    file.size_bytes ? formatFileSize(file.size_bytes) : null,
+                                                    file.width && file.height ? `${file.width} × ${file.height}` : null,
+                                                    file.captured_at ? `Taken ${formatDate(file.captured_at)}` : `Uploaded: ${formatDate(file.created_at)}`,
+                                                ].filter(Boolean).join(' • ')}
                                             </p>
+                                            {editingExpiryFileId === file.id ? (
+                                                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                                                    <input
+                                                        type="datetime-local"
+                                                        value={expiryDraft}
+                                                        onChange={(e) => setExpiryDraft(e.target.value)}
+                                                        className="px-2 py-1 border border-slate-300 rounded-md outline-none focus:border-emerald-500"
+                                                    />
+                                                    <button
+                                                        onClick={() => expiryDraft && setFileExpiry(file, new Date(expiryDraft).toISOString(), true)}
+                                                        disabled={!expiryDraft}
+                                                        className="font-medium text-emerald-700 hover:text-emerald-900 disabled:opacity-40"
+                                                    >
+                                                        Save
+                                                    </button>
+                                                    <button onClick={() => setFileExpiry(file, null, true)} className="text-slate-600 hover:text-slate-900">
+                                                        Never
+                                                    </button>
+                                                    {file.expiry_override && (
+                                                        <button
+                                                            onClick={() => setFileExpiry(file, computeExpiry(getExpiryPolicy(gallery)), false)}
+                                                            className="text-slate-600 hover:text-slate-900"
+                                                        >
+                                                            Use gallery setting
+                                                        </button>
+                                                    )}
+                                                    <button onClick={() => setEditingExpiryFileId(null)} className="text-slate-400 hover:text-slate-600">
+                                                        Cancel
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <button
+                                                    onClick={() => {
+                                                        setEditingExpiryFileId(file.id);
+                                                        setExpiryDraft(toLocalInputValue(file.expires_at));
+                                                    }}
+                                                    className={`block text-left text-xs mt-0.5 truncate hover:underline ${isExpired ? 'text-red-600 font-bold' : isExpiringSoon(file.expires_at) ? 'text-amber-600 font-medium' : 'text-slate-500'}`}
+                                                    title="Set a custom expiry for this file"
+                                                >
+                                                    {file.expires_at ? <>{isExpired ? 'Expired: ' : 'Expires: '} {formatDate(file.expires_at)}</> : 'Never expires'}
+                                                    {file.expiry_override && <span className="ml-1 text-slate-400 font-normal">(custom)</span>}
+                                                </button>
+                                            )}
+                                            <input
+                                                type="text"
+                                                defaultValue={file.caption || ''}
+                                                placeholder="Add a caption..."
+                                                onBlur={(e) => saveCaption(file, e.target.value)}
+                                                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                                className="mt-1 w-full max-w-sm text-xs text-slate-700 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-emerald-500 focus:outline-none py-0.5 placeholder:text-slate-300"
+                                            />
                                         </div>
                                     </div>
                                     <div className="flex items-center gap-1 md:gap-3 pl-2">
@@ -623,11 +1255,29 @@ export const GalleryManager: React.FC = () => {
                                             <Download className="w-3 h-3" />
                                             {file.download_count}
                                         </div>
-                                        <a href={file.file_url} target="_blank" rel="noreferrer" className="p-2 text-slate-400 hover:text-emerald-600 rounded-full hover:bg-emerald-50 transition-colors">
+                                        {canReorder && group.files.length > 1 && (
+                                            <div className="flex flex-col">
+                                                <button
+                                                    onClick={() => moveFile(group.files, index, index - 1)}
+                                                    disabled={index === 0}
+                                                    className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                                                >
+                                                    <ChevronUp className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => moveFile(group.files, index, index + 1)}
+                                                    disabled={index === group.files.length - 1}
+                                                    className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                                                >
+                                                    <ChevronDown className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        )}
+                                        <a href={getOriginalUrl(file)} target="_blank" rel="noreferrer" className="p-2 text-slate-400 hover:text-emerald-600 rounded-full hover:bg-emerald-50 transition-colors">
                                             <Eye className="w-5 h-5 md:w-4 md:h-4" />
                                         </a>
                                         <button 
-                                            onClick={() => deleteFile(file.id, file.file_path)}
+                                            onClick={() => deleteFile(file)}
                                             className="p-2 text-slate-400 hover:text-red-600 rounded-full hover:bg-red-50 transition-colors"
                                         >
                                             <Trash2 className="w-5 h-5 md:w-4 md:h-4" />
@@ -636,11 +1286,46 @@ export const GalleryManager: React.FC = () => {
                                 </div>
                             );
                         })}
+                        </React.Fragment>
+                        ))}
                     </div>
                 )}
             </div>
         </div>
       </div>
+
+      {showDuplicates && (
+        <DuplicatesModal
+          galleryId={gallery.id}
+          files={files}
+          selectedIds={clientSelections}
+          onClose={() => setShowDuplicates(false)}
+          onDeleted={fetchGalleryData}
+        />
+      )}
+
+      {commentFile && (
+        <CommentsModal
+          file={commentFile}
+          comments={commentThreads.get(commentFile.id) || []}
+          viewer="photographer"
+          reviewerNames={reviewerNames}
+          onPost={async (_kind, body) => {
+            const comment = await addComment(gallery.id, commentFile.id, 'photographer', 'note', body);
+            setComments(current => [...current, comment]);
+          }}
+          onResolve={async () => {
+            await resolveComments(commentFile.id);
+            const resolvedAt = new Date().toISOString();
+            setComments(current => current.map(comment =>
+              comment.file_id === commentFile.id && comment.author === 'client' && !comment.resolved_at
+                ? { ...comment, resolved_at: resolvedAt }
+                : comment
+            ));
+          }}
+          onClose={() => setCommentFileId(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
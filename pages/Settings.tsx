@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Stamp, Loader2, Briefcase, Upload } from 'lucide-react';
+import { supabase } from '../services/supabase';
+import { WatermarkSettings } from '../types';
+import { getProfile, updateProfile, uploadBusinessLogo, BusinessProfile, EMPTY_BUSINESS_PROFILE } from '../services/profile';
+import { resolveWatermark } from '../services/watermark';
+import { CURRENCY_OPTIONS, LOCALE_OPTIONS } from '../services/currency';
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, formatCurrency } from '../utils/formatters';
+import { WatermarkEditor } from '../components/WatermarkEditor';
+
+export const Settings: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+  const [savedWatermark, setSavedWatermark] = useState<WatermarkSettings>(resolveWatermark(null));
+  const [watermark, setWatermark] = useState<WatermarkSettings>(resolveWatermark(null));
+  const [saving, setSaving] = useState(false);
+  const [savedBusiness, setSavedBusiness] = useState<BusinessProfile>(EMPTY_BUSINESS_PROFILE);
+  const [business, setBusiness] = useState<BusinessProfile>(EMPTY_BUSINESS_PROFILE);
+  const [savingBusiness, setSavingBusiness] = useState(false);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const pickBusiness = (profile: BusinessProfile | null): BusinessProfile => ({
+    business_name: profile?.business_name ?? null,
+    business_logo_path: profile?.business_logo_path ?? null,
+    business_email: profile?.business_email ?? null,
+    business_phone: profile?.business_phone ?? null,
+    business_address: profile?.business_address ?? null,
+    tax_pin: profile?.tax_pin ?? null,
+    invoice_prefix: profile?.invoice_prefix ?? 'INV-',
+    last_invoice_number: profile?.last_invoice_number ?? 0,
+    currency: profile?.currency ?? DEFAULT_CURRENCY,
+    locale: profile?.locale ?? DEFAULT_LOCALE,
+  });
+
+  useEffect(() => {
+    getProfile()
+      .then(profile => {
+        const current = resolveWatermark(profile?.watermark);
+        setSavedWatermark(current);
+        setWatermark(current);
+        setSavedBusiness(pickBusiness(profile));
+        setBusiness(pickBusiness(profile));
+      })
+      .catch(error => console.error('Error loading profile:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const isDirty = JSON.stringify(watermark) !== JSON.stringify(savedWatermark);
+  const isBusinessDirty = JSON.stringify(business) !== JSON.stringify(savedBusiness);
+
+  // Show the stored logo
+  useEffect(() => {
+    if (!business.business_logo_path) {
+      setLogoUrl(null);
+      return;
+    }
+    let objectUrl: string | null = null;
+    supabase.storage.from('gallery-files').download(business.business_logo_path).then(({ data }) => {
+      objectUrl = data ? URL.createObjectURL(data) : null;
+      setLogoUrl(objectUrl);
+    });
+    return () => { if (objectUrl) URL.revokeObjectURL(objectUrl); };
+  }, [business.business_logo_path]);
+
+  const updateBusiness = (patch: Partial<BusinessProfile>) => setBusiness({ ...business, ...patch });
+
+  const handleLogoSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploadingLogo(true);
+    try {
+      updateBusiness({ business_logo_path: await uploadBusinessLogo(file) });
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      alert('Failed to upload logo');
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
+  const saveBusiness = async () => {
+    setSavingBusiness(true);
+    try {
+      // Blank fields are stored as NULL so invoices simply leave them out
+      const cleaned = Object.fromEntries(
+        Object.entries(business).map(([key, value]) => [key, typeof value === 'string' ? value.trim() || null : value])
+      ) as BusinessProfile;
+      const profile = await updateProfile({ ...cleaned, invoice_prefix: cleaned.invoice_prefix || 'INV-' });
+      setSavedBusiness(pickBusiness(profile));
+      setBusiness(pickBusiness(profile));
+    } catch (error) {
+      console.error('Error saving business details:', error);
+      alert('Failed to save business details.');
+    } finally {
+      setSavingBusiness(false);
+    }
+  };
+
+  const saveWatermark = async () => {
+    setSaving(true);
+    try {
+      const profile = await updateProfile({ watermark });
+      setSavedWatermark(resolveWatermark(profile.watermark));
+    } catch (error) {
+      console.error('Error saving watermark:', error);
+      alert('Failed to save watermark settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <div className="p-8 text-center text-slate-400">Loading...</div>;
+
+  return (
+    <div className="max-w-xl">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-slate-900">Settings</h1>
+        <p className="text-slate-500 text-sm">Defaults for all of your galleries</p>
+      </div>
+
+      <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200">
+        <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+          <Stamp className="w-5 h-5 text-slate-500" />
+          Watermark
+        </h2>
+        <p className="text-xs text-slate-500 mb-4">
+          Shown on client previews while a gallery has a balance due or is in selection mode, and removed once it is paid.
+          Galleries can override this, and existing photos are updated from each gallery's Watermark card.
+        </p>
+
+        <WatermarkEditor value={watermark} onChange={setWatermark} />
+
+        <button
+          onClick={saveWatermark}
+          disabled={saving || !isDirty}
+          className="w-full mt-6 py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Watermark
+        </button>
+      </div>
+
+      <div className="bg-white p-5 md:p-6 rounded-xl shadow-sm border border-slate-200 mt-6">
+        <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+          <Briefcase className="w-5 h-5 text-slate-500" />
+          Business Details
+        </h2>
+        <p className="text-xs text-slate-500 mb-4">
+          Printed on the invoices and receipts you and your clients download.
+        </p>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <div className="w-16 h-16 rounded-lg border border-slate-200 bg-slate-50 flex items-center justify-center overflow-hidden shrink-0">
+              {logoUrl
+                ? <img src={logoUrl} alt="" className="max-w-full max-h-full object-contain" />
+                : <span className="text-[10px] text-slate-400">No logo</span>}
+            </div>
+            <input
+              type="file"
+              ref={logoInputRef}
+              accept="image/png,image/jpeg,image/webp"
+              onChange={handleLogoSelected}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => logoInputRef.current?.click()}
+              disabled={uploadingLogo}
+              className="flex-1 py-2 border border-dashed border-slate-300 rounded-lg text-sm text-slate-600 hover:border-emerald-400 hover:text-emerald-700 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {uploadingLogo ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {business.business_logo_path ? 'Replace logo' : 'Upload logo'}
+            </button>
+          </div>
+
+          {([
+            ['business_name', 'Business name'],
+            ['business_email', 'Email'],
+            ['business_phone', 'Phone'],
+            ['tax_pin', 'KRA PIN'],
+          ] as const).map(([field, label]) => (
+            <input
+              key={field}
+              type="text"
+              value={business[field] || ''}
+              onChange={(e) => updateBusiness({ [field]: e.target.value })}
+              placeholder={label}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            />
+          ))}
+
+          <textarea
+            value={business.business_address || ''}
+            onChange={(e) => updateBusiness({ business_address: e.target.value })}
+            placeholder="Address"
+            rows={2}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none resize-none"
+          />
+
+          <div className="grid grid-cols-2 gap-3 pt-2">
+            <label className="block">
+              <span className="block text-xs font-medium text-slate-500 mb-1">Invoice prefix</span>
+              <input
+                type="text"
+                value={business.invoice_prefix || ''}
+                onChange={(e) => updateBusiness({ invoice_prefix: e.target.value })}
+                placeholder="INV-"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-slate-500 mb-1">Next invoice number</span>
+              <input
+                type="number"
+                min={1}
+                value={business.last_invoice_number + 1}
+                onChange={(e) => updateBusiness({ last_invoice_number: Math.max(0, Math.floor(Number(e.target.value)) - 1) })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-slate-500">
+            Each gallery keeps the number it was first invoiced with, e.g. {business.invoice_prefix || 'INV-'}{String(business.last_invoice_number + 1).padStart(4, '0')}.
+          </p>
+
+          <div className="grid grid-cols-2 gap-3 pt-2">
+            <label className="block">
+              <span className="block text-xs font-medium text-slate-500 mb-1">Default currency</span>
+              <select
+                value={business.currency}
+                onChange={(e) => updateBusiness({ currency: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+              >
+                {CURRENCY_OPTIONS.map(option => (
+                  <option key={option.code} value={option.code}>{option.code} - {option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-slate-500 mb-1">Number format</span>
+              <select
+                value={business.locale}
+                onChange={(e) => updateBusiness({ locale: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+              >
+                {LOCALE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-slate-500">
+            New galleries start in this currency, e.g. {formatCurrency(12500, business.currency, business.locale)}. Each gallery can use its own.
+          </p>
+        </div>
+
+        <button
+          onClick={saveBusiness}
+          disabled={savingBusiness || !isBusinessDirty}
+          className="w-full mt-6 py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 font-medium text-sm flex justify-center items-center gap-2 disabled:opacity-50 transition-colors"
+        >
+          {savingBusiness && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Business Details
+        </button>
+      </div>
+    </div>
+  );
+};
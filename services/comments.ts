@@ -0,0 +1,61 @@
+import { supabase } from './supabase';
+import { CommentAuthor, CommentKind, FileComment } from '../types';
+
+export const COMMENT_KIND_LABELS: Record<CommentKind, string> = {
+  note: 'Note',
+  edit: 'Edit request',
+};
+
+// Every comment in the gallery, oldest first so threads read top to bottom
+export const listComments = async (galleryId: string) => {
+  const { data, error } = await supabase
+    .from('file_comments')
+    .select('*')
+    .eq('gallery_id', galleryId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as FileComment[];
+};
+
+export const addComment = async (
+  galleryId: string,
+  fileId: string,
+  author: CommentAuthor,
+  kind: CommentKind,
+  body: string,
+  reviewerId?: string // Required for client comments
+) => {
+  const { data, error } = await supabase
+    .from('file_comments')
+    .insert({ gallery_id: galleryId, file_id: fileId, author, kind, body: body.trim(), reviewer_id: reviewerId ?? null })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as FileComment;
+};
+
+// Resolves every open client comment on a file
+export const resolveComments = async (fileId: string) => {
+  const { error } = await supabase
+    .from('file_comments')
+    .update({ resolved_at: new Date().toISOString() })
+    .eq('file_id', fileId)
+    .eq('author', 'client')
+    .is('resolved_at', null);
+
+  if (error) throw error;
+};
+
+export const groupCommentsByFile = (comments: FileComment[]) => {
+  const threads = new Map<string, FileComment[]>();
+  comments.forEach(comment => {
+    threads.set(comment.file_id, [...(threads.get(comment.file_id) || []), comment]);
+  });
+  return threads;
+};
+
+export const isOpenComment = (comment: FileComment) => comment.author === 'client' && !comment.resolved_at;
+
+export const countOpenComments = (comments: FileComment[] = []) => comments.filter(isOpenComment).length;
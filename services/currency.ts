@@ -0,0 +1,26 @@
+import { DEFAULT_LOCALE } from '../utils/formatters';
+
+export const CURRENCY_OPTIONS: { code: string; label: string }[] = [
+  { code: 'KES', label: 'Kenyan Shilling' },
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'UGX', label: 'Ugandan Shilling' },
+  { code: 'TZS', label: 'Tanzanian Shilling' },
+  { code: 'ZAR', label: 'South African Rand' },
+  { code: 'AED', label: 'UAE Dirham' },
+];
+
+// How amounts are written for the photographer; clients see their own browser's format
+export const LOCALE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'en-KE', label: 'English (Kenya)' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'de-DE', label: 'German' },
+  { value: 'fr-FR', label: 'French' },
+];
+
+// M-Pesa settles in shillings only; other currencies are paid outside the app and recorded in the ledger
+export const MPESA_CURRENCY = 'KES';
+
+export const getVisitorLocale = () => (typeof navigator !== 'undefined' && navigator.language) || DEFAULT_LOCALE;
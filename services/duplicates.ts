@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import { GalleryFile } from '../types';
+import { sha256Hex } from '../utils/hash';
+
+export interface DuplicateGroup {
+  contentHash: string;
+  keep: GalleryFile;
+  copies: GalleryFile[];
+}
+
+const HASH_CONCURRENCY = 3;
+
+/**
+ * Hashes files uploaded before content hashing existed and saves the hash on their row.
+ * Returns the file list with every hash filled in (files that fail to download keep null).
+ */
+export const backfillContentHashes = async (
+  files: GalleryFile[],
+  onProgress: (done: number, total: number) => void
+): Promise<GalleryFile[]> => {
+  const missing = files.filter(file => !file.content_hash);
+  const hashes = new Map<string, string>();
+  let done = 0;
+  onProgress(0, missing.length);
+
+  const queue = [...missing];
+  const worker = async (): Promise<void> => {
+    const file = queue.shift();
+    if (!file) return;
+
+    try {
+      const { data: blob, error: downloadError } = await supabase.storage
+        .from('gallery-files')
+        .download(file.file_path);
+      if (downloadError) throw downloadError;
+      const contentHash = await sha256Hex(blob);
+
+      const { error } = await supabase
+        .from('files')
+        .update({ content_hash: contentHash })
+        .eq('id', file.id);
+      if (error) throw error;
+
+      hashes.set(file.id, contentHash);
+    } catch (err) {
+      console.error(`Could not hash ${file.id}`, err);
+    } finally {
+      done++;
+      onProgress(done, missing.length);
+    }
+
+    await worker();
+  };
+
+  await Promise.all(Array.from({ length: Math.min(HASH_CONCURRENCY, missing.length) }, worker));
+
+  return files.map(file => hashes.has(file.id) ? { ...file, content_hash: hashes.get(file.id)! } : file);
+};
+
+/**
+ * Groups files with identical content. In each group the copy the client picked is kept,
+ * otherwise the oldest upload.
+ */
+export const findDuplicateGroups = (files: GalleryFile[], selectedIds: Set<string>): DuplicateGroup[] => {
+  const byHash = new Map<string, GalleryFile[]>();
+  files.forEach(file => {
+    if (!file.content_hash) return;
+    const group = byHash.get(file.content_hash) || [];
+    group.push(file);
+    byHash.set(file.content_hash, group);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  byHash.forEach((group, contentHash) => {
+    if (group.length < 2) return;
+    const sorted = [...group].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+    const keep = sorted.find(file => selectedIds.has(file.id)) || sorted[0];
+    groups.push({ contentHash, keep, copies: sorted.filter(file => file.id !== keep.id) });
+  });
+
+  return groups;
+};
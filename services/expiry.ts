@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+import { Gallery, ExpiryMode } from '../types';
+import { getTimeRemaining } from '../utils/formatters';
+
+// Galleries and files closer than this to their expiry are flagged to photographers and clients
+export const EXPIRY_WARNING_HOURS = 48;
+
+export interface ExpiryPolicy {
+  mode: ExpiryMode;
+  hours: number; // Used by 'duration'
+  date: string | null; // Used by 'date'
+}
+
+export const DURATION_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0.5, label: '30 Minutes' },
+  { hours: 1, label: '1 Hour' },
+  { hours: 2, label: '2 Hours' },
+  { hours: 3, label: '3 Hours' },
+  { hours: 6, label: '6 Hours' },
+  { hours: 12, label: '12 Hours' },
+  { hours: 24, label: '24 Hours' },
+  { hours: 48, label: '48 Hours' },
+  { hours: 72, label: '3 Days' },
+  { hours: 168, label: '1 Week' },
+  { hours: 720, label: '30 Days' },
+];
+
+export const getExpiryPolicy = (gallery: Pick<Gallery, 'expiry_mode' | 'expiry_hours' | 'expiry_date'>): ExpiryPolicy => ({
+  mode: gallery.expiry_mode || 'duration',
+  hours: gallery.expiry_hours ?? 24,
+  date: gallery.expiry_date,
+});
+
+// Expiry for a file added at `from` under this policy; null means it never expires
+export const computeExpiry = (policy: ExpiryPolicy, from: Date = new Date()): string | null => {
+  if (policy.mode === 'never') return null;
+  if (policy.mode === 'date') return policy.date;
+  return new Date(from.getTime() + policy.hours * 60 * 60 * 1000).toISOString();
+};
+
+export const describeExpiryPolicy = (policy: ExpiryPolicy) => {
+  if (policy.mode === 'never') return 'Never expires';
+  if (policy.mode === 'date') return policy.date ? `Expires ${new Date(policy.date).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}` : 'No end date set';
+  const option = DURATION_OPTIONS.find(o => o.hours === policy.hours);
+  return `${option ? option.label : `${policy.hours} hours`} after upload`;
+};
+
+// Earliest upcoming expiry in a list, ignoring files that never expire
+export const getNextExpiry = (files: { expires_at: string | null }[]) =>
+  files.reduce<string | null>((earliest, file) => {
+    if (!file.expires_at) return earliest;
+    return !earliest || Date.parse(file.expires_at) < Date.parse(earliest) ? file.expires_at : earliest;
+  }, null);
+
+export const isExpiringSoon = (expiresAt: string | null) => {
+  if (!expiresAt) return false;
+  const { total } = getTimeRemaining(expiresAt);
+  return total > 0 && total <= EXPIRY_WARNING_HOURS * 60 * 60 * 1000;
+};
+
+// Short countdown such as "2d 4h" or "5h 12m"
+export const formatTimeLeft = (expiresAt: string) => {
+  const { days, hours, minutes, expired } = getTimeRemaining(expiresAt);
+  if (expired) return 'Expired';
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${minutes}m`;
+};
+
+// datetime-local inputs work in local time without a zone suffix
+export const toLocalInputValue = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+// Re-applies the gallery policy to every file that doesn't have its own override
+export const applyExpiryPolicy = async (galleryId: string) => {
+  const { error } = await supabase.rpc('apply_gallery_expiry', { target_gallery_id: galleryId });
+  if (error) throw error;
+};
+
+// Pushes every expiring file (and a gallery end date) back by `hours`, counting from now for anything already expired
+export const extendExpiry = async (galleryId: string, hours: number) => {
+  const { error } = await supabase.rpc('extend_gallery_expiry', { target_gallery_id: galleryId, hours });
+  if (error) throw error;
+};
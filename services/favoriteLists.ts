@@ -0,0 +1,67 @@
+import { supabase } from './supabase';
+import { FavoriteList } from '../types';
+
+type FavoriteListRow = Omit<FavoriteList, 'file_ids'> & { favorite_list_files: { file_id: string }[] };
+
+// Every named list in the gallery with the files in it, oldest list first
+export const listFavoriteLists = async (galleryId: string) => {
+  const { data, error } = await supabase
+    .from('favorite_lists')
+    .select('id, gallery_id, name, reviewer_id, created_at, favorite_list_files(file_id)')
+    .eq('gallery_id', galleryId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as FavoriteListRow[]).map(({ favorite_list_files, ...list }) => ({
+    ...list,
+    file_ids: favorite_list_files.map(item => item.file_id),
+  })) as FavoriteList[];
+};
+
+export const createFavoriteList = async (galleryId: string, name: string, reviewerId: string) => {
+  const { data, error } = await supabase
+    .from('favorite_lists')
+    .insert({ gallery_id: galleryId, name: name.trim(), reviewer_id: reviewerId })
+    .select('id, gallery_id, name, reviewer_id, created_at')
+    .single();
+
+  if (error) throw error;
+  return { ...data, file_ids: [] } as FavoriteList;
+};
+
+export const renameFavoriteList = async (listId: string, name: string) => {
+  const { error } = await supabase
+    .from('favorite_lists')
+    .update({ name: name.trim() })
+    .eq('id', listId);
+
+  if (error) throw error;
+};
+
+// The files stay in the gallery; only the list and its entries go
+export const deleteFavoriteList = async (listId: string) => {
+  const { error } = await supabase
+    .from('favorite_lists')
+    .delete()
+    .eq('id', listId);
+
+  if (error) throw error;
+};
+
+export const addToFavoriteList = async (list: FavoriteList, fileId: string) => {
+  const { error } = await supabase
+    .from('favorite_list_files')
+    .insert({ list_id: list.id, file_id: fileId, gallery_id: list.gallery_id });
+
+  if (error) throw error;
+};
+
+export const removeFromFavoriteList = async (listId: string, fileId: string) => {
+  const { error } = await supabase
+    .from('favorite_list_files')
+    .delete()
+    .eq('list_id', listId)
+    .eq('file_id', fileId);
+
+  if (error) throw error;
+};
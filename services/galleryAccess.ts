@@ -0,0 +1,70 @@
+import { supabase, setGalleryAccessToken } from './supabase';
+
+export interface GalleryAccessInfo {
+  found: boolean;
+  password_protected: boolean;
+  client_name: string | null;
+}
+
+interface StoredToken {
+  token: string;
+  expiresAt: string;
+}
+
+// Tokens are kept for the browser tab only; closing it means entering the password again
+const tokenKey = (galleryId: string) => `gallery_token_${galleryId}`;
+
+/**
+ * Restores a still-valid access token for this gallery, if the client unlocked it earlier in this tab.
+ * Returns true when a token was applied.
+ */
+export const restoreAccessToken = (galleryId: string) => {
+  try {
+    const saved = sessionStorage.getItem(tokenKey(galleryId));
+    if (saved) {
+      const stored: StoredToken = JSON.parse(saved);
+      if (Date.parse(stored.expiresAt) > Date.now()) {
+        setGalleryAccessToken(stored.token);
+        return true;
+      }
+      sessionStorage.removeItem(tokenKey(galleryId));
+    }
+  } catch {
+    // Ignore storage errors
+  }
+  setGalleryAccessToken(null);
+  return false;
+};
+
+export const clearAccessToken = (galleryId: string) => {
+  sessionStorage.removeItem(tokenKey(galleryId));
+  setGalleryAccessToken(null);
+};
+
+// Tells a locked gallery apart from a missing or disabled one without exposing its contents
+export const getGalleryAccessInfo = async (galleryId: string): Promise<GalleryAccessInfo> => {
+  const { data, error } = await supabase.rpc('get_gallery_access', { target_gallery_id: galleryId });
+  if (error) throw error;
+  return data as GalleryAccessInfo;
+};
+
+/**
+ * Exchanges the gallery password for a short-lived access token.
+ * Resolves to false when the password is wrong.
+ */
+export const unlockGallery = async (galleryId: string, password: string) => {
+  const { data, error } = await supabase.rpc('unlock_gallery', { target_gallery_id: galleryId, password });
+  if (error) throw error;
+  if (!data) return false;
+
+  const stored: StoredToken = { token: data.token, expiresAt: data.expires_at };
+  sessionStorage.setItem(tokenKey(galleryId), JSON.stringify(stored));
+  setGalleryAccessToken(stored.token);
+  return true;
+};
+
+// Sets or (with an empty value) removes the password. Changing it signs out every client currently viewing.
+export const setGalleryPassword = async (galleryId: string, password: string | null) => {
+  const { error } = await supabase.rpc('set_gallery_password', { target_gallery_id: galleryId, new_password: password || null });
+  if (error) throw error;
+};
@@ -0,0 +1,107 @@
+import type { DerivativeRequest, DerivativeResponse } from '../workers/imageDerivatives.worker';
+import { stripJpegGps, readJpegCaptureDate } from '../utils/exif';
+import { WatermarkSettings } from '../types';
+
+export interface ImageDerivatives {
+  thumbnail: Blob;
+  preview: Blob;
+  proof: Blob; // Watermarked, low-res stand-in for the preview while the gallery is unpaid
+  proofThumbnail: Blob; // Watermarked stand-in for the thumbnail
+  width: number;
+  height: number;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (response: DerivativeResponse) => void>();
+
+// A single shared worker handles every upload instead of spawning a thread per file
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('../workers/imageDerivatives.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<DerivativeResponse>) => {
+    const resolve = pendingRequests.get(event.data.id);
+    pendingRequests.delete(event.data.id);
+    resolve?.(event.data);
+  };
+  // A crashed worker fails everything in flight and is recreated on the next request
+  worker.onerror = () => {
+    pendingRequests.forEach((resolve, id) => resolve({ id, error: 'Preview worker crashed' }));
+    pendingRequests.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const isSupported = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const runWorker = (request: Omit<DerivativeRequest, 'id'>) => {
+  const id = nextRequestId++;
+  return new Promise<DerivativeResponse>((resolve) => {
+    pendingRequests.set(id, resolve);
+    getWorker().postMessage({ ...request, id });
+  });
+};
+
+/**
+ * Builds the thumbnail, web preview and their watermarked proofs for an image in a background worker.
+ * Resolves to null when the browser can't decode the format (e.g. RAW, HEIC on Chrome);
+ * those files are uploaded without derivatives and fall back to the original.
+ */
+export const generateImageDerivatives = async (file: File, watermark: WatermarkSettings, logo: Blob | null): Promise<ImageDerivatives | null> => {
+  if (!isSupported()) return null;
+
+  const response = await runWorker({ file, watermark, logo });
+
+  if (response.error || !response.thumbnail || !response.preview || !response.proof || !response.proofThumbnail) {
+    console.warn(`Could not create previews for ${file.name}`, response.error);
+    return null;
+  }
+
+  return {
+    thumbnail: response.thumbnail,
+    preview: response.preview,
+    proof: response.proof,
+    proofThumbnail: response.proofThumbnail,
+    width: response.width || 0,
+    height: response.height || 0,
+  };
+};
+
+// Rebuilds just the watermarked proofs from an existing image, e.g. after the watermark settings change
+export const generateProofs = async (source: Blob, watermark: WatermarkSettings, logo: Blob | null): Promise<Pick<ImageDerivatives, 'proof' | 'proofThumbnail'> | null> => {
+  if (!isSupported()) return null;
+
+  const response = await runWorker({ file: source, watermark, logo, proofOnly: true });
+  if (response.error || !response.proof || !response.proofThumbnail) {
+    console.warn('Could not create proof', response.error);
+    return null;
+  }
+  return { proof: response.proof, proofThumbnail: response.proofThumbnail };
+};
+
+// EXIF lives at the start of the file, so there is no need to read whole originals
+const EXIF_READ_BYTES = 256 * 1024;
+
+/**
+ * Returns a JPEG with GPS coordinates removed, or the file itself when there is nothing to strip.
+ * Only the start of the file is read and rewritten; the rest is referenced from the original, not copied.
+ * Videos and other formats are passed through untouched.
+ */
+export const stripLocationData = async (file: File, mimeType: string): Promise<File> => {
+  if (mimeType !== 'image/jpeg') return file;
+
+  const head = new Uint8Array(await file.slice(0, EXIF_READ_BYTES).arrayBuffer());
+  if (!stripJpegGps(head)) return file;
+
+  // Same name, size and date keep the resumable upload fingerprint stable
+  return new File([head, file.slice(head.length)], file.name, { type: file.type, lastModified: file.lastModified });
+};
+
+// When the photo was taken according to its EXIF data, or null for formats and files without one
+export const readCaptureDate = async (file: File, mimeType: string): Promise<Date | null> => {
+  if (mimeType !== 'image/jpeg') return null;
+  const bytes = new Uint8Array(await file.slice(0, EXIF_READ_BYTES).arrayBuffer());
+  return readJpegCaptureDate(bytes);
+};
@@ -0,0 +1,213 @@
+import { jsPDF } from 'jspdf';
+import { supabase } from './supabase';
+import { Gallery } from '../types';
+import { formatCurrency } from '../utils/formatters';
+import { PAYMENT_METHOD_LABELS, Receipt } from './payments';
+import { getPackageAmount } from './packages';
+
+export interface BusinessDetails {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  tax_pin: string | null;
+  logo_url: string | null; // Signed for a few minutes
+  locale: string; // The photographer's number format, used for every amount on the PDF
+}
+
+export interface InvoiceData {
+  invoice_number: string;
+  business: BusinessDetails;
+  gallery: Pick<Gallery, 'id' | 'client_name' | 'title' | 'agreed_balance' | 'amount_paid' | 'currency' | 'invoice_issued_at' | 'created_at'
+    | 'included_selections' | 'extra_price' | 'extras_count' | 'extras_amount'>;
+  payments: Receipt[]; // Oldest first, voided entries left out
+}
+
+export interface InvoiceLine {
+  description: string;
+  amount: number;
+}
+
+export type InvoiceDocument = 'invoice' | 'receipt';
+
+/**
+ * Everything needed to draw a gallery's invoice or receipt. The invoice function assigns the
+ * gallery its invoice number the first time this is called, for the photographer or the client.
+ */
+export const loadInvoiceData = async (galleryId: string) => {
+  const { data, error } = await supabase.functions.invoke<InvoiceData>('invoice', {
+    body: { gallery_id: galleryId }
+  });
+  if (error) throw error;
+  return data!;
+};
+
+// The package, plus a separate line for extra photos picked beyond it
+export const getInvoiceLines = (gallery: InvoiceData['gallery']): InvoiceLine[] => {
+  const description = `Photography - ${gallery.title || gallery.client_name}`;
+  if (!gallery.extras_count) return [{ description, amount: gallery.agreed_balance || 0 }];
+
+  return [
+    {
+      description: gallery.included_selections != null ? `${description} (${gallery.included_selections} photos)` : description,
+      amount: getPackageAmount(gallery),
+    },
+    { description: `Extra photos (${gallery.extras_count})`, amount: gallery.extras_amount },
+  ];
+};
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// jsPDF only embeds PNG/JPEG, so the logo is redrawn onto a canvas first
+const loadLogo = async (url: string) => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const bitmap = await createImageBitmap(await response.blob());
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return { dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height };
+  } catch (error) {
+    console.warn('Could not load business logo', error);
+    return null;
+  }
+};
+
+const PAGE_MARGIN = 20;
+
+/**
+ * Draws an invoice (line items and balance) or a receipt (payments received) as an A4 PDF.
+ */
+export const buildInvoicePdf = async (data: InvoiceData, kind: InvoiceDocument) => {
+  const { business, gallery } = data;
+  // The built-in PDF fonts have no narrow no-break space, which some locales group digits with
+  const money = (amount: number) => formatCurrency(amount, gallery.currency, business.locale).replace(/[\u202f\u00a0]/g, ' ');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const right = pageWidth - PAGE_MARGIN;
+  let y = PAGE_MARGIN;
+
+  // Header: logo on the left, business details on the right
+  const logo = business.logo_url ? await loadLogo(business.logo_url) : null;
+  if (logo) {
+    const height = 18;
+    const width = Math.min(60, (logo.width / logo.height) * height);
+    doc.addImage(logo.dataUrl, 'PNG', PAGE_MARGIN, y, width, (logo.height / logo.width) * width);
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.setTextColor(15, 23, 42);
+  doc.text(business.name || 'Photographer', right, y + 4, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(100, 116, 139);
+  const contactLines = [
+    ...(business.address ? doc.splitTextToSize(business.address, 80) : []),
+    business.phone,
+    business.email,
+    business.tax_pin && `PIN: ${business.tax_pin}`,
+  ].filter(Boolean) as string[];
+  contactLines.forEach((line, index) => doc.text(line, right, y + 10 + index * 4.5, { align: 'right' }));
+
+  y = Math.max(y + 26, y + 12 + contactLines.length * 4.5);
+
+  // Title and numbering
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.setTextColor(15, 23, 42);
+  doc.text(kind === 'invoice' ? 'INVOICE' : 'RECEIPT', PAGE_MARGIN, y + 8);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100, 116, 139);
+  const issued = kind === 'invoice' ? gallery.invoice_issued_at || gallery.created_at : new Date().toISOString();
+  doc.text(`${kind === 'invoice' ? 'Invoice' : 'For invoice'} ${data.invoice_number}`, right, y + 3, { align: 'right' });
+  doc.text(`Date: ${formatDay(issued)}`, right, y + 8, { align: 'right' });
+  y += 20;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(15, 23, 42);
+  doc.text(kind === 'invoice' ? 'Bill to' : 'Received from', PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(gallery.client_name, PAGE_MARGIN, y + 5);
+  if (gallery.title && gallery.title !== gallery.client_name) doc.text(gallery.title, PAGE_MARGIN, y + 10);
+  y += 22;
+
+  // Table
+  const drawRow = (cells: string[], columns: number[], bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach((cell, index) => {
+      const isLast = index === cells.length - 1;
+      doc.text(cell, isLast ? right : columns[index], y, isLast ? { align: 'right' } : undefined);
+    });
+    y += 7;
+  };
+  const drawRule = () => {
+    doc.setDrawColor(226, 232, 240);
+    doc.line(PAGE_MARGIN, y - 4.5, right, y - 4.5);
+  };
+
+  doc.setFontSize(10);
+  doc.setTextColor(15, 23, 42);
+
+  const totalPaid = gallery.amount_paid || 0;
+  const balance = Math.max(0, (gallery.agreed_balance || 0) - totalPaid);
+
+  if (kind === 'invoice') {
+    const columns = [PAGE_MARGIN];
+    drawRow(['Description', 'Amount'], columns, true);
+    drawRule();
+    getInvoiceLines(gallery).forEach(line => drawRow([line.description, money(line.amount)], columns));
+  } else {
+    const columns = [PAGE_MARGIN, PAGE_MARGIN + 35, PAGE_MARGIN + 75];
+    drawRow(['Date', 'Method', 'Reference', 'Amount'], columns, true);
+    drawRule();
+    if (data.payments.length === 0) {
+      doc.setTextColor(100, 116, 139);
+      drawRow(['No payments received yet', ''], columns);
+      doc.setTextColor(15, 23, 42);
+    }
+    data.payments.forEach(payment => drawRow([
+      formatDay(payment.paid_at),
+      payment.kind === 'refund' ? 'Refund' : PAYMENT_METHOD_LABELS[payment.method],
+      payment.reference || '-',
+      `${payment.kind === 'refund' ? '-' : ''}${money(payment.amount)}`,
+    ], columns));
+  }
+
+  // Totals
+  y += 3;
+  drawRule();
+  const totalsColumns = [pageWidth / 2];
+  drawRow(['Total', money(gallery.agreed_balance || 0)], totalsColumns);
+  drawRow(['Paid', money(totalPaid)], totalsColumns);
+  drawRow(['Balance due', money(balance)], totalsColumns, true);
+
+  if (kind === 'receipt' && balance <= 0) {
+    y += 6;
+    doc.setTextColor(5, 150, 105);
+    doc.setFont('helvetica', 'bold');
+    doc.text('PAID IN FULL', PAGE_MARGIN, y);
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(148, 163, 184);
+  doc.text('Thank you for your business.', pageWidth / 2, doc.internal.pageSize.getHeight() - PAGE_MARGIN, { align: 'center' });
+
+  return doc;
+};
+
+// Loads the latest figures and saves the PDF, e.g. INV-0042.pdf or INV-0042-receipt.pdf
+export const downloadInvoicePdf = async (galleryId: string, kind: InvoiceDocument) => {
+  const data = await loadInvoiceData(galleryId);
+  const doc = await buildInvoicePdf(data, kind);
+  doc.save(`${data.invoice_number}${kind === 'receipt' ? '-receipt' : ''}.pdf`);
+  return data;
+};
@@ -0,0 +1,48 @@
+import { GalleryFile } from '../types';
+import { getSignedUrls } from './signedUrls';
+
+// Grid-sized image, watermarked until the client may download. Older uploads get a transformed copy of the original once paid.
+export const getThumbnailUrl = (file: GalleryFile) => getSignedUrls(file.id)?.thumbnail || undefined;
+
+// Large web preview, used when a thumbnail isn't sharp enough
+export const getPreviewUrl = (file: GalleryFile) => getSignedUrls(file.id)?.preview || getThumbnailUrl(file);
+
+// Poster frame for videos, or undefined when the browser couldn't decode one at upload time
+export const getPosterUrl = (file: GalleryFile) => getSignedUrls(file.id)?.poster || undefined;
+
+// Full-resolution original. Only the photographer gets one for images; clients get videos once they may download them.
+export const getOriginalUrl = (file: GalleryFile) => getSignedUrls(file.id)?.original || undefined;
+
+// Every storage object that belongs to a file record (original plus derivatives)
+export const getStoragePaths = (file: Pick<GalleryFile, 'file_path' | 'thumbnail_path' | 'preview_path' | 'proof_path' | 'proof_thumbnail_path' | 'poster_path'>) =>
+  [file.file_path, file.thumbnail_path, file.preview_path, file.proof_path, file.proof_thumbnail_path, file.poster_path].filter((path): path is string => !!path);
+
+// Derivatives go in a subfolder of the original's folder. Stored filenames never contain a slash,
+// so an original called "proof.jpg" can't share a key with its own proof.
+export const getDerivativeFolder = (filePath: string) => `${filePath.substring(0, filePath.lastIndexOf('/'))}/_derived`;
+
+// Name used for downloads: the original filename, or the sanitized storage name for older uploads
+export const getDownloadName = (file: Pick<GalleryFile, 'file_path' | 'original_name'>) =>
+  file.original_name || file.file_path.split('/').pop() || 'file';
+
+// Gives each file a distinct name inside a ZIP ("IMG_001.jpg", "IMG_001 (2).jpg", ...)
+export const getUniqueDownloadNames = (files: Pick<GalleryFile, 'id' | 'file_path' | 'original_name'>[]) => {
+  const used = new Set<string>();
+  const names = new Map<string, string>();
+
+  files.forEach(file => {
+    const name = getDownloadName(file);
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.slice(0, dot) : name;
+    const extension = dot > 0 ? name.slice(dot) : '';
+
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    names.set(file.id, candidate);
+  });
+
+  return names;
+};
@@ -0,0 +1,23 @@
+import { Gallery } from '../types';
+
+export interface SelectionOverage {
+  included: number | null; // null when the package has no limit
+  extras: number;
+  amount: number;
+}
+
+/**
+ * What a selection of `count` photos costs on top of the package. This is only a preview for the
+ * client; submit_selection works out the same figures in the database and adds them to the balance.
+ */
+export const getSelectionOverage = (count: number, gallery: Pick<Gallery, 'included_selections' | 'extra_price'>): SelectionOverage => {
+  const included = gallery.included_selections ?? null;
+  if (included === null) return { included, extras: 0, amount: 0 };
+
+  const extras = Math.max(0, count - included);
+  return { included, extras, amount: extras * (gallery.extra_price || 0) };
+};
+
+// Agreed amount without the extras added at submission
+export const getPackageAmount = (gallery: Pick<Gallery, 'agreed_balance' | 'extras_amount'>) =>
+  (gallery.agreed_balance || 0) - (gallery.extras_amount || 0);
@@ -0,0 +1,127 @@
+import { supabase } from './supabase';
+import { Gallery, Payment, PaymentMethod, PaymentTransaction } from '../types';
+
+type PaymentUpdate = Pick<PaymentTransaction, 'id' | 'status' | 'amount' | 'receipt_number' | 'result_description'>;
+
+const POLL_INTERVAL_MS = 3000;
+// STK prompts time out on the phone after about a minute; allow for a slow callback on top
+const POLL_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Edge Function errors carry the function's JSON body; surface its message when there is one
+const readFunctionError = async (error: any) => {
+  try {
+    const body = await error?.context?.json();
+    if (body?.error) return new Error(body.error);
+  } catch {
+    // Not a JSON body
+  }
+  return error instanceof Error ? error : new Error('Payment request failed');
+};
+
+/**
+ * Sends a payment prompt for the gallery's outstanding balance to the client's phone.
+ * The amount is worked out server-side. Resolves to the new transaction's id.
+ */
+export const startPayment = async (galleryId: string, phone: string) => {
+  const { data, error } = await supabase.functions.invoke<{ transaction_id: string; amount: number }>('payments', {
+    body: { action: 'start', gallery_id: galleryId, phone }
+  });
+  if (error) throw await readFunctionError(error);
+  return data!;
+};
+
+export const getPaymentStatus = async (galleryId: string, transactionId: string) => {
+  const { data, error } = await supabase.functions.invoke<PaymentUpdate>('payments', {
+    body: { action: 'status', gallery_id: galleryId, transaction_id: transactionId }
+  });
+  if (error) throw await readFunctionError(error);
+  return data!;
+};
+
+/**
+ * Polls until the provider has confirmed or rejected the payment.
+ * Resolves to the last known state, which is still 'pending' if the payer never responded.
+ */
+export const waitForPayment = async (galleryId: string, transactionId: string, signal: AbortSignal) => {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+  let latest = await getPaymentStatus(galleryId, transactionId);
+
+  while (latest.status === 'pending' && Date.now() < deadline && !signal.aborted) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    latest = await getPaymentStatus(galleryId, transactionId);
+  }
+
+  return latest;
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  mpesa: 'M-Pesa',
+  bank: 'Bank transfer',
+  card: 'Card',
+  other: 'Other',
+};
+
+// What clients may see of a ledger entry; anon only has SELECT on these columns
+export type Receipt = Pick<Payment, 'id' | 'kind' | 'amount' | 'method' | 'reference' | 'paid_at'>;
+
+export interface NewLedgerEntry {
+  kind: Payment['kind'];
+  amount: number;
+  method: PaymentMethod;
+  reference: string;
+  paid_at: string;
+  note: string;
+}
+
+// Full ledger for the photographer, voided entries included
+export const listPayments = async (galleryId: string) => {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('gallery_id', galleryId)
+    .order('paid_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as Payment[];
+};
+
+export const listReceipts = async (galleryId: string) => {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('id, kind, amount, method, reference, paid_at')
+    .eq('gallery_id', galleryId)
+    .is('voided_at', null)
+    .order('paid_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as Receipt[];
+};
+
+/**
+ * Adds a payment or refund to the ledger. The database recomputes galleries.amount_paid.
+ */
+export const recordPayment = async (gallery: Pick<Gallery, 'id' | 'currency'>, entry: NewLedgerEntry) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const { error } = await supabase.from('payments').insert({
+    gallery_id: gallery.id,
+    kind: entry.kind,
+    amount: entry.amount,
+    method: entry.method,
+    reference: entry.reference.trim() || null,
+    paid_at: entry.paid_at,
+    note: entry.note.trim() || null,
+    recorded_by: user.id,
+  });
+  if (error) throw error;
+
+  await supabase.from('activity_logs').insert({
+    gallery_id: gallery.id,
+    action: `${entry.kind === 'refund' ? 'Refund' : 'Payment'} recorded: ${gallery.currency} ${entry.amount} (${PAYMENT_METHOD_LABELS[entry.method]})`
+  });
+};
+
+export const voidPayment = async (paymentId: string, reason: string) => {
+  const { error } = await supabase.rpc('void_payment', { target_payment_id: paymentId, reason });
+  if (error) throw error;
+};
@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+import { Profile } from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE } from '../utils/formatters';
+
+// The signed-in photographer's account settings, or null until they first save some
+export const getProfile = async (): Promise<Profile | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Saves account settings, creating the profile row on first use
+export const updateProfile = async (patch: Partial<Omit<Profile, 'id' | 'email' | 'role'>>): Promise<Profile> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .upsert({ id: user.id, email: user.email, ...patch, updated_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export type BusinessProfile = Pick<Profile, 'business_name' | 'business_logo_path' | 'business_email' | 'business_phone' | 'business_address' | 'tax_pin' | 'invoice_prefix' | 'last_invoice_number' | 'currency' | 'locale'>;
+
+export const EMPTY_BUSINESS_PROFILE: BusinessProfile = {
+  business_name: null,
+  business_logo_path: null,
+  business_email: null,
+  business_phone: null,
+  business_address: null,
+  tax_pin: null,
+  invoice_prefix: 'INV-',
+  last_invoice_number: 0,
+  currency: DEFAULT_CURRENCY,
+  locale: DEFAULT_LOCALE,
+};
+
+// Invoice logos sit next to watermark logos in the photographer's branding folder
+export const uploadBusinessLogo = async (file: File) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+  const path = `${user.id}/branding/logo-${Date.now()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from('gallery-files')
+    .upload(path, file, { cacheControl: '3600', contentType: file.type });
+
+  if (error) throw error;
+  return path;
+};
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+
+export interface WatchedTable {
+  table: string;
+  filter?: string; // e.g. "gallery_id=eq.<id>"
+}
+
+// How often to reload while Realtime isn't connected
+export const LIVE_POLL_MS = 30 * 1000;
+
+// One client action often writes several tables at once (a submission touches selections, the gallery and the log)
+const CHANGE_DEBOUNCE_MS = 300;
+
+/**
+ * Calls onChange when a row in one of the tables changes. Realtime only delivers rows the viewer may read
+ * and payloads carry no joins, so callers reload what they show instead of patching it from the event.
+ * While the channel isn't connected (Realtime disabled for the project, a dropped connection) it polls instead.
+ * Returns a function that stops watching.
+ */
+export const watchTables = (channelName: string, tables: WatchedTable[], onChange: () => void) => {
+  let stopped = false;
+  let debounce: ReturnType<typeof setTimeout> | undefined;
+  let poll: ReturnType<typeof setInterval> | undefined;
+
+  const notify = () => {
+    clearTimeout(debounce);
+    debounce = setTimeout(onChange, CHANGE_DEBOUNCE_MS);
+  };
+
+  const channel = supabase.channel(channelName);
+  tables.forEach(({ table, filter }) => {
+    channel.on('postgres_changes', { event: '*', schema: 'public', table, filter }, notify);
+  });
+
+  channel.subscribe(status => {
+    if (stopped) return;
+    if (status === 'SUBSCRIBED') {
+      if (poll) {
+        // Reconnected: catch up on anything missed in between
+        clearInterval(poll);
+        poll = undefined;
+        notify();
+      }
+    } else if (!poll) {
+      poll = setInterval(onChange, LIVE_POLL_MS);
+    }
+  });
+
+  return () => {
+    stopped = true;
+    clearTimeout(debounce);
+    clearInterval(poll);
+    supabase.removeChannel(channel);
+  };
+};
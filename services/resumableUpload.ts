@@ -0,0 +1,88 @@
+import * as tus from 'tus-js-client';
+import { supabase, supabaseUrl, supabaseKey } from './supabase';
+
+// Supabase Storage only accepts TUS chunks of exactly 6MB
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Backoff between automatic retries when the connection drops (ms)
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000, 30000, 60000];
+
+interface ResumableUploadOptions {
+  file: File;
+  bucket: string;
+  objectName: string;
+  contentType: string;
+  onProgress: (bytesUploaded: number, bytesTotal: number) => void;
+  onSuccess: () => void;
+  onError: (error: Error) => void;
+}
+
+// Build the auth headers from the current session so long uploads survive a token refresh
+const getAuthHeaders = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    authorization: `Bearer ${session?.access_token ?? supabaseKey}`,
+    apikey: supabaseKey,
+  };
+};
+
+// tus' default fingerprint only describes the file. Including the destination keeps the same file queued for
+// two galleries (or left unfinished in one and uploaded to another) from resuming into the other's object.
+const getFingerprint = (file: File, bucket: string, objectName: string) =>
+  Promise.resolve(['tus-br', file.name, file.type, file.size, file.lastModified, bucket, objectName].join('-'));
+
+/**
+ * Creates a chunked, resumable upload against the Supabase Storage TUS endpoint.
+ * The upload URL is remembered in localStorage (keyed by the file and its storage path),
+ * so selecting the same file again after a reload continues where it stopped.
+ */
+export const createResumableUpload = (options: ResumableUploadOptions) => {
+  const upload = new tus.Upload(options.file, {
+    endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+    retryDelays: RETRY_DELAYS,
+    chunkSize: CHUNK_SIZE,
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    fingerprint: (file: File) => getFingerprint(file, options.bucket, options.objectName),
+    headers: {
+      'x-upsert': 'true',
+    },
+    metadata: {
+      bucketName: options.bucket,
+      objectName: options.objectName,
+      contentType: options.contentType,
+      cacheControl: '3600',
+    },
+    onBeforeRequest: async (req) => {
+      const headers = await getAuthHeaders();
+      req.setHeader('authorization', headers.authorization);
+      req.setHeader('apikey', headers.apikey);
+    },
+    onProgress: options.onProgress,
+    onSuccess: () => options.onSuccess(),
+    onError: options.onError,
+  });
+
+  return {
+    // Starts a new upload, or continues a previous one for the same file
+    start: async () => {
+      const previousUploads = await upload.findPreviousUploads();
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      upload.start();
+    },
+    // Stops sending chunks but keeps the server-side upload so it can be resumed
+    pause: () => upload.abort(false),
+    // Stops and deletes the partial upload on the server
+    cancel: async () => {
+      try {
+        await upload.abort(true);
+      } catch (e) {
+        // The partial upload will be expired by Storage if termination fails
+      }
+    },
+  };
+};
+
+export type ResumableUpload = ReturnType<typeof createResumableUpload>;
@@ -0,0 +1,147 @@
+import { supabase, setReviewerToken } from './supabase';
+import { Reviewer, Selection } from '../types';
+
+// What the client page keeps about the person reviewing; the token is their key to their own favorites
+export interface StoredReviewer {
+  id: string;
+  token: string;
+  name: string;
+  email: string | null;
+}
+
+export interface ReviewerSummary {
+  id: string;
+  name: string;
+  pick_count: number;
+}
+
+// Kept across visits, unlike gallery access tokens, so a reviewer doesn't lose their list
+const reviewerKey = (galleryId: string) => `gallery_reviewer_${galleryId}`;
+
+// Query parameters on emailed sign-in links (the app's routes live in the hash)
+export const REVIEW_REDIRECT_PARAM = 'review';
+export const REVIEW_CODE_PARAM = 'code';
+const pendingSignInKey = (galleryId: string) => `gallery_reviewer_signin_${galleryId}`;
+
+const saveReviewer = (galleryId: string, reviewer: StoredReviewer) => {
+  localStorage.setItem(reviewerKey(galleryId), JSON.stringify(reviewer));
+  setReviewerToken(reviewer.token);
+  return reviewer;
+};
+
+export const restoreReviewer = (galleryId: string): StoredReviewer | null => {
+  try {
+    const saved = localStorage.getItem(reviewerKey(galleryId));
+    if (saved) {
+      const reviewer: StoredReviewer = JSON.parse(saved);
+      setReviewerToken(reviewer.token);
+      return reviewer;
+    }
+  } catch {
+    // Ignore storage errors
+  }
+  setReviewerToken(null);
+  return null;
+};
+
+export const forgetReviewer = (galleryId: string) => {
+  localStorage.removeItem(reviewerKey(galleryId));
+  setReviewerToken(null);
+};
+
+/**
+ * Joins the gallery by name and optional email. Rejects with "Email already confirmed" when that
+ * email was verified with a sign-in link before; the client has to use a link again.
+ */
+export const joinGallery = async (galleryId: string, name: string, email: string) => {
+  const { data, error } = await supabase.rpc('join_gallery', {
+    target_gallery_id: galleryId,
+    reviewer_name: name,
+    reviewer_email: email,
+  });
+  if (error) throw error;
+  return saveReviewer(galleryId, data as StoredReviewer);
+};
+
+/**
+ * Emails a one-time link that brings the client back to this gallery with a confirmed email.
+ * The reviewer-sign-in function sends it; reviewers never get an auth account.
+ */
+export const sendReviewerSignInLink = async (galleryId: string, name: string, email: string) => {
+  const { error } = await supabase.functions.invoke('reviewer-sign-in', {
+    body: { action: 'send', gallery_id: galleryId, name: name.trim(), email: email.trim() }
+  });
+  if (error) throw error;
+};
+
+// Holds the code from a sign-in link until the gallery page (and its password, if any) is loaded
+export const stashReviewerSignInCode = (galleryId: string, code: string) => {
+  sessionStorage.setItem(pendingSignInKey(galleryId), code);
+};
+
+/**
+ * Finishes a sign-in link: exchanges its code for the confirmed reviewer.
+ * Resolves to null when no sign-in was pending.
+ */
+export const completeReviewerSignIn = async (galleryId: string) => {
+  const code = sessionStorage.getItem(pendingSignInKey(galleryId));
+  if (code === null) return null;
+
+  try {
+    const { data, error } = await supabase.functions.invoke<StoredReviewer>('reviewer-sign-in', {
+      body: { action: 'verify', gallery_id: galleryId, code }
+    });
+    if (error) throw error;
+    return saveReviewer(galleryId, data!);
+  } finally {
+    sessionStorage.removeItem(pendingSignInKey(galleryId));
+  }
+};
+
+// For the client's submit dialog
+export const listGalleryReviewers = async (galleryId: string) => {
+  const { data, error } = await supabase.rpc('list_gallery_reviewers', { target_gallery_id: galleryId });
+  if (error) throw error;
+  return (data || []) as ReviewerSummary[];
+};
+
+// For the photographer
+export const listReviewers = async (galleryId: string) => {
+  const { data, error } = await supabase
+    .from('reviewers')
+    .select('id, gallery_id, name, email, email_verified_at, created_at')
+    .eq('gallery_id', galleryId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as Reviewer[];
+};
+
+export type PickFilter = 'anyone' | 'everyone' | string; // or a reviewer id
+
+// Each reviewer's favorites, keyed by reviewer id. The submitted list (no reviewer) is left out.
+export const groupPicksByReviewer = (selections: Pick<Selection, 'file_id' | 'reviewer_id'>[]) => {
+  const picks = new Map<string, Set<string>>();
+  selections.forEach(({ file_id, reviewer_id }) => {
+    if (!reviewer_id) return;
+    if (!picks.has(reviewer_id)) picks.set(reviewer_id, new Set());
+    picks.get(reviewer_id)!.add(file_id);
+  });
+  return picks;
+};
+
+// Files matching a "picked by" filter: by anyone, by every reviewer, or by one reviewer
+export const filterPicks = (picks: Map<string, Set<string>>, reviewers: Reviewer[], filter: PickFilter) => {
+  if (filter === 'anyone') {
+    return new Set([...picks.values()].flatMap(fileIds => [...fileIds]));
+  }
+  if (filter === 'everyone') {
+    const [first, ...rest] = reviewers.map(reviewer => picks.get(reviewer.id) || new Set<string>());
+    if (!first) return new Set<string>();
+    return new Set([...first].filter(fileId => rest.every(fileIds => fileIds.has(fileId))));
+  }
+  return picks.get(filter) || new Set<string>();
+};
+
+export const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0]!.toUpperCase()).join('');
@@ -0,0 +1,81 @@
+import { supabase } from './supabase';
+import { GalleryFile, Section, SortMode } from '../types';
+import { getDownloadName } from './media';
+
+export interface SectionGroup {
+  section: Section | null; // null holds files that aren't in any section
+  files: GalleryFile[];
+}
+
+export const SORT_MODE_LABELS: Record<SortMode, string> = {
+  custom: 'Custom order',
+  captured: 'Capture time',
+  filename: 'Filename',
+  uploaded: 'Upload time',
+};
+
+const byUploadTime = (a: GalleryFile, b: GalleryFile) => Date.parse(a.created_at) - Date.parse(b.created_at);
+
+// Files with a manual position come first; files not arranged yet follow in upload order
+const byPosition = (a: GalleryFile, b: GalleryFile) => {
+  if (a.position === null && b.position === null) return byUploadTime(a, b);
+  if (a.position === null) return 1;
+  if (b.position === null) return -1;
+  return a.position - b.position;
+};
+
+// Files without EXIF dates (videos, screenshots) fall back to when they were uploaded
+const byCaptureTime = (a: GalleryFile, b: GalleryFile) =>
+  Date.parse(a.captured_at || a.created_at) - Date.parse(b.captured_at || b.created_at);
+
+// Natural order, so IMG_2 comes before IMG_10
+const byFilename = (a: GalleryFile, b: GalleryFile) =>
+  getDownloadName(a).localeCompare(getDownloadName(b), undefined, { numeric: true, sensitivity: 'base' });
+
+const COMPARATORS: Record<SortMode, (a: GalleryFile, b: GalleryFile) => number> = {
+  custom: byPosition,
+  captured: byCaptureTime,
+  filename: byFilename,
+  uploaded: byUploadTime,
+};
+
+/**
+ * Splits files into their sections (in section order), followed by unassigned files,
+ * each sorted by `sortMode`. Empty sections are kept so the manager can still show and fill them.
+ */
+export const groupFilesBySection = (files: GalleryFile[], sections: Section[], sortMode: SortMode = 'custom'): SectionGroup[] => {
+  const compare = COMPARATORS[sortMode] || byPosition;
+  const sectionIds = new Set(sections.map(section => section.id));
+  const groups: SectionGroup[] = [...sections]
+    .sort((a, b) => a.position - b.position)
+    .map(section => ({
+      section,
+      files: files.filter(file => file.section_id === section.id).sort(compare),
+    }));
+
+  const unassigned = files.filter(file => !file.section_id || !sectionIds.has(file.section_id)).sort(compare);
+  if (unassigned.length > 0) groups.push({ section: null, files: unassigned });
+
+  return groups;
+};
+
+// Persists a new order for sections; ids are listed in their new order
+export const saveSectionOrder = async (sectionIds: string[]) => {
+  const { error } = await supabase.rpc('reorder_sections', { section_ids: sectionIds });
+  if (error) throw error;
+};
+
+// Persists a new order for files within a section; ids are listed in their new order
+export const saveFileOrder = async (fileIds: string[]) => {
+  const { error } = await supabase.rpc('reorder_files', { file_ids: fileIds });
+  if (error) throw error;
+};
+
+// Moves one item to a new index, returning the reordered list (or the same list when nothing moves)
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+  if (from === to || to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
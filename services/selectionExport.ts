@@ -0,0 +1,92 @@
+import { FileComment, GalleryFile } from '../types';
+import { getDownloadName } from './media';
+import { COMMENT_KIND_LABELS } from './comments';
+// @ts-ignore
+import JSZip from 'jszip';
+// @ts-ignore
+import saveAs from 'file-saver';
+
+export type XmpLabel = 'Red' | 'Yellow' | 'Green' | 'Blue' | 'Purple';
+
+export const XMP_LABELS: XmpLabel[] = ['Red', 'Yellow', 'Green', 'Blue', 'Purple'];
+
+export interface XmpMarking {
+  rating: number | null; // 1-5 stars
+  label: XmpLabel | null;
+}
+
+type ExportFile = Pick<GalleryFile, 'id' | 'file_path' | 'original_name'>;
+
+// "IMG_0412.jpg" -> "IMG_0412", so the name also matches the raw file in the catalogue
+const getBaseName = (file: ExportFile) => {
+  const name = getDownloadName(file);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+};
+
+const uniqueBaseNames = (files: ExportFile[]) => [...new Set(files.map(getBaseName))];
+
+const exportName = (galleryName: string, suffix: string) =>
+  `${galleryName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${suffix}`;
+
+/**
+ * Filenames without extensions, separated by commas. Pasted into Lightroom's Library filter
+ * (Text > Filename > Contains) or Capture One's filename search, it finds the JPEG and the raw.
+ */
+export const getLightroomFilter = (files: ExportFile[]) => uniqueBaseNames(files).join(', ');
+
+const csvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One row per file: original filename and every comment on it, oldest first
+export const buildSelectionCsv = (files: ExportFile[], comments: FileComment[], reviewerNames: Map<string, string>) => {
+  const rows = files.map(file => {
+    const thread = comments
+      .filter(comment => comment.file_id === file.id)
+      .map(comment => {
+        const author = comment.author === 'client'
+          ? (comment.reviewer_id && reviewerNames.get(comment.reviewer_id)) || 'Client'
+          : 'Photographer';
+        const kind = comment.kind === 'edit' ? ` (${COMMENT_KIND_LABELS.edit})` : '';
+        return `${author}${kind}: ${comment.body}`;
+      });
+    return [getDownloadName(file), thread.join('\n')];
+  });
+
+  return [['Filename', 'Comments'], ...rows]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n');
+};
+
+// Minimal XMP packet with the attributes Lightroom and Capture One read from sidecars
+export const buildXmpSidecar = ({ rating, label }: XmpMarking) => {
+  const attributes = [
+    rating ? `\n    xmp:Rating="${rating}"` : '',
+    label ? `\n    xmp:Label="${label}"` : '',
+  ].join('');
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"${attributes}/>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>
+`;
+};
+
+export const downloadSelectionCsv = (galleryName: string, files: ExportFile[], comments: FileComment[], reviewerNames: Map<string, string>) => {
+  // The byte order mark makes Excel read the file as UTF-8
+  const blob = new Blob(['\uFEFF', buildSelectionCsv(files, comments, reviewerNames)], { type: 'text/csv;charset=utf-8' });
+  saveAs(blob, `${exportName(galleryName, 'selection')}.csv`);
+};
+
+// One "<name>.xmp" per selected file, zipped. Copied next to the originals, they mark the picks on import.
+export const downloadXmpSidecars = async (galleryName: string, files: ExportFile[], marking: XmpMarking) => {
+  const zip = new JSZip();
+  const sidecar = buildXmpSidecar(marking);
+  uniqueBaseNames(files).forEach(name => zip.file(`${name}.xmp`, sidecar));
+
+  const content = await zip.generateAsync({ type: 'blob' });
+  saveAs(content, `${exportName(galleryName, 'xmp')}.zip`);
+};
@@ -0,0 +1,38 @@
+import { supabase } from './supabase';
+import { SelectionRound, SelectionStatus } from '../types';
+
+export const SELECTION_STATUS_LABELS: Record<SelectionStatus, string> = {
+  pending: 'Selecting',
+  submitted: 'Submitted',
+  completed: 'Completed',
+};
+
+// Lets the client change a submitted or completed selection; the note is shown to them
+export const reopenSelection = async (galleryId: string, note: string) => {
+  const { error } = await supabase.rpc('reopen_selection', { target_gallery_id: galleryId, note });
+  if (error) throw error;
+};
+
+export const completeSelection = async (galleryId: string) => {
+  const { error } = await supabase.rpc('complete_selection', { target_gallery_id: galleryId });
+  if (error) throw error;
+};
+
+// Archives the current picks and clears them for a new round. Resolves to the new round number.
+export const startSelectionRound = async (galleryId: string, note: string) => {
+  const { data, error } = await supabase.rpc('start_selection_round', { target_gallery_id: galleryId, note });
+  if (error) throw error;
+  return data as number;
+};
+
+// Earlier rounds, most recent first
+export const listSelectionRounds = async (galleryId: string) => {
+  const { data, error } = await supabase
+    .from('selection_rounds')
+    .select('*')
+    .eq('gallery_id', galleryId)
+    .order('round', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as SelectionRound[];
+};
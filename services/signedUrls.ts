@@ -0,0 +1,67 @@
+import { supabase } from './supabase';
+
+export interface SignedFileUrls {
+  thumbnail: string | null;
+  preview: string | null;
+  poster: string | null;
+  original: string | null; // Photographer only, plus videos once the client may download them
+}
+
+interface GalleryUrlsResponse {
+  expires_in: number;
+  files: Record<string, SignedFileUrls>;
+}
+
+// The gallery-urls function signs for an hour; re-sign well before that so open tabs keep working
+export const SIGNED_URL_REFRESH_MS = 45 * 60 * 1000;
+
+// Signed URLs by file id, shared by the grid, lightbox and downloads
+const signedUrls = new Map<string, SignedFileUrls>();
+
+export const getSignedUrls = (fileId: string) => signedUrls.get(fileId);
+
+/**
+ * Fetches fresh signed URLs for every file the caller may see in a gallery.
+ * Access rules (link status, password, expiry, payment) are enforced by the Edge Function.
+ */
+export const loadSignedUrls = async (galleryId: string) => {
+  const { data, error } = await supabase.functions.invoke<GalleryUrlsResponse>('gallery-urls', {
+    body: { gallery_id: galleryId }
+  });
+  if (error) throw error;
+
+  Object.entries(data!.files).forEach(([fileId, urls]) => signedUrls.set(fileId, urls));
+};
+
+// Signs paths the photographer owns directly, for lists that span several galleries
+export const signOwnPaths = async (paths: string[]) => {
+  if (paths.length === 0) return new Map<string, string>();
+
+  const { data, error } = await supabase.storage
+    .from('gallery-files')
+    .createSignedUrls(paths, SIGNED_URL_REFRESH_MS / 1000 + 15 * 60);
+  if (error) throw error;
+
+  return new Map(data.filter(item => item.signedUrl).map(item => [item.path!, item.signedUrl]));
+};
+
+export interface DownloadLink {
+  id: string;
+  name: string;
+  url: string; // Valid for a few minutes only
+}
+
+/**
+ * Asks the download function for links to full-resolution originals.
+ * Payment and selection mode are checked server-side, and each file's download is counted there.
+ */
+export const requestDownloadLinks = async (galleryId: string, fileIds: string[]) => {
+  const { data, error } = await supabase.functions.invoke<{ files: DownloadLink[] }>('download', {
+    body: { gallery_id: galleryId, file_ids: fileIds }
+  });
+  if (error) throw error;
+  return data!.files;
+};
+
+// True when the download function refused because the gallery still has a balance
+export const isPaymentRequired = (error: any) => error?.context?.status === 402;
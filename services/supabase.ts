@@ -24,21 +24,42 @@ const getEnv = (key: string, viteKey: string, fallback: string) => {
 };
 
 // Use provided credentials as default fallback
-const supabaseUrl = getEnv('REACT_APP_SUPABASE_URL', 'VITE_SUPABASE_URL', 'https://bdaqtpyzqutelkdgcoex.supabase.co');
-const supabaseKey = getEnv('REACT_APP_SUPABASE_ANON_KEY', 'VITE_SUPABASE_ANON_KEY', 'sb_publishable_aQY9i_vVRwG-CEWB2Nz4lQ_GwtLYqib');
+export const supabaseUrl = getEnv('REACT_APP_SUPABASE_URL', 'VITE_SUPABASE_URL', 'https://bdaqtpyzqutelkdgcoex.supabase.co');
+export const supabaseKey = getEnv('REACT_APP_SUPABASE_ANON_KEY', 'VITE_SUPABASE_ANON_KEY', 'sb_publishable_aQY9i_vVRwG-CEWB2Nz4lQ_GwtLYqib');
 
 // Disable demo mode
 export const isDemoMode = false;
 
+// Access token for the password-protected gallery being viewed. The database policies read it
+// from the x-gallery-token header, so it rides along on every API and storage request.
+let galleryAccessToken: string | null = null;
+
+// Identifies which reviewer's favorites the client is editing (x-reviewer-token header)
+let reviewerToken: string | null = null;
+
+export const setGalleryAccessToken = (token: string | null) => {
+  galleryAccessToken = token;
+};
+
+export const setReviewerToken = (token: string | null) => {
+  reviewerToken = token;
+};
+
+const fetchWithGalleryToken: typeof fetch = (input, init) => {
+  if (!galleryAccessToken && !reviewerToken) return fetch(input, init);
+  const headers = new Headers(init?.headers);
+  if (galleryAccessToken) headers.set('x-gallery-token', galleryAccessToken);
+  if (reviewerToken) headers.set('x-reviewer-token', reviewerToken);
+  return fetch(input, { ...init, headers });
+};
+
 export const supabase = createClient(supabaseUrl, supabaseKey, {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
     detectSessionInUrl: true
+  },
+  global: {
+    fetch: fetchWithGalleryToken
   }
-});
-
-export const getPublicUrl = (path: string) => {
-  const { data } = supabase.storage.from('gallery-files').getPublicUrl(path);
-  return data.publicUrl;
-};
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,92 @@
+export interface VideoMetadata {
+  poster: Blob | null;
+  duration: number;
+  width: number;
+  height: number;
+}
+
+const POSTER_MAX_SIZE = 1280;
+
+// Give up on files the browser accepts but never finishes decoding (some MKV/AVI codecs)
+const CAPTURE_TIMEOUT_MS = 15000;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+const drawPoster = async (video: HTMLVideoElement) => {
+  const scale = Math.min(1, POSTER_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const blob = await canvasToBlob(canvas, 'image/webp', 0.8);
+  // Safari can't encode WebP and falls back to PNG
+  if (blob && blob.type === 'image/webp') return blob;
+  return canvasToBlob(canvas, 'image/jpeg', 0.8);
+};
+
+/**
+ * Reads duration and dimensions from a video file and grabs a poster frame about a second in.
+ * Resolves to null when the browser can't open the container at all (e.g. MKV in Safari),
+ * and to metadata without a poster when it can read the header but not decode frames.
+ */
+export const captureVideoMetadata = (file: File): Promise<VideoMetadata | null> => {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    const objectUrl = URL.createObjectURL(file);
+    let metadata: VideoMetadata | null = null;
+    let settled = false;
+
+    const finish = (result: VideoMetadata | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(objectUrl);
+      resolve(result);
+    };
+
+    const timeout = setTimeout(() => finish(metadata), CAPTURE_TIMEOUT_MS);
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.playsInline = true;
+
+    video.onloadedmetadata = () => {
+      metadata = {
+        poster: null,
+        duration: Number.isFinite(video.duration) ? video.duration : 0,
+        width: video.videoWidth,
+        height: video.videoHeight,
+      };
+
+      // Audio-only or undecodable video track: nothing to draw
+      if (!video.videoWidth || !video.videoHeight) {
+        finish(metadata);
+        return;
+      }
+
+      // Skip black lead-in frames, but stay inside very short clips
+      video.currentTime = metadata.duration > 0 ? Math.min(1, metadata.duration / 10) : 0;
+    };
+
+    video.onseeked = async () => {
+      try {
+        const poster = await drawPoster(video);
+        finish(metadata ? { ...metadata, poster } : null);
+      } catch (err) {
+        console.warn(`Could not capture a poster frame for ${file.name}`, err);
+        finish(metadata);
+      }
+    };
+
+    video.onerror = () => finish(metadata);
+
+    video.src = objectUrl;
+  });
+};
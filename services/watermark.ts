@@ -0,0 +1,124 @@
+import { supabase } from './supabase';
+import { Gallery, GalleryFile, WatermarkPosition, WatermarkSettings } from '../types';
+import { generateProofs } from './imageDerivatives';
+import { getDerivativeFolder } from './media';
+
+// Used until the photographer sets up their own watermark
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: true,
+  type: 'text',
+  text: 'PROOF',
+  logo_path: null,
+  position: 'center',
+  opacity: 0.35,
+  tiled: true,
+};
+
+export const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'center', label: 'Center' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+// Gallery override, then the account setting, then the built-in default
+export const resolveWatermark = (account: WatermarkSettings | null | undefined, gallery?: Pick<Gallery, 'watermark'> | null) =>
+  gallery?.watermark || account || DEFAULT_WATERMARK;
+
+// Logos live in the photographer's folder of the (private) gallery bucket
+export const uploadWatermarkLogo = async (file: File) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+  const path = `${user.id}/branding/watermark-${Date.now()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from('gallery-files')
+    .upload(path, file, { cacheControl: '3600', contentType: file.type });
+
+  if (error) throw error;
+  return path;
+};
+
+const logoCache = new Map<string, Blob>();
+
+// The logo image for 'logo' watermarks, or null for text marks and missing logos
+export const loadWatermarkLogo = async (settings: WatermarkSettings): Promise<Blob | null> => {
+  if (settings.type !== 'logo' || !settings.logo_path) return null;
+
+  const cached = logoCache.get(settings.logo_path);
+  if (cached) return cached;
+
+  const { data, error } = await supabase.storage.from('gallery-files').download(settings.logo_path);
+  if (error) {
+    console.warn('Could not load watermark logo', error);
+    return null;
+  }
+
+  logoCache.set(settings.logo_path, data);
+  return data;
+};
+
+const extensionOf = (blob: Blob) => blob.type === 'image/webp' ? 'webp' : 'jpg';
+
+/**
+ * Re-renders the watermarked proof and grid thumbnail of every image in a gallery with the given settings.
+ * Each proof gets a fresh path so browsers and the CDN never serve the old watermark.
+ * Resolves to the number of files that could not be updated.
+ */
+export const regenerateProofs = async (
+  files: GalleryFile[],
+  settings: WatermarkSettings,
+  onProgress: (done: number, total: number) => void
+) => {
+  const images = files.filter(file => file.file_type === 'image');
+  const logo = await loadWatermarkLogo(settings);
+  const bucket = supabase.storage.from('gallery-files');
+  let done = 0;
+  let failed = 0;
+  onProgress(0, images.length);
+
+  // One at a time: every step holds a full preview in memory
+  for (const file of images) {
+    try {
+      const { data: source, error: downloadError } = await bucket.download(file.preview_path || file.file_path);
+      if (downloadError) throw downloadError;
+
+      const proofs = await generateProofs(source, settings, logo);
+      if (!proofs) throw new Error('Could not render proof');
+
+      const folder = getDerivativeFolder(file.file_path);
+      const version = Date.now();
+      const proofPath = `${folder}/proof-${version}.${extensionOf(proofs.proof)}`;
+      const proofThumbnailPath = `${folder}/proof-thumb-${version}.${extensionOf(proofs.proofThumbnail)}`;
+
+      for (const [path, blob] of [[proofPath, proofs.proof], [proofThumbnailPath, proofs.proofThumbnail]] as const) {
+        const { error: uploadError } = await bucket.upload(path, blob, {
+          cacheControl: '3600',
+          upsert: true,
+          contentType: blob.type
+        });
+        if (uploadError) throw uploadError;
+      }
+
+      const { error: updateError } = await supabase
+        .from('files')
+        .update({ proof_path: proofPath, proof_thumbnail_path: proofThumbnailPath })
+        .eq('id', file.id);
+      if (updateError) throw updateError;
+
+      const replaced = [file.proof_path, file.proof_thumbnail_path].filter((path): path is string => !!path);
+      if (replaced.length > 0) await bucket.remove(replaced);
+    } catch (err) {
+      console.error(`Could not update proof for ${file.id}`, err);
+      failed++;
+    } finally {
+      done++;
+      onProgress(done, images.length);
+    }
+  }
+
+  return failed;
+};
@@ -0,0 +1,26 @@
+// Transactional email through Resend's HTTP API. Supabase's own mailer only sends auth emails,
+// which would give every reviewer an account. Env: RESEND_API_KEY, EMAIL_FROM (e.g. "Studio <hello@example.com>").
+
+declare const Deno: any;
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export const sendEmail = async ({ to, subject, text }: OutgoingEmail) => {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  const from = Deno.env.get('EMAIL_FROM');
+  if (!apiKey || !from) throw new Error('Email is not configured');
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from, to, subject, text }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Email could not be sent (${response.status})`);
+  }
+};
@@ -0,0 +1,75 @@
+// Access checks shared by the functions that hand out file contents (gallery-urls, download).
+// They run with the service role, so every rule the database policies would apply is repeated here.
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-gallery-token, x-reviewer-token',
+}
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+export interface GalleryAccess {
+  gallery: {
+    id: string;
+    photographer_id: string;
+    link_enabled: boolean;
+    selection_enabled: boolean;
+    agreed_balance: number;
+    amount_paid: number;
+    currency: string;
+  };
+  isOwner: boolean;
+  // Paid in full and not in selection mode, or the photographer themselves
+  canDownload: boolean;
+}
+
+/**
+ * Loads the gallery and checks the caller may view it: the photographer always can, clients need
+ * an enabled link and, for password-protected galleries, a valid x-gallery-token.
+ * Returns an error Response when access is refused.
+ */
+export const checkGalleryAccess = async (supabaseClient: any, req: Request, galleryId: string): Promise<GalleryAccess | Response> => {
+  const { data: gallery, error: galleryError } = await supabaseClient
+    .from('galleries')
+    .select('id, photographer_id, link_enabled, selection_enabled, agreed_balance, amount_paid, currency')
+    .eq('id', galleryId)
+    .maybeSingle();
+
+  if (galleryError) throw galleryError;
+  if (!gallery) return jsonResponse({ error: 'Gallery not found' }, 404);
+
+  const jwt = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+  const { data: userData } = await supabaseClient.auth.getUser(jwt);
+  const isOwner = !!userData?.user && userData.user.id === gallery.photographer_id;
+
+  if (!isOwner) {
+    if (!gallery.link_enabled) return jsonResponse({ error: 'Gallery unavailable' }, 403);
+
+    const { data: secret } = await supabaseClient
+      .from('gallery_secrets')
+      .select('gallery_id')
+      .eq('gallery_id', gallery.id)
+      .maybeSingle();
+
+    if (secret) {
+      const { data: token } = await supabaseClient
+        .from('gallery_access_tokens')
+        .select('token')
+        .eq('gallery_id', gallery.id)
+        .eq('token', req.headers.get('x-gallery-token') ?? '')
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (!token) return jsonResponse({ error: 'Gallery is locked' }, 403);
+    }
+  }
+
+  const balance = (gallery.agreed_balance || 0) - (gallery.amount_paid || 0);
+  const canDownload = isOwner || (balance <= 0 && !gallery.selection_enabled);
+
+  return { gallery, isOwner, canDownload };
+};
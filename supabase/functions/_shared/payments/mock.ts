@@ -0,0 +1,40 @@
+// Development provider: no money moves. It answers its own callback a few seconds later,
+// like a payer confirming on their phone. Phone numbers ending in 000 simulate a cancelled payment.
+
+import type { PaymentProvider } from './provider.ts'
+
+declare const EdgeRuntime: any;
+
+const CONFIRM_DELAY_MS = 3000;
+
+export const mockProvider: PaymentProvider = {
+  name: 'mock',
+
+  requestPayment: async ({ amount, phone, callbackUrl }) => {
+    const providerReference = `MOCK-${crypto.randomUUID()}`;
+    const success = !phone.endsWith('000');
+
+    const confirm = new Promise(resolve => setTimeout(resolve, CONFIRM_DELAY_MS))
+      .then(() => fetch(callbackUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          providerReference,
+          success,
+          receiptNumber: success ? `MOCK${Date.now().toString(36).toUpperCase()}` : null,
+          amount: success ? amount : null,
+          description: success ? 'The service request is processed successfully.' : 'Request cancelled by user',
+        }),
+      }))
+      .catch(error => console.error('Mock callback failed', error));
+
+    // Keep the function alive after it has responded, until the callback is sent
+    if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(confirm);
+
+    return { providerReference };
+  },
+
+  parseCallback: (body) => body?.providerReference ? body : null,
+
+  callbackAck: { received: true },
+};
@@ -0,0 +1,82 @@
+// Safaricom Daraja STK push (Lipa na M-Pesa Online).
+// Env: MPESA_ENV (sandbox | production), MPESA_CONSUMER_KEY, MPESA_CONSUMER_SECRET,
+// MPESA_SHORTCODE, MPESA_PASSKEY and optionally MPESA_TRANSACTION_TYPE (defaults to a paybill).
+
+import type { PaymentProvider } from './provider.ts'
+
+declare const Deno: any;
+
+const baseUrl = () => Deno.env.get('MPESA_ENV') === 'production'
+  ? 'https://api.safaricom.co.ke'
+  : 'https://sandbox.safaricom.co.ke';
+
+const getAccessToken = async () => {
+  const credentials = btoa(`${Deno.env.get('MPESA_CONSUMER_KEY')}:${Deno.env.get('MPESA_CONSUMER_SECRET')}`);
+  const response = await fetch(`${baseUrl()}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${credentials}` },
+  });
+  if (!response.ok) throw new Error(`M-Pesa auth failed (${response.status})`);
+  const { access_token } = await response.json();
+  return access_token as string;
+};
+
+// Daraja wants the time in Nairobi as YYYYMMDDHHmmss
+const timestamp = () => {
+  const nairobi = new Date(Date.now() + 3 * 60 * 60 * 1000);
+  return nairobi.toISOString().replace(/[^0-9]/g, '').slice(0, 14);
+};
+
+export const mpesaProvider: PaymentProvider = {
+  name: 'mpesa',
+
+  requestPayment: async ({ amount, phone, reference, description, callbackUrl }) => {
+    const shortcode = Deno.env.get('MPESA_SHORTCODE');
+    const time = timestamp();
+
+    const response = await fetch(`${baseUrl()}/mpesa/stkpush/v1/processrequest`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${await getAccessToken()}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        BusinessShortCode: shortcode,
+        Password: btoa(`${shortcode}${Deno.env.get('MPESA_PASSKEY')}${time}`),
+        Timestamp: time,
+        TransactionType: Deno.env.get('MPESA_TRANSACTION_TYPE') ?? 'CustomerPayBillOnline',
+        Amount: Math.ceil(amount),
+        PartyA: phone,
+        PartyB: shortcode,
+        PhoneNumber: phone,
+        CallBackURL: callbackUrl,
+        // Shown on the payer's phone; Daraja caps these at 12 and 13 characters
+        AccountReference: reference.slice(0, 12),
+        TransactionDesc: description.slice(0, 13),
+      }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || result.ResponseCode !== '0') {
+      throw new Error(result.errorMessage || result.ResponseDescription || 'M-Pesa request failed');
+    }
+    return { providerReference: result.CheckoutRequestID };
+  },
+
+  parseCallback: (body) => {
+    const callback = body?.Body?.stkCallback;
+    if (!callback?.CheckoutRequestID) return null;
+
+    const items: { Name: string; Value?: unknown }[] = callback.CallbackMetadata?.Item ?? [];
+    const item = (name: string) => items.find(i => i.Name === name)?.Value;
+
+    return {
+      providerReference: callback.CheckoutRequestID,
+      success: callback.ResultCode === 0,
+      receiptNumber: (item('MpesaReceiptNumber') as string) ?? null,
+      amount: item('Amount') != null ? Number(item('Amount')) : null,
+      description: callback.ResultDesc ?? '',
+    };
+  },
+
+  callbackAck: { ResultCode: 0, ResultDesc: 'Accepted' },
+};
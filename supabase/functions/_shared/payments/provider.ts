@@ -0,0 +1,51 @@
+// Payment providers behind one interface, so the functions don't care whether money moves
+// through M-Pesa or the mock used in development. Pick one with the PAYMENT_PROVIDER env var.
+
+import { mpesaProvider } from './mpesa.ts'
+import { mockProvider } from './mock.ts'
+
+declare const Deno: any;
+
+export interface PaymentRequest {
+  amount: number; // Whole KES
+  phone: string; // International format without '+', e.g. 254712345678
+  reference: string; // Our transaction id, shown to the payer where the provider allows
+  description: string;
+  callbackUrl: string;
+}
+
+export interface CallbackResult {
+  providerReference: string;
+  success: boolean;
+  receiptNumber: string | null;
+  amount: number | null; // As confirmed by the provider
+  description: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  // Starts the payment on the payer's phone and returns the provider's id for it
+  requestPayment: (request: PaymentRequest) => Promise<{ providerReference: string }>;
+  // Turns the provider's callback body into a result, or null when it isn't a payment result
+  parseCallback: (body: any) => CallbackResult | null;
+  // Body the provider expects back from the callback endpoint
+  callbackAck: unknown;
+}
+
+// No default: a deploy that forgot the setting must not fall back to the mock, which confirms payments by itself
+export const getPaymentProvider = (): PaymentProvider => {
+  const name = Deno.env.get('PAYMENT_PROVIDER');
+  if (!name) throw new Error('PAYMENT_PROVIDER is not set');
+  if (name === 'mpesa') return mpesaProvider;
+  if (name === 'mock') return mockProvider;
+  throw new Error(`Unknown payment provider: ${name}`);
+};
+
+// Accepts 07XXXXXXXX, 01XXXXXXXX, +2547XXXXXXXX or 2547XXXXXXXX; returns 2547XXXXXXXX or null
+export const normalizeKenyanPhone = (input: string) => {
+  const digits = input.replace(/[^0-9]/g, '');
+  if (/^0[17]\d{8}$/.test(digits)) return `254${digits.slice(1)}`;
+  if (/^254[17]\d{8}$/.test(digits)) return digits;
+  if (/^[17]\d{8}$/.test(digits)) return `254${digits}`;
+  return null;
+};
@@ -26,7 +26,7 @@ export async function serve(req: Request) {
     const now = new Date().toISOString();
     const { data: expiredFiles, error: fetchError } = await supabaseClient
       .from('files')
-      .select('id, file_path')
+      .select('id, file_path, thumbnail_path, preview_path, proof_path, proof_thumbnail_path, poster_path')
       .lt('expires_at', now)
 
     if (fetchError) throw fetchError;
@@ -40,8 +40,10 @@ export async function serve(req: Request) {
 
     console.log(`Found ${expiredFiles.length} expired files. Deleting...`);
 
-    // 2. Delete from Storage
-    const pathsToRemove = expiredFiles.map(f => f.file_path);
+    // 2. Delete from Storage (originals plus their thumbnail / preview / proof / poster derivatives)
+    const pathsToRemove = expiredFiles.flatMap(f =>
+      [f.file_path, f.thumbnail_path, f.preview_path, f.proof_path, f.proof_thumbnail_path, f.poster_path].filter(Boolean)
+    );
     const { error: storageError } = await supabaseClient
       .storage
       .from('gallery-files')
@@ -0,0 +1,77 @@
+// This file is intended to be deployed to Supabase Edge Functions
+// Command: supabase functions deploy download
+// The only way clients get full-resolution originals. Payment and selection mode are checked here,
+// download counts are recorded, and short-lived signed URLs are returned.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse, checkGalleryAccess } from '../_shared/galleryAccess.ts'
+
+declare const Deno: any;
+
+// Long enough to start the download, short enough that a copied link is useless
+const URL_TTL_SECONDS = 5 * 60;
+
+export async function serve(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { gallery_id, file_ids } = await req.json();
+    if (!gallery_id || !Array.isArray(file_ids) || file_ids.length === 0) {
+      return jsonResponse({ error: 'gallery_id and file_ids are required' }, 400);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // 1. Link status and password
+    const access = await checkGalleryAccess(supabaseClient, req, gallery_id);
+    if (access instanceof Response) return access;
+    const { gallery, isOwner, canDownload } = access;
+
+    // 2. Selection mode and outstanding balance
+    if (!canDownload) {
+      return gallery.selection_enabled
+        ? jsonResponse({ error: 'Downloads are disabled while Selection Mode is active' }, 403)
+        : jsonResponse({ error: 'Payment required' }, 402);
+    }
+
+    // 3. Only unexpired files of this gallery
+    let query = supabaseClient
+      .from('files')
+      .select('id, file_path, original_name')
+      .eq('gallery_id', gallery.id)
+      .in('id', file_ids);
+
+    if (!isOwner) {
+      query = query.or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+    }
+
+    const { data: files, error: filesError } = await query;
+    if (filesError) throw filesError;
+    if (!files || files.length === 0) return jsonResponse({ error: 'Files not found' }, 404);
+
+    // 4. Sign with the original filename so a direct download saves under the right name
+    const bucket = supabaseClient.storage.from('gallery-files');
+    const signed = await Promise.all(files.map(async (f) => {
+      const name = f.original_name || f.file_path.split('/').pop();
+      const { data, error } = await bucket.createSignedUrl(f.file_path, URL_TTL_SECONDS, { download: name });
+      if (error) throw error;
+      return { id: f.id, name, url: data.signedUrl };
+    }));
+
+    // 5. Count client downloads only
+    if (!isOwner) {
+      const { error: countError } = await supabaseClient.rpc('record_downloads', { file_ids: files.map(f => f.id) });
+      if (countError) throw countError;
+    }
+
+    return jsonResponse({ files: signed });
+
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+}
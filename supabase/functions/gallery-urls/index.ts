@@ -0,0 +1,104 @@
+// This file is intended to be deployed to Supabase Edge Functions
+// Command: supabase functions deploy gallery-urls
+// The gallery-files bucket is private: this function is the only way clients get at file contents.
+// It re-checks the gallery on every call and hands out short-lived signed URLs for viewing.
+// Full-resolution downloads go through the download function instead.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse, checkGalleryAccess } from '../_shared/galleryAccess.ts'
+
+declare const Deno: any;
+
+// Keep SIGNED_URL_REFRESH_MS in services/signedUrls.ts comfortably below this
+const URL_TTL_SECONDS = 60 * 60;
+
+// On-the-fly transforms for images uploaded before thumbnails/previews were generated.
+// Transforms can't watermark, so they are only used once the client may download the originals anyway.
+const THUMBNAIL_TRANSFORM = { width: 400, height: 400, resize: 'cover', quality: 40 };
+const PREVIEW_TRANSFORM = { width: 2048, quality: 80 };
+
+type FilePaths = Record<'thumbnail_path' | 'preview_path' | 'proof_path' | 'proof_thumbnail_path', string | null>;
+
+export async function serve(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { gallery_id } = await req.json();
+    if (!gallery_id) return jsonResponse({ error: 'gallery_id is required' }, 400);
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // 1. Link status, password and payment
+    const access = await checkGalleryAccess(supabaseClient, req, gallery_id);
+    if (access instanceof Response) return access;
+    const { gallery, isOwner, canDownload } = access;
+
+    // 2. Expired files are left out for clients
+    let query = supabaseClient
+      .from('files')
+      .select('id, file_type, file_path, thumbnail_path, preview_path, proof_path, proof_thumbnail_path, poster_path')
+      .eq('gallery_id', gallery.id);
+
+    if (!isOwner) {
+      query = query.or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+    }
+
+    const { data: files, error: filesError } = await query;
+    if (filesError) throw filesError;
+
+    // 3. Until the gallery is paid (or while the client is still selecting) images are shown as
+    // watermarked low-res proofs, in the grid as well as the lightbox. Images without proofs (uploaded
+    // before watermarking, or never re-watermarked) show nothing until then.
+    // Videos have no derivative, so clients only get the poster frame then.
+    const bucket = supabaseClient.storage.from('gallery-files');
+    const thumbnailPathOf = (f: FilePaths) => canDownload ? f.thumbnail_path : f.proof_thumbnail_path || f.proof_path;
+    const previewPathOf = (f: FilePaths) => canDownload ? f.preview_path : f.proof_path;
+
+    const plainPaths = new Set<string>();
+    for (const f of files) {
+      [thumbnailPathOf(f), previewPathOf(f), f.poster_path].forEach(path => path && plainPaths.add(path));
+      if (isOwner || (canDownload && f.file_type === 'video')) plainPaths.add(f.file_path);
+    }
+
+    const signed = new Map<string, string>();
+    if (plainPaths.size > 0) {
+      const { data, error } = await bucket.createSignedUrls([...plainPaths], URL_TTL_SECONDS);
+      if (error) throw error;
+      data.forEach((item: { path: string; signedUrl: string; error: string | null }) => {
+        if (!item.error) signed.set(item.path, item.signedUrl);
+      });
+    }
+
+    const signTransformed = async (path: string, transform: Record<string, unknown>) => {
+      const { data } = await bucket.createSignedUrl(path, URL_TTL_SECONDS, { transform });
+      return data?.signedUrl ?? null;
+    };
+
+    const result: Record<string, unknown> = {};
+    await Promise.all(files.map(async (f) => {
+      const transformable = canDownload && f.file_type === 'image';
+      const thumbnailPath = thumbnailPathOf(f);
+      const previewPath = previewPathOf(f);
+      result[f.id] = {
+        thumbnail: thumbnailPath
+          ? signed.get(thumbnailPath) ?? null
+          : transformable ? await signTransformed(f.file_path, THUMBNAIL_TRANSFORM) : null,
+        preview: previewPath
+          ? signed.get(previewPath) ?? null
+          : transformable ? await signTransformed(f.file_path, PREVIEW_TRANSFORM) : null,
+        poster: f.poster_path ? signed.get(f.poster_path) ?? null : null,
+        original: signed.get(f.file_path) ?? null,
+      };
+    }));
+
+    return jsonResponse({ expires_in: URL_TTL_SECONDS, files: result });
+
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+}
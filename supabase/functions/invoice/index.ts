@@ -0,0 +1,87 @@
+// This file is intended to be deployed to Supabase Edge Functions
+// Command: supabase functions deploy invoice
+// Returns everything the browser needs to draw a gallery's invoice or receipt PDF: the photographer's
+// business details (with a signed logo URL), the gallery, its invoice number and the live payments.
+// Business details aren't readable by clients through the API, so both sides come through here.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse, checkGalleryAccess } from '../_shared/galleryAccess.ts'
+
+declare const Deno: any;
+
+const LOGO_URL_TTL_SECONDS = 5 * 60;
+
+export async function serve(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { gallery_id } = await req.json();
+    if (!gallery_id) return jsonResponse({ error: 'gallery_id is required' }, 400);
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // 1. Same access rules as viewing the gallery
+    const access = await checkGalleryAccess(supabaseClient, req, gallery_id);
+    if (access instanceof Response) return access;
+
+    // 2. Numbered on first use, by whoever asks first
+    const { data: invoiceNumber, error: numberError } = await supabaseClient
+      .rpc('assign_invoice_number', { target_gallery_id: gallery_id });
+    if (numberError) throw numberError;
+
+    const { data: gallery, error: galleryError } = await supabaseClient
+      .from('galleries')
+      .select('id, client_name, title, agreed_balance, amount_paid, currency, invoice_issued_at, created_at, included_selections, extra_price, extras_count, extras_amount')
+      .eq('id', gallery_id)
+      .single();
+    if (galleryError) throw galleryError;
+
+    // 3. Business details; photographers who never saved a profile just get their email
+    const { data: profile, error: profileError } = await supabaseClient
+      .from('profiles')
+      .select('email, business_name, business_logo_path, business_email, business_phone, business_address, tax_pin, locale')
+      .eq('id', access.gallery.photographer_id)
+      .maybeSingle();
+    if (profileError) throw profileError;
+
+    let logoUrl: string | null = null;
+    if (profile?.business_logo_path) {
+      const { data } = await supabaseClient.storage
+        .from('gallery-files')
+        .createSignedUrl(profile.business_logo_path, LOGO_URL_TTL_SECONDS);
+      logoUrl = data?.signedUrl ?? null;
+    }
+
+    // 4. Voided entries are left out; internal notes never leave the database
+    const { data: payments, error: paymentsError } = await supabaseClient
+      .from('payments')
+      .select('id, kind, amount, method, reference, paid_at')
+      .eq('gallery_id', gallery_id)
+      .is('voided_at', null)
+      .order('paid_at', { ascending: true });
+    if (paymentsError) throw paymentsError;
+
+    return jsonResponse({
+      invoice_number: invoiceNumber,
+      business: {
+        name: profile?.business_name || null,
+        email: profile?.business_email || profile?.email || null,
+        phone: profile?.business_phone || null,
+        address: profile?.business_address || null,
+        tax_pin: profile?.tax_pin || null,
+        logo_url: logoUrl,
+        locale: profile?.locale || 'en-KE',
+      },
+      gallery,
+      payments,
+    });
+
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+}
@@ -0,0 +1,71 @@
+// This file is intended to be deployed to Supabase Edge Functions
+// Command: supabase functions deploy payment-callback --no-verify-jwt
+// Receives the provider's result for payments started by the payments function. The provider
+// can't send a Supabase JWT, so the URL carries PAYMENT_CALLBACK_SECRET instead.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/galleryAccess.ts'
+import { getPaymentProvider } from '../_shared/payments/provider.ts'
+
+declare const Deno: any;
+
+export async function serve(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const secret = new URL(req.url).searchParams.get('secret');
+    if (!secret || secret !== Deno.env.get('PAYMENT_CALLBACK_SECRET')) {
+      return jsonResponse({ error: 'Forbidden' }, 403);
+    }
+
+    const provider = getPaymentProvider();
+    const result = provider.parseCallback(await req.json());
+    if (!result) return jsonResponse(provider.callbackAck);
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: transaction, error } = await supabaseClient
+      .from('payment_transactions')
+      .select('id, status')
+      .eq('provider_reference', result.providerReference)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    // Unknown or already settled: acknowledge so the provider stops retrying
+    if (!transaction || transaction.status !== 'pending') {
+      return jsonResponse(provider.callbackAck);
+    }
+
+    if (result.success) {
+      // Credits the gallery and unlocks downloads
+      const { error: completeError } = await supabaseClient.rpc('complete_payment', {
+        target_transaction_id: transaction.id,
+        receipt: result.receiptNumber,
+        confirmed_amount: result.amount,
+      });
+      if (completeError) throw completeError;
+
+      await supabaseClient
+        .from('payment_transactions')
+        .update({ result_description: result.description })
+        .eq('id', transaction.id);
+    } else {
+      await supabaseClient
+        .from('payment_transactions')
+        .update({ status: 'failed', result_description: result.description, completed_at: new Date().toISOString() })
+        .eq('id', transaction.id)
+        .eq('status', 'pending');
+    }
+
+    return jsonResponse(provider.callbackAck);
+
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+}
@@ -0,0 +1,95 @@
+// This file is intended to be deployed to Supabase Edge Functions
+// Command: supabase functions deploy payments
+// Env: PAYMENT_PROVIDER (mpesa | mock, required), PAYMENT_CALLBACK_SECRET, plus the provider's own settings.
+// Starts a payment for a gallery's outstanding balance ({ action: 'start', gallery_id, phone })
+// and reports on it while the client waits ({ action: 'status', gallery_id, transaction_id }).
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse, checkGalleryAccess } from '../_shared/galleryAccess.ts'
+import { getPaymentProvider, normalizeKenyanPhone } from '../_shared/payments/provider.ts'
+
+declare const Deno: any;
+
+export async function serve(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json();
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (body.action !== 'start' && body.action !== 'status') return jsonResponse({ error: 'Unknown action' }, 400);
+    if (!body.gallery_id) return jsonResponse({ error: 'gallery_id is required' }, 400);
+
+    // 1. The client must be able to see the gallery, whether paying or checking on a payment
+    const access = await checkGalleryAccess(supabaseClient, req, body.gallery_id);
+    if (access instanceof Response) return access;
+    const { gallery } = access;
+
+    if (body.action === 'status') {
+      // Scoped to the gallery so a transaction id alone reveals nothing about other galleries' payments
+      const { data: transaction, error } = await supabaseClient
+        .from('payment_transactions')
+        .select('id, status, amount, receipt_number, result_description')
+        .eq('id', body.transaction_id)
+        .eq('gallery_id', gallery.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!transaction) return jsonResponse({ error: 'Transaction not found' }, 404);
+      return jsonResponse(transaction);
+    }
+
+    // 2. The amount always comes from the database, never from the browser
+    const balance = (gallery.agreed_balance || 0) - (gallery.amount_paid || 0);
+    if (balance <= 0) return jsonResponse({ error: 'Nothing to pay' }, 400);
+    if (gallery.currency !== 'KES') return jsonResponse({ error: 'Mobile payments are only available for KES balances' }, 400);
+
+    const phone = normalizeKenyanPhone(body.phone ?? '');
+    if (!phone) return jsonResponse({ error: 'Enter a valid Safaricom number, e.g. 0712 345 678' }, 400);
+
+    const provider = getPaymentProvider();
+
+    const { data: transaction, error: insertError } = await supabaseClient
+      .from('payment_transactions')
+      .insert({ gallery_id: gallery.id, amount: Math.ceil(balance), phone, provider: provider.name })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    // 3. Ask the provider to prompt the payer's phone
+    const callbackUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-callback?secret=${Deno.env.get('PAYMENT_CALLBACK_SECRET') ?? ''}`;
+
+    try {
+      const { providerReference } = await provider.requestPayment({
+        amount: transaction.amount,
+        phone,
+        reference: transaction.id.replace(/-/g, '').slice(0, 12).toUpperCase(),
+        description: 'Gallery balance',
+        callbackUrl,
+      });
+
+      await supabaseClient
+        .from('payment_transactions')
+        .update({ provider_reference: providerReference })
+        .eq('id', transaction.id);
+    } catch (error) {
+      await supabaseClient
+        .from('payment_transactions')
+        .update({ status: 'failed', result_description: error.message })
+        .eq('id', transaction.id);
+      return jsonResponse({ error: error.message }, 502);
+    }
+
+    return jsonResponse({ transaction_id: transaction.id, amount: transaction.amount });
+
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+}
@@ -0,0 +1,129 @@
+// This file is intended to be deployed to Supabase Edge Functions
+// Command: supabase functions deploy reviewer-sign-in
+// Env: SITE_URL (where the app is hosted, e.g. https://gallery.example.com/), plus the settings in _shared/email.ts.
+// Lets a reviewer confirm their email without an auth account: emails a one-time link
+// ({ action: 'send', gallery_id, name, email }) and exchanges its code for their reviewer token
+// ({ action: 'verify', gallery_id, code }).
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse, checkGalleryAccess } from '../_shared/galleryAccess.ts'
+import { sendEmail } from '../_shared/email.ts'
+
+declare const Deno: any;
+
+const CODE_TTL_MS = 30 * 60 * 1000;
+// One link per address per gallery at a time, so the function can't be used to flood someone's inbox
+const RESEND_AFTER_MS = 60 * 1000;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashCode = async (code: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code))));
+
+export async function serve(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json();
+    if (body.action !== 'send' && body.action !== 'verify') return jsonResponse({ error: 'Unknown action' }, 400);
+    if (!body.gallery_id) return jsonResponse({ error: 'gallery_id is required' }, 400);
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // 1. The client must be able to see the gallery
+    const access = await checkGalleryAccess(supabaseClient, req, body.gallery_id);
+    if (access instanceof Response) return access;
+    const { gallery } = access;
+
+    if (body.action === 'verify') {
+      const { data: signIn, error } = await supabaseClient
+        .from('reviewer_sign_in_codes')
+        .select('id, email, name, expires_at')
+        .eq('gallery_id', gallery.id)
+        .eq('code_hash', await hashCode(body.code ?? ''))
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!signIn || new Date(signIn.expires_at) < new Date()) {
+        return jsonResponse({ error: 'This sign-in link has expired or was already used' }, 400);
+      }
+
+      // Each link works once
+      await supabaseClient.from('reviewer_sign_in_codes').delete().eq('id', signIn.id);
+
+      const { data: reviewer, error: joinError } = await supabaseClient.rpc('join_gallery_verified', {
+        target_gallery_id: gallery.id,
+        reviewer_name: signIn.name ?? '',
+        verified_email: signIn.email,
+      });
+      if (joinError) throw joinError;
+      return jsonResponse(reviewer);
+    }
+
+    // 2. Send a new link
+    const email = String(body.email ?? '').trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return jsonResponse({ error: 'Enter a valid email address' }, 400);
+
+    const siteUrl = Deno.env.get('SITE_URL');
+    if (!siteUrl) throw new Error('SITE_URL is not set');
+
+    const { data: recent, error: recentError } = await supabaseClient
+      .from('reviewer_sign_in_codes')
+      .select('id')
+      .eq('gallery_id', gallery.id)
+      .eq('email', email)
+      .gt('created_at', new Date(Date.now() - RESEND_AFTER_MS).toISOString())
+      .limit(1);
+
+    if (recentError) throw recentError;
+    if (recent && recent.length > 0) return jsonResponse({ error: 'A link was just sent. Please check your inbox.' }, 429);
+
+    // Expired links for this gallery are no use to anyone
+    await supabaseClient
+      .from('reviewer_sign_in_codes')
+      .delete()
+      .eq('gallery_id', gallery.id)
+      .lt('expires_at', new Date().toISOString());
+
+    const code = toHex(crypto.getRandomValues(new Uint8Array(32)));
+    const { data: signIn, error: insertError } = await supabaseClient
+      .from('reviewer_sign_in_codes')
+      .insert({
+        gallery_id: gallery.id,
+        email,
+        name: String(body.name ?? '').trim().slice(0, 100) || null,
+        code_hash: await hashCode(code),
+        expires_at: new Date(Date.now() + CODE_TTL_MS).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (insertError) throw insertError;
+
+    // The link always points at our own site, never at an address the browser sent
+    const link = new URL(siteUrl);
+    link.searchParams.set('review', gallery.id);
+    link.searchParams.set('code', code);
+
+    try {
+      await sendEmail({
+        to: email,
+        subject: 'Your gallery sign-in link',
+        text: `Open this link to continue choosing your favorites:\n\n${link.toString()}\n\nIt works once and expires in 30 minutes. If you didn't ask for it, you can ignore this email.`,
+      });
+    } catch (error) {
+      await supabaseClient.from('reviewer_sign_in_codes').delete().eq('id', signIn.id);
+      return jsonResponse({ error: error.message }, 502);
+    }
+
+    return jsonResponse({ sent: true });
+
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+}
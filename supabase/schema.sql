@@ -1,8 +1,29 @@
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
 
 -- 1. TABLES
 
+-- Photographer account settings (one row per auth user)
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id uuid REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  email text,
+  role text DEFAULT 'photographer' CHECK (role IN ('photographer', 'client')),
+  watermark jsonb, -- Default watermark for proofs; NULL = built-in "PROOF" text
+  business_name text, -- Business details printed on invoices and receipts
+  business_logo_path text,
+  business_email text,
+  business_phone text,
+  business_address text,
+  tax_pin text, -- KRA PIN
+  invoice_prefix text DEFAULT 'INV-',
+  last_invoice_number integer DEFAULT 0, -- Invoices are numbered sequentially per photographer
+  currency text DEFAULT 'KES', -- ISO 4217 code given to new galleries
+  locale text DEFAULT 'en-KE', -- Number format for amounts in the photographer's views and invoices
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
 -- Create galleries table
 CREATE TABLE IF NOT EXISTS public.galleries (
   id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -10,10 +31,35 @@ CREATE TABLE IF NOT EXISTS public.galleries (
   client_name text NOT NULL,
   title text,
   agreed_balance numeric DEFAULT 0,
-  amount_paid numeric DEFAULT 0,
+  currency text DEFAULT 'KES' NOT NULL, -- ISO 4217; every amount in the gallery and its ledger uses it
+  amount_paid numeric DEFAULT 0, -- Derived from the payments ledger; kept in sync by triggers
   link_enabled boolean DEFAULT true,
   selection_enabled boolean DEFAULT false,
   selection_status text DEFAULT 'pending', -- 'pending', 'submitted', 'completed'
+  selection_round integer DEFAULT 1, -- Current proofing round; earlier rounds are in selection_rounds
+  selection_note text, -- Photographer's note to the client when reopening or starting a round
+  included_selections integer CHECK (included_selections >= 0), -- Photos the package covers; NULL = no limit
+  extra_price numeric DEFAULT 0 CHECK (extra_price >= 0), -- Charged per selected photo beyond the package
+  extras_count integer DEFAULT 0, -- Extras charged at the last submission
+  extras_amount numeric DEFAULT 0, -- Included in agreed_balance
+  strip_location boolean DEFAULT true, -- Remove GPS data from client-facing copies on upload
+  expiry_mode text DEFAULT 'duration' CHECK (expiry_mode IN ('duration', 'date', 'never')),
+  expiry_hours numeric DEFAULT 24, -- File lifetime for 'duration'
+  expiry_date timestamptz, -- Fixed end date for 'date'
+  password_protected boolean DEFAULT false, -- Mirrors gallery_secrets so the UI knows to ask for a password
+  watermark jsonb, -- Per-gallery override of profiles.watermark
+  sort_mode text DEFAULT 'custom' CHECK (sort_mode IN ('custom', 'captured', 'filename', 'uploaded')), -- Default order for the client view
+  invoice_number text, -- e.g. INV-0042, assigned the first time an invoice is generated
+  invoice_issued_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create sections table (named albums within a gallery, e.g. "Ceremony")
+CREATE TABLE IF NOT EXISTS public.sections (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
   created_at timestamptz DEFAULT now()
 );
 
@@ -21,20 +67,122 @@ CREATE TABLE IF NOT EXISTS public.galleries (
 CREATE TABLE IF NOT EXISTS public.files (
   id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
   gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
-  file_url text NOT NULL,
-  file_path text NOT NULL,
+  file_path text NOT NULL, -- Storage object path; URLs are signed at read time by the gallery-urls function
+  original_name text, -- Filename as uploaded; file_path holds a sanitized copy
+  size_bytes bigint,
+  mime_type text,
+  captured_at timestamptz, -- EXIF capture time
+  caption text,
+  section_id uuid REFERENCES public.sections(id) ON DELETE SET NULL,
+  position integer, -- Manual order within the section
+  thumbnail_path text, -- Small grid derivative generated in the browser
+  preview_path text, -- ~2048px web preview
+  proof_path text, -- Watermarked low-res preview shown while the gallery is unpaid
+  proof_thumbnail_path text, -- Watermarked grid thumbnail shown while the gallery is unpaid
+  content_hash text, -- SHA-256 of the original, used for duplicate detection
+  poster_path text, -- Video poster frame
+  duration numeric, -- Video length in seconds
+  width integer,
+  height integer,
   file_type text CHECK (file_type IN ('image', 'video')),
   created_at timestamptz DEFAULT now(),
-  expires_at timestamptz NOT NULL,
+  expires_at timestamptz, -- NULL = never expires
+  expiry_override boolean DEFAULT false, -- Per-file expiry that the gallery policy doesn't overwrite
   download_count integer DEFAULT 0
 );
 
+-- People reviewing a gallery (e.g. the couple and their planner). Each gets a token that the client page
+-- sends in the x-reviewer-token header; it is never readable through the API.
+CREATE TABLE IF NOT EXISTS public.reviewers (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 100),
+  email text,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL, -- Legacy: sign-in links used to create an auth account
+  email_verified_at timestamptz, -- Set when the email was confirmed by a sign-in link
+  token uuid DEFAULT gen_random_uuid() NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Sign-in links the reviewer-sign-in function emailed, so reviewers confirm an email without getting an
+-- auth account. Only a hash of each link's code is kept. No grants: only the service role uses it.
+CREATE TABLE IF NOT EXISTS public.reviewer_sign_in_codes (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  name text,
+  code_hash text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
 -- Create selections table (Junction table)
+-- Each reviewer has their own picks. Rows without a reviewer are the submitted list the photographer works from.
 CREATE TABLE IF NOT EXISTS public.selections (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  file_id uuid REFERENCES public.files(id) ON DELETE CASCADE NOT NULL,
+  reviewer_id uuid REFERENCES public.reviewers(id) ON DELETE CASCADE, -- NULL = submitted list
+  created_at timestamptz DEFAULT now()
+);
+
+-- Picks from finished proofing rounds, kept when start_selection_round() clears the selections table
+CREATE TABLE IF NOT EXISTS public.selection_rounds (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  round integer NOT NULL,
+  status text NOT NULL, -- Status the round ended in: 'submitted' or 'completed'
+  file_ids uuid[] DEFAULT '{}' NOT NULL, -- Files deleted since may no longer exist
+  closed_at timestamptz DEFAULT now(),
+  UNIQUE (gallery_id, round)
+);
+
+-- Comment threads on individual files: client notes and edit requests, and the photographer's replies.
+-- A client comment stays open until the photographer resolves it.
+CREATE TABLE IF NOT EXISTS public.file_comments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  file_id uuid REFERENCES public.files(id) ON DELETE CASCADE NOT NULL,
+  author text NOT NULL CHECK (author IN ('client', 'photographer')),
+  kind text DEFAULT 'note' NOT NULL CHECK (kind IN ('note', 'edit')), -- 'edit' = edit request
+  body text NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 2000),
+  reviewer_id uuid REFERENCES public.reviewers(id) ON DELETE SET NULL, -- Who wrote a client comment
+  resolved_at timestamptz, -- Client comments only
+  created_at timestamptz DEFAULT now()
+);
+
+-- Named lists clients put together, e.g. "Album" or "For Grandma". Shared by everyone reviewing the
+-- gallery and separate from the selection: a file can be in any number of lists.
+CREATE TABLE IF NOT EXISTS public.favorite_lists (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
   gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 100),
+  reviewer_id uuid REFERENCES public.reviewers(id) ON DELETE SET NULL, -- Who created it
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.favorite_list_files (
+  list_id uuid REFERENCES public.favorite_lists(id) ON DELETE CASCADE NOT NULL,
   file_id uuid REFERENCES public.files(id) ON DELETE CASCADE NOT NULL,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL, -- Same as the list's, for the policies
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (list_id, file_id)
+);
+
+-- Gallery passwords live in their own table so the public gallery row never carries the hash.
+-- No policies are defined on it: only the SECURITY DEFINER functions below can read or write it.
+CREATE TABLE IF NOT EXISTS public.gallery_secrets (
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE PRIMARY KEY,
+  password_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Short-lived tokens handed out by unlock_gallery(); clients send them in the x-gallery-token header
+CREATE TABLE IF NOT EXISTS public.gallery_access_tokens (
+  token uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
   created_at timestamptz DEFAULT now(),
-  PRIMARY KEY (gallery_id, file_id)
+  expires_at timestamptz NOT NULL
 );
 
 -- Create activity logs
@@ -45,13 +193,162 @@ CREATE TABLE IF NOT EXISTS public.activity_logs (
   timestamp timestamptz DEFAULT now()
 );
 
+-- Client payments started from the gallery (M-Pesa STK push or the mock provider).
+-- Written only by the payments Edge Functions; photographers can read their own.
+CREATE TABLE IF NOT EXISTS public.payment_transactions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  phone text NOT NULL,
+  provider text NOT NULL, -- 'mpesa' | 'mock'
+  provider_reference text UNIQUE, -- e.g. M-Pesa CheckoutRequestID
+  receipt_number text, -- e.g. M-Pesa receipt, set on success
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  result_description text,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+-- Payment ledger: every amount received or refunded, whoever recorded it.
+-- Rows are never edited or deleted. Mistakes are voided, money given back is a 'refund' row.
+CREATE TABLE IF NOT EXISTS public.payments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  gallery_id uuid REFERENCES public.galleries(id) ON DELETE CASCADE NOT NULL,
+  kind text DEFAULT 'payment' NOT NULL CHECK (kind IN ('payment', 'refund')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('cash', 'mpesa', 'bank', 'card', 'other')),
+  reference text, -- e.g. M-Pesa receipt or bank reference
+  paid_at timestamptz DEFAULT now() NOT NULL,
+  note text, -- Internal; not shown to clients
+  recorded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL = recorded automatically
+  transaction_id uuid UNIQUE REFERENCES public.payment_transactions(id) ON DELETE SET NULL,
+  voided_at timestamptz,
+  voided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  void_reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Columns added after the initial release (safe to re-run on existing projects)
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS strip_location boolean DEFAULT true;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS expiry_mode text DEFAULT 'duration' CHECK (expiry_mode IN ('duration', 'date', 'never'));
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS expiry_hours numeric DEFAULT 24;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS expiry_date timestamptz;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS password_protected boolean DEFAULT false;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS watermark jsonb;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS sort_mode text DEFAULT 'custom' CHECK (sort_mode IN ('custom', 'captured', 'filename', 'uploaded'));
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS currency text DEFAULT 'KES' NOT NULL;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS included_selections integer CHECK (included_selections >= 0);
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS selection_round integer DEFAULT 1;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS selection_note text;
+-- Selections used to be keyed on (gallery_id, file_id). Existing rows become the submitted list.
+ALTER TABLE public.selections ADD COLUMN IF NOT EXISTS reviewer_id uuid REFERENCES public.reviewers(id) ON DELETE CASCADE;
+ALTER TABLE public.selections ADD COLUMN IF NOT EXISTS id uuid DEFAULT gen_random_uuid();
+ALTER TABLE public.selections DROP CONSTRAINT IF EXISTS selections_pkey;
+ALTER TABLE public.selections ADD PRIMARY KEY (id);
+ALTER TABLE public.file_comments ADD COLUMN IF NOT EXISTS reviewer_id uuid REFERENCES public.reviewers(id) ON DELETE SET NULL;
+ALTER TABLE public.reviewers ADD COLUMN IF NOT EXISTS email_verified_at timestamptz;
+UPDATE public.reviewers SET email_verified_at = created_at WHERE user_id IS NOT NULL AND email_verified_at IS NULL;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS extra_price numeric DEFAULT 0 CHECK (extra_price >= 0);
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS extras_count integer DEFAULT 0;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS extras_amount numeric DEFAULT 0;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS invoice_number text;
+ALTER TABLE public.galleries ADD COLUMN IF NOT EXISTS invoice_issued_at timestamptz;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_name text;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_logo_path text;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_email text;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_phone text;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS business_address text;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS tax_pin text;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS invoice_prefix text DEFAULT 'INV-';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS last_invoice_number integer DEFAULT 0;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS currency text DEFAULT 'KES';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS locale text DEFAULT 'en-KE';
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS thumbnail_path text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS preview_path text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS proof_path text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS proof_thumbnail_path text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS poster_path text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS duration numeric;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS width integer;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS height integer;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS original_name text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS size_bytes bigint;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS mime_type text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS captured_at timestamptz;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS caption text;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS section_id uuid REFERENCES public.sections(id) ON DELETE SET NULL;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS position integer;
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS expiry_override boolean DEFAULT false;
+ALTER TABLE public.files ALTER COLUMN expires_at DROP NOT NULL;
+-- Public URLs were stored here while the bucket was public. file_path has always been recorded alongside,
+-- so dropping the column loses nothing; deploy the gallery-urls function and the new frontend first.
+ALTER TABLE public.files DROP COLUMN IF EXISTS file_url;
+
+CREATE INDEX IF NOT EXISTS files_gallery_content_hash_idx ON public.files (gallery_id, content_hash);
+CREATE INDEX IF NOT EXISTS sections_gallery_idx ON public.sections (gallery_id, position);
+CREATE INDEX IF NOT EXISTS gallery_access_tokens_gallery_idx ON public.gallery_access_tokens (gallery_id);
+CREATE INDEX IF NOT EXISTS payment_transactions_gallery_idx ON public.payment_transactions (gallery_id, created_at);
+CREATE INDEX IF NOT EXISTS payments_gallery_idx ON public.payments (gallery_id, paid_at);
+CREATE INDEX IF NOT EXISTS file_comments_gallery_idx ON public.file_comments (gallery_id, file_id, created_at);
+CREATE INDEX IF NOT EXISTS reviewers_gallery_idx ON public.reviewers (gallery_id);
+CREATE INDEX IF NOT EXISTS reviewer_sign_in_codes_email_idx ON public.reviewer_sign_in_codes (gallery_id, email, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS selections_reviewer_file_idx ON public.selections (gallery_id, file_id, reviewer_id) NULLS NOT DISTINCT;
+CREATE INDEX IF NOT EXISTS favorite_lists_gallery_idx ON public.favorite_lists (gallery_id, created_at);
+CREATE INDEX IF NOT EXISTS favorite_list_files_gallery_idx ON public.favorite_list_files (gallery_id);
+
 -- 2. ROW LEVEL SECURITY (RLS)
 
 -- Enable RLS
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.galleries ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.files ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.selections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reviewers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reviewer_sign_in_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.selection_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.file_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.favorite_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.favorite_list_files ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.activity_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gallery_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gallery_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- True when the gallery has no password, or the request carries a valid access token for it.
+-- PostgREST and Storage expose the request headers through request.headers.
+CREATE OR REPLACE FUNCTION public.gallery_unlocked(target_gallery_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.gallery_secrets s WHERE s.gallery_id = target_gallery_id
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.gallery_access_tokens t
+    WHERE t.gallery_id = target_gallery_id
+    AND t.expires_at > now()
+    AND t.token::text = coalesce(current_setting('request.headers', true)::json->>'x-gallery-token', '')
+  );
+$$;
+
+-- The reviewer identified by the request's x-reviewer-token header, or NULL
+CREATE OR REPLACE FUNCTION public.current_reviewer_id(target_gallery_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id FROM public.reviewers r
+  WHERE r.gallery_id = target_gallery_id
+  AND r.token::text = coalesce(current_setting('request.headers', true)::json->>'x-reviewer-token', '');
+$$;
 
 -- POLICIES FOR GALLERIES
 
@@ -67,7 +364,7 @@ DROP POLICY IF EXISTS "Public can view active galleries" ON public.galleries;
 CREATE POLICY "Public can view active galleries"
 ON public.galleries
 FOR SELECT
-USING (link_enabled = true);
+USING (link_enabled = true AND public.gallery_unlocked(id));
 
 -- Remove insecure update policy
 DROP POLICY IF EXISTS "Public can update status" ON public.galleries;
@@ -88,18 +385,51 @@ USING (
 
 -- Public can VIEW/SELECT files only if:
 -- 1. Gallery is enabled
--- 2. File is NOT expired
+-- 2. File is NOT expired (or never expires)
 DROP POLICY IF EXISTS "Public can view non-expired files in active galleries" ON public.files;
 CREATE POLICY "Public can view non-expired files in active galleries"
 ON public.files
 FOR SELECT
 USING (
-  expires_at > now() AND
+  (expires_at IS NULL OR expires_at > now()) AND
   gallery_id IN (
     SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.gallery_unlocked(gallery_id)
+);
+
+-- POLICIES FOR PROFILES
+
+DROP POLICY IF EXISTS "Users can manage own profile" ON public.profiles;
+CREATE POLICY "Users can manage own profile"
+ON public.profiles
+FOR ALL
+USING (id = auth.uid())
+WITH CHECK (id = auth.uid());
+
+-- POLICIES FOR SECTIONS (same access rules as files)
+
+DROP POLICY IF EXISTS "Photographers can manage own sections" ON public.sections;
+CREATE POLICY "Photographers can manage own sections"
+ON public.sections
+FOR ALL
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
   )
 );
 
+DROP POLICY IF EXISTS "Public can view sections in active galleries" ON public.sections;
+CREATE POLICY "Public can view sections in active galleries"
+ON public.sections
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.gallery_unlocked(gallery_id)
+);
+
 -- POLICIES FOR SELECTIONS
 
 -- Photographers can view selections for their galleries
@@ -113,20 +443,45 @@ USING (
   )
 );
 
+-- Photographers can see who is reviewing. Clients join through join_gallery() and can't list reviewers.
+DROP POLICY IF EXISTS "Photographers can view reviewers" ON public.reviewers;
+CREATE POLICY "Photographers can view reviewers"
+ON public.reviewers
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+);
+
+-- Photographers can view earlier proofing rounds. Rows are only written by start_selection_round().
+DROP POLICY IF EXISTS "Photographers can view selection rounds" ON public.selection_rounds;
+CREATE POLICY "Photographers can view selection rounds"
+ON public.selection_rounds
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+);
+
 -- Public can manage selections (View, Insert, Delete) if gallery is enabled
 DROP POLICY IF EXISTS "Public can manage selections" ON public.selections;
 
 -- Public can VIEW selections
+DROP POLICY IF EXISTS "Public can view selections" ON public.selections;
 CREATE POLICY "Public can view selections"
 ON public.selections
 FOR SELECT
 USING (
   gallery_id IN (
     SELECT id FROM public.galleries WHERE link_enabled = true
-  )
+  ) AND
+  public.gallery_unlocked(gallery_id)
 );
 
--- Public can INSERT selections
+-- Public can INSERT selections, into their own reviewer list only
+DROP POLICY IF EXISTS "Public can insert selections" ON public.selections;
 CREATE POLICY "Public can insert selections"
 ON public.selections
 FOR INSERT
@@ -136,10 +491,13 @@ WITH CHECK (
     WHERE link_enabled = true 
     AND selection_enabled = true
     AND selection_status = 'pending'
-  )
+  ) AND
+  reviewer_id = public.current_reviewer_id(gallery_id) AND
+  public.gallery_unlocked(gallery_id)
 );
 
--- Public can DELETE selections
+-- Public can DELETE selections, from their own reviewer list only
+DROP POLICY IF EXISTS "Public can delete selections" ON public.selections;
 CREATE POLICY "Public can delete selections"
 ON public.selections
 FOR DELETE
@@ -149,9 +507,257 @@ USING (
     WHERE link_enabled = true 
     AND selection_enabled = true
     AND selection_status = 'pending'
+  ) AND
+  reviewer_id = public.current_reviewer_id(gallery_id) AND
+  public.gallery_unlocked(gallery_id)
+);
+
+-- POLICIES FOR FILE COMMENTS
+
+-- Photographers can read, reply to and resolve comments on their galleries
+DROP POLICY IF EXISTS "Photographers can view comments" ON public.file_comments;
+CREATE POLICY "Photographers can view comments"
+ON public.file_comments
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Photographers can reply to comments" ON public.file_comments;
+CREATE POLICY "Photographers can reply to comments"
+ON public.file_comments
+FOR INSERT
+WITH CHECK (
+  author = 'photographer'
+  AND resolved_at IS NULL
+  AND gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.files
+    WHERE id = file_id
+    AND gallery_id = file_comments.gallery_id
+  )
+);
+
+DROP POLICY IF EXISTS "Photographers can resolve comments" ON public.file_comments;
+CREATE POLICY "Photographers can resolve comments"
+ON public.file_comments
+FOR UPDATE
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+);
+
+-- Public can VIEW comments on the same terms as selections
+DROP POLICY IF EXISTS "Public can view comments" ON public.file_comments;
+CREATE POLICY "Public can view comments"
+ON public.file_comments
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.gallery_unlocked(gallery_id)
+);
+
+-- Public can comment on their own favorites while the selection is open
+DROP POLICY IF EXISTS "Public can insert comments" ON public.file_comments;
+CREATE POLICY "Public can insert comments"
+ON public.file_comments
+FOR INSERT
+WITH CHECK (
+  author = 'client'
+  AND resolved_at IS NULL
+  AND gallery_id IN (
+    SELECT id FROM public.galleries
+    WHERE link_enabled = true
+    AND selection_enabled = true
+    AND selection_status = 'pending'
+  )
+  AND reviewer_id = public.current_reviewer_id(gallery_id)
+  AND EXISTS (
+    SELECT 1 FROM public.selections s
+    WHERE s.gallery_id = file_comments.gallery_id
+    AND s.file_id = file_comments.file_id
+    AND s.reviewer_id = file_comments.reviewer_id
+  )
+  AND public.gallery_unlocked(gallery_id)
+);
+
+
+-- POLICIES FOR FAVORITE LISTS
+
+-- Photographers can see every list on their galleries
+DROP POLICY IF EXISTS "Photographers can view favorite lists" ON public.favorite_lists;
+CREATE POLICY "Photographers can view favorite lists"
+ON public.favorite_lists
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Photographers can view favorite list files" ON public.favorite_list_files;
+CREATE POLICY "Photographers can view favorite list files"
+ON public.favorite_list_files
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+);
+
+-- Public can VIEW lists on the same terms as selections
+DROP POLICY IF EXISTS "Public can view favorite lists" ON public.favorite_lists;
+CREATE POLICY "Public can view favorite lists"
+ON public.favorite_lists
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.gallery_unlocked(gallery_id)
+);
+
+DROP POLICY IF EXISTS "Public can view favorite list files" ON public.favorite_list_files;
+CREATE POLICY "Public can view favorite list files"
+ON public.favorite_list_files
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.gallery_unlocked(gallery_id)
+);
+
+-- Anyone reviewing the gallery can create, rename and delete lists. Unlike selections, lists stay
+-- editable after the selection is submitted and in galleries without Selection Mode.
+DROP POLICY IF EXISTS "Public can create favorite lists" ON public.favorite_lists;
+CREATE POLICY "Public can create favorite lists"
+ON public.favorite_lists
+FOR INSERT
+WITH CHECK (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  reviewer_id = public.current_reviewer_id(gallery_id) AND
+  public.gallery_unlocked(gallery_id)
+);
+
+DROP POLICY IF EXISTS "Public can rename favorite lists" ON public.favorite_lists;
+CREATE POLICY "Public can rename favorite lists"
+ON public.favorite_lists
+FOR UPDATE
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.current_reviewer_id(gallery_id) IS NOT NULL AND
+  public.gallery_unlocked(gallery_id)
+);
+
+DROP POLICY IF EXISTS "Public can delete favorite lists" ON public.favorite_lists;
+CREATE POLICY "Public can delete favorite lists"
+ON public.favorite_lists
+FOR DELETE
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.current_reviewer_id(gallery_id) IS NOT NULL AND
+  public.gallery_unlocked(gallery_id)
+);
+
+-- Public can add files to a list, as long as list and file belong to the same gallery
+DROP POLICY IF EXISTS "Public can add favorite list files" ON public.favorite_list_files;
+CREATE POLICY "Public can add favorite list files"
+ON public.favorite_list_files
+FOR INSERT
+WITH CHECK (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  )
+  AND public.current_reviewer_id(gallery_id) IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM public.favorite_lists l
+    WHERE l.id = list_id
+    AND l.gallery_id = favorite_list_files.gallery_id
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.files f
+    WHERE f.id = file_id
+    AND f.gallery_id = favorite_list_files.gallery_id
   )
+  AND public.gallery_unlocked(gallery_id)
+);
+
+DROP POLICY IF EXISTS "Public can remove favorite list files" ON public.favorite_list_files;
+CREATE POLICY "Public can remove favorite list files"
+ON public.favorite_list_files
+FOR DELETE
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.current_reviewer_id(gallery_id) IS NOT NULL AND
+  public.gallery_unlocked(gallery_id)
+);
+
+-- POLICIES FOR PAYMENT TRANSACTIONS (inserts and updates come from the service role only)
+DROP POLICY IF EXISTS "Photographers can view payments" ON public.payment_transactions;
+CREATE POLICY "Photographers can view payments"
+ON public.payment_transactions
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+);
+
+-- POLICIES FOR PAYMENTS LEDGER
+-- Photographers insert entries themselves; voiding goes through void_payment() and nothing is deleted
+DROP POLICY IF EXISTS "Photographers can view ledger" ON public.payments;
+CREATE POLICY "Photographers can view ledger"
+ON public.payments
+FOR SELECT
+USING (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Photographers can record payments" ON public.payments;
+CREATE POLICY "Photographers can record payments"
+ON public.payments
+FOR INSERT
+WITH CHECK (
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE photographer_id = auth.uid()
+  ) AND
+  recorded_by = auth.uid() AND
+  transaction_id IS NULL AND
+  voided_at IS NULL
 );
 
+-- Clients see their receipts (anon only gets the receipt columns, see the grants below). Limited to anon:
+-- authenticated can read every column, and anyone can sign up, so notes and voided rows would leak.
+DROP POLICY IF EXISTS "Public can view receipts" ON public.payments;
+CREATE POLICY "Public can view receipts"
+ON public.payments
+FOR SELECT
+TO anon
+USING (
+  voided_at IS NULL AND
+  gallery_id IN (
+    SELECT id FROM public.galleries WHERE link_enabled = true
+  ) AND
+  public.gallery_unlocked(gallery_id)
+);
 
 -- POLICIES FOR ACTIVITY LOGS
 DROP POLICY IF EXISTS "Photographers can manage logs" ON public.activity_logs;
@@ -178,24 +784,23 @@ WITH CHECK (
 
 -- 3. FUNCTIONS
 
--- Helper to increment download count safely (Hardened)
-CREATE OR REPLACE FUNCTION increment_download(row_id uuid)
+-- Download counts are only recorded by the download Edge Function, after it has checked payment
+DROP FUNCTION IF EXISTS increment_download(uuid);
+
+CREATE OR REPLACE FUNCTION record_downloads(file_ids uuid[])
 RETURNS void
-LANGUAGE plpgsql
+LANGUAGE sql
 SECURITY DEFINER
+SET search_path = public
 AS $$
-BEGIN
   UPDATE public.files
   SET download_count = download_count + 1
-  WHERE id = row_id
-  AND EXISTS (
-    SELECT 1 FROM public.galleries g
-    WHERE g.id = files.gallery_id
-    AND g.link_enabled = true
-  );
-END;
+  WHERE id = ANY(file_ids);
 $$;
 
+REVOKE EXECUTE ON FUNCTION record_downloads(uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_downloads(uuid[]) TO service_role;
+
 -- 1. SECURE ACTIVITY LOGS
 -- Revoke direct insert permission from anon (public)
 REVOKE INSERT ON public.activity_logs FROM anon;
@@ -204,13 +809,20 @@ REVOKE INSERT ON public.activity_logs FROM anon;
 DROP POLICY IF EXISTS "Public can insert logs" ON public.activity_logs;
 
 -- 2. UPDATE SUBMIT_SELECTION RPC
-CREATE OR REPLACE FUNCTION submit_selection(gallery_id uuid)
+-- The reviewer submits their own picks, or (merged = true) everyone's picks combined. Either way the
+-- result is copied into the submitted list (reviewer_id NULL), which is what gets charged and delivered.
+DROP FUNCTION IF EXISTS submit_selection(uuid);
+CREATE OR REPLACE FUNCTION submit_selection(gallery_id uuid, merged boolean DEFAULT false)
 RETURNS void
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
 DECLARE
   gallery_record public.galleries%ROWTYPE;
+  reviewer_record public.reviewers%ROWTYPE;
+  selected_count integer;
+  extra_count integer := 0;
+  extra_total numeric := 0;
 BEGIN
   -- Fetch gallery and lock row
   SELECT * INTO gallery_record
@@ -235,14 +847,61 @@ BEGIN
     RAISE EXCEPTION 'Selection already submitted';
   END IF;
 
-  -- Update status
+  IF NOT public.gallery_unlocked(gallery_record.id) THEN
+    RAISE EXCEPTION 'Gallery is locked';
+  END IF;
+
+  SELECT * INTO reviewer_record
+  FROM public.reviewers r
+  WHERE r.id = public.current_reviewer_id(gallery_record.id);
+
+  IF reviewer_record.id IS NULL THEN
+    RAISE EXCEPTION 'Reviewer not identified';
+  END IF;
+
+  -- Replace the submitted list
+  DELETE FROM public.selections s
+  WHERE s.gallery_id = gallery_record.id
+  AND s.reviewer_id IS NULL;
+
+  INSERT INTO public.selections (gallery_id, file_id, reviewer_id)
+  SELECT DISTINCT gallery_record.id, s.file_id, NULL::uuid
+  FROM public.selections s
+  WHERE s.gallery_id = gallery_record.id
+  AND s.reviewer_id IS NOT NULL
+  AND (merged OR s.reviewer_id = reviewer_record.id);
+
+  -- Photos beyond the package are charged here, never by the browser
+  SELECT count(*) INTO selected_count
+  FROM public.selections s
+  WHERE s.gallery_id = gallery_record.id
+  AND s.reviewer_id IS NULL;
+
+  IF gallery_record.included_selections IS NOT NULL THEN
+    extra_count := greatest(0, selected_count - gallery_record.included_selections);
+    extra_total := extra_count * coalesce(gallery_record.extra_price, 0);
+  END IF;
+
+  -- Update status. Extras from an earlier submission are replaced, not added again.
   UPDATE public.galleries
-  SET selection_status = 'submitted'
-  WHERE id = gallery_id;
+  SET selection_status = 'submitted',
+      selection_note = NULL,
+      agreed_balance = coalesce(agreed_balance, 0) - coalesce(extras_amount, 0) + extra_total,
+      extras_count = extra_count,
+      extras_amount = extra_total
+  WHERE id = gallery_record.id;
 
   -- Insert log entry (Securely on server side)
   INSERT INTO public.activity_logs (gallery_id, action)
-  VALUES (gallery_id, 'Client submitted selection');
+  VALUES (
+    gallery_record.id,
+    reviewer_record.name || ' submitted '
+      || CASE WHEN merged THEN 'everyone''s picks: ' ELSE 'a selection of ' END
+      || selected_count || ' photos'
+      || CASE WHEN extra_count > 0
+           THEN ' (' || extra_count || ' extras, ' || gallery_record.currency || ' ' || extra_total || ')'
+           ELSE '' END
+  );
 
 END;
 $$;
@@ -256,10 +915,12 @@ AS $$
 DECLARE
   expired_paths text[];
 BEGIN
-  -- Identify expired files
-  SELECT array_agg(file_path) INTO expired_paths
-  FROM public.files
-  WHERE expires_at < now();
+  -- Identify expired files (originals plus their derivatives)
+  SELECT array_agg(p) INTO expired_paths
+  FROM public.files f,
+  unnest(ARRAY[f.file_path, f.thumbnail_path, f.preview_path, f.proof_path, f.proof_thumbnail_path, f.poster_path]) AS p
+  WHERE f.expires_at < now()
+  AND p IS NOT NULL;
 
   IF expired_paths IS NOT NULL THEN
     -- Delete from Storage
@@ -274,6 +935,63 @@ BEGIN
 END;
 $$;
 
+-- Reordering helpers. SECURITY INVOKER, so the RLS policies above decide which rows can move.
+CREATE OR REPLACE FUNCTION reorder_sections(section_ids uuid[])
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.sections s
+  SET position = o.idx - 1
+  FROM unnest(section_ids) WITH ORDINALITY AS o(id, idx)
+  WHERE s.id = o.id;
+$$;
+
+CREATE OR REPLACE FUNCTION reorder_files(file_ids uuid[])
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.files f
+  SET position = o.idx - 1
+  FROM unnest(file_ids) WITH ORDINALITY AS o(id, idx)
+  WHERE f.id = o.id;
+$$;
+
+-- Expiry helpers. SECURITY INVOKER, so only the gallery owner's files are touched.
+
+-- Re-applies the gallery's expiry policy to every file without its own override
+CREATE OR REPLACE FUNCTION apply_gallery_expiry(target_gallery_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.files f
+  SET expires_at = CASE g.expiry_mode
+    WHEN 'never' THEN NULL
+    WHEN 'date' THEN g.expiry_date
+    ELSE now() + g.expiry_hours * interval '1 hour'
+  END
+  FROM public.galleries g
+  WHERE g.id = f.gallery_id
+  AND f.gallery_id = target_gallery_id
+  AND NOT coalesce(f.expiry_override, false);
+$$;
+
+-- Adds time to the current expiry; files that already expired count from now
+CREATE OR REPLACE FUNCTION extend_gallery_expiry(target_gallery_id uuid, hours numeric)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.files
+  SET expires_at = greatest(expires_at, now()) + hours * interval '1 hour'
+  WHERE gallery_id = target_gallery_id
+  AND expires_at IS NOT NULL;
+
+  UPDATE public.galleries
+  SET expiry_date = greatest(expiry_date, now()) + hours * interval '1 hour'
+  WHERE id = target_gallery_id
+  AND expiry_mode = 'date'
+  AND expiry_date IS NOT NULL;
+$$;
+
 -- 3. SECURE SELECTIONS INSERT (Prevent Cross-Gallery Pollution)
 DROP POLICY IF EXISTS "Public can insert selections" ON public.selections;
 CREATE POLICY "Public can insert selections"
@@ -294,26 +1012,24 @@ WITH CHECK (
     WHERE id = file_id 
     AND gallery_id = selections.gallery_id
   )
+  AND
+  -- 3. Password-protected galleries need a valid access token
+  public.gallery_unlocked(gallery_id)
+  AND
+  -- 4. Reviewers only add to their own list; the submitted list is written by submit_selection()
+  reviewer_id = public.current_reviewer_id(gallery_id)
 );
 
 -- 4. SECURE STORAGE ACCESS (Respect Gallery Status & Ownership)
+-- Clients never read storage directly: the gallery-urls Edge Function checks the gallery and signs URLs
+-- with the service role. Only the photographer can read their own objects.
 DROP POLICY IF EXISTS "Public Access" ON storage.objects;
-CREATE POLICY "Public Access"
+DROP POLICY IF EXISTS "Owner Access" ON storage.objects;
+CREATE POLICY "Owner Access"
 ON storage.objects FOR SELECT
 USING (
   bucket_id = 'gallery-files' 
-  AND (
-    -- Allow if user is the owner (photographer)
-    owner = auth.uid()
-    OR
-    -- Allow if file belongs to an active gallery (Public view)
-    EXISTS (
-        SELECT 1 FROM public.files f
-        JOIN public.galleries g ON f.gallery_id = g.id
-        WHERE f.file_path = storage.objects.name
-        AND g.link_enabled = true
-    )
-  )
+  AND owner = auth.uid()
 );
 
 DROP POLICY IF EXISTS "Auth Upload" ON storage.objects;
@@ -330,13 +1046,554 @@ USING (
 );
 
 -- Grant permissions
-GRANT EXECUTE ON FUNCTION submit_selection(uuid) TO authenticated;
-GRANT EXECUTE ON FUNCTION submit_selection(uuid) TO service_role;
-GRANT EXECUTE ON FUNCTION submit_selection(uuid) TO anon;
+GRANT EXECUTE ON FUNCTION submit_selection(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_selection(uuid, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION submit_selection(uuid, boolean) TO anon;
 GRANT EXECUTE ON FUNCTION delete_expired_files() TO authenticated;
 GRANT EXECUTE ON FUNCTION delete_expired_files() TO service_role;
+GRANT EXECUTE ON FUNCTION reorder_sections(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION reorder_files(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_gallery_expiry(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION extend_gallery_expiry(uuid, numeric) TO authenticated;
+
+-- 5. GALLERY PASSWORDS
+
+-- Lets the client page tell a locked gallery apart from a missing one without reading the gallery itself
+CREATE OR REPLACE FUNCTION public.get_gallery_access(target_gallery_id uuid)
+RETURNS json
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN g.id IS NULL THEN
+    json_build_object('found', false, 'password_protected', false, 'client_name', null)
+  ELSE
+    json_build_object('found', true, 'password_protected', g.password_protected, 'client_name', g.client_name)
+  END
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.galleries g ON g.id = target_gallery_id AND g.link_enabled = true;
+$$;
+
+-- Exchanges a gallery password for an access token valid for 12 hours. Returns NULL for a wrong password.
+CREATE OR REPLACE FUNCTION public.unlock_gallery(target_gallery_id uuid, password text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  stored_hash text;
+  new_token public.gallery_access_tokens%ROWTYPE;
+BEGIN
+  SELECT s.password_hash INTO stored_hash
+  FROM public.gallery_secrets s
+  JOIN public.galleries g ON g.id = s.gallery_id
+  WHERE s.gallery_id = target_gallery_id
+  AND g.link_enabled = true;
+
+  IF stored_hash IS NULL OR crypt(password, stored_hash) != stored_hash THEN
+    -- Slow down guessing
+    PERFORM pg_sleep(1);
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.gallery_access_tokens WHERE expires_at < now();
+
+  INSERT INTO public.gallery_access_tokens (gallery_id, expires_at)
+  VALUES (target_gallery_id, now() + interval '12 hours')
+  RETURNING * INTO new_token;
+
+  RETURN json_build_object('token', new_token.token, 'expires_at', new_token.expires_at);
+END;
+$$;
+
+-- Sets, changes or (with NULL) removes a gallery password. Any change signs out current viewers.
+CREATE OR REPLACE FUNCTION public.set_gallery_password(target_gallery_id uuid, new_password text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.galleries WHERE id = target_gallery_id AND photographer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Gallery not found';
+  END IF;
+
+  DELETE FROM public.gallery_access_tokens WHERE gallery_id = target_gallery_id;
+
+  IF new_password IS NULL OR length(new_password) = 0 THEN
+    DELETE FROM public.gallery_secrets WHERE gallery_id = target_gallery_id;
+    UPDATE public.galleries SET password_protected = false WHERE id = target_gallery_id;
+  ELSE
+    INSERT INTO public.gallery_secrets (gallery_id, password_hash, updated_at)
+    VALUES (target_gallery_id, crypt(new_password, gen_salt('bf')), now())
+    ON CONFLICT (gallery_id) DO UPDATE SET password_hash = EXCLUDED.password_hash, updated_at = now();
+    UPDATE public.galleries SET password_protected = true WHERE id = target_gallery_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_gallery_access(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.unlock_gallery(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_gallery_password(uuid, text) TO authenticated;
+
+-- 6. PAYMENTS
+
+-- Marks a pending transaction paid and credits the gallery in one step, so a repeated
+-- provider callback can never count the same payment twice
+CREATE OR REPLACE FUNCTION public.complete_payment(target_transaction_id uuid, receipt text, confirmed_amount numeric)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tx public.payment_transactions%ROWTYPE;
+BEGIN
+  UPDATE public.payment_transactions
+  SET status = 'completed',
+      receipt_number = receipt,
+      amount = coalesce(confirmed_amount, amount),
+      completed_at = now()
+  WHERE id = target_transaction_id
+  AND status = 'pending'
+  RETURNING * INTO tx;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.payments (gallery_id, amount, method, reference, paid_at, note, transaction_id)
+  VALUES (
+    tx.gallery_id,
+    tx.amount,
+    CASE WHEN tx.provider = 'mpesa' THEN 'mpesa' ELSE 'other' END,
+    receipt,
+    tx.completed_at,
+    'Paid from the client gallery (' || tx.provider || ', ' || tx.phone || ')',
+    tx.id
+  );
+
+  INSERT INTO public.activity_logs (gallery_id, action)
+  VALUES (tx.gallery_id, 'Payment received: KES ' || tx.amount || coalesce(' (' || receipt || ')', '')); -- M-Pesa is KES only
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_payment(uuid, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_payment(uuid, text, numeric) TO service_role;
+
+-- Sum of live ledger entries, refunds subtracted
+CREATE OR REPLACE FUNCTION public.ledger_total(target_gallery_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(CASE WHEN kind = 'refund' THEN -amount ELSE amount END), 0)
+  FROM public.payments
+  WHERE gallery_id = target_gallery_id
+  AND voided_at IS NULL;
+$$;
+
+-- amount_paid can't be written directly: whatever a client sends, it is reset to the ledger total
+CREATE OR REPLACE FUNCTION public.enforce_amount_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.amount_paid := public.ledger_total(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS galleries_amount_paid ON public.galleries;
+CREATE TRIGGER galleries_amount_paid
+BEFORE INSERT OR UPDATE OF amount_paid ON public.galleries
+FOR EACH ROW EXECUTE FUNCTION public.enforce_amount_paid();
+
+CREATE OR REPLACE FUNCTION public.sync_amount_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_gallery_id uuid := coalesce(NEW.gallery_id, OLD.gallery_id);
+BEGIN
+  UPDATE public.galleries
+  SET amount_paid = public.ledger_total(target_gallery_id)
+  WHERE id = target_gallery_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_sync_amount_paid ON public.payments;
+CREATE TRIGGER payments_sync_amount_paid
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.sync_amount_paid();
+
+-- Marks a ledger entry as void. It stays in the history but no longer counts towards amount_paid.
+CREATE OR REPLACE FUNCTION public.void_payment(target_payment_id uuid, reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry public.payments%ROWTYPE;
+BEGIN
+  UPDATE public.payments p
+  SET voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = nullif(trim(reason), '')
+  FROM public.galleries g
+  WHERE p.id = target_payment_id
+  AND p.voided_at IS NULL
+  AND g.id = p.gallery_id
+  AND g.photographer_id = auth.uid()
+  RETURNING p.* INTO entry;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found or already void';
+  END IF;
+
+  INSERT INTO public.activity_logs (gallery_id, action)
+  SELECT
+    entry.gallery_id,
+    'Voided ' || entry.kind || ' of ' || g.currency || ' ' || entry.amount || coalesce(': ' || nullif(trim(reason), ''), '')
+  FROM public.galleries g
+  WHERE g.id = entry.gallery_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_payment(uuid, text) TO authenticated;
+
+-- Gives a gallery the photographer's next invoice number, once. Called by the invoice Edge Function,
+-- so clients downloading an invoice get the same number the photographer sees.
+CREATE OR REPLACE FUNCTION public.assign_invoice_number(target_gallery_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gal public.galleries%ROWTYPE;
+  next_number integer;
+  prefix text;
+BEGIN
+  -- Row lock so two first downloads can't both take a number
+  SELECT * INTO gal FROM public.galleries WHERE id = target_gallery_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gallery not found';
+  END IF;
+
+  IF gal.invoice_number IS NOT NULL THEN
+    RETURN gal.invoice_number;
+  END IF;
+
+  INSERT INTO public.profiles (id, last_invoice_number)
+  VALUES (gal.photographer_id, 1)
+  ON CONFLICT (id) DO UPDATE SET last_invoice_number = coalesce(public.profiles.last_invoice_number, 0) + 1
+  RETURNING last_invoice_number, coalesce(invoice_prefix, 'INV-') INTO next_number, prefix;
+
+  UPDATE public.galleries
+  SET invoice_number = prefix || lpad(next_number::text, 4, '0'),
+      invoice_issued_at = now()
+  WHERE id = target_gallery_id
+  RETURNING invoice_number INTO gal.invoice_number;
+
+  RETURN gal.invoice_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_invoice_number(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.assign_invoice_number(uuid) TO service_role;
+
+-- Galleries paid before the ledger existed get one opening entry for what they had recorded
+INSERT INTO public.payments (gallery_id, amount, method, paid_at, note)
+SELECT g.id, g.amount_paid, 'other', g.created_at, 'Amount paid recorded before the payment ledger'
+FROM public.galleries g
+WHERE g.amount_paid > 0
+AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.gallery_id = g.id);
+
+-- 7. SELECTION WORKFLOW
+-- pending --submit_selection--> submitted --complete_selection--> completed
+-- submitted/completed --reopen_selection--> pending (same round, picks kept)
+-- submitted/completed --start_selection_round--> pending (next round, picks archived and cleared)
+
+-- Lets the client change a submitted selection again, with an optional note explaining why
+CREATE OR REPLACE FUNCTION public.reopen_selection(target_gallery_id uuid, note text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gallery_record public.galleries%ROWTYPE;
+BEGIN
+  SELECT * INTO gallery_record
+  FROM public.galleries
+  WHERE id = target_gallery_id
+  AND photographer_id = auth.uid()
+  FOR UPDATE;
+
+  IF gallery_record.id IS NULL THEN
+    RAISE EXCEPTION 'Gallery not found';
+  END IF;
+
+  IF gallery_record.selection_status NOT IN ('submitted', 'completed') THEN
+    RAISE EXCEPTION 'Selection has not been submitted';
+  END IF;
+
+  UPDATE public.galleries
+  SET selection_status = 'pending',
+      selection_note = nullif(trim(note), '')
+  WHERE id = gallery_record.id;
+
+  INSERT INTO public.activity_logs (gallery_id, action)
+  VALUES (gallery_record.id, 'Selection reopened' || coalesce(': ' || nullif(trim(note), ''), ''));
+END;
+$$;
+
+-- Marks a submitted selection as done; the client can no longer change it
+CREATE OR REPLACE FUNCTION public.complete_selection(target_gallery_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gallery_record public.galleries%ROWTYPE;
+BEGIN
+  SELECT * INTO gallery_record
+  FROM public.galleries
+  WHERE id = target_gallery_id
+  AND photographer_id = auth.uid()
+  FOR UPDATE;
+
+  IF gallery_record.id IS NULL THEN
+    RAISE EXCEPTION 'Gallery not found';
+  END IF;
+
+  IF gallery_record.selection_status != 'submitted' THEN
+    RAISE EXCEPTION 'Selection has not been submitted';
+  END IF;
+
+  UPDATE public.galleries
+  SET selection_status = 'completed',
+      selection_note = NULL
+  WHERE id = gallery_record.id;
+
+  INSERT INTO public.activity_logs (gallery_id, action)
+  VALUES (gallery_record.id, 'Selection marked as completed');
+END;
+$$;
+
+-- Archives the submitted list, clears every reviewer's picks and starts a fresh round of proofing. Extras charged in the
+-- finished round stay in agreed_balance; the next submission only charges its own extras.
+CREATE OR REPLACE FUNCTION public.start_selection_round(target_gallery_id uuid, note text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gallery_record public.galleries%ROWTYPE;
+  next_round integer;
+BEGIN
+  SELECT * INTO gallery_record
+  FROM public.galleries
+  WHERE id = target_gallery_id
+  AND photographer_id = auth.uid()
+  FOR UPDATE;
+
+  IF gallery_record.id IS NULL THEN
+    RAISE EXCEPTION 'Gallery not found';
+  END IF;
+
+  IF gallery_record.selection_status NOT IN ('submitted', 'completed') THEN
+    RAISE EXCEPTION 'Selection has not been submitted';
+  END IF;
+
+  INSERT INTO public.selection_rounds (gallery_id, round, status, file_ids)
+  SELECT
+    gallery_record.id,
+    coalesce(gallery_record.selection_round, 1),
+    gallery_record.selection_status,
+    coalesce(array_agg(s.file_id ORDER BY s.created_at), '{}')
+  FROM public.selections s
+  WHERE s.gallery_id = gallery_record.id
+  AND s.reviewer_id IS NULL;
+
+  DELETE FROM public.selections WHERE gallery_id = gallery_record.id;
+
+  next_round := coalesce(gallery_record.selection_round, 1) + 1;
+
+  UPDATE public.galleries
+  SET selection_status = 'pending',
+      selection_round = next_round,
+      selection_note = nullif(trim(note), ''),
+      extras_count = 0,
+      extras_amount = 0
+  WHERE id = gallery_record.id;
+
+  INSERT INTO public.activity_logs (gallery_id, action)
+  VALUES (gallery_record.id, 'Started proofing round ' || next_round || coalesce(': ' || nullif(trim(note), ''), ''));
+
+  RETURN next_round;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reopen_selection(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_selection(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_selection_round(uuid, text) TO authenticated;
+
+-- Clients can't write activity logs, so their comments are logged from here
+CREATE OR REPLACE FUNCTION public.log_client_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.activity_logs (gallery_id, action)
+  SELECT
+    NEW.gallery_id,
+    coalesce(r.name, 'Client')
+      || CASE WHEN NEW.kind = 'edit' THEN ' requested an edit on ' ELSE ' commented on ' END
+      || coalesce(f.original_name, 'a photo')
+  FROM public.files f
+  LEFT JOIN public.reviewers r ON r.id = NEW.reviewer_id
+  WHERE f.id = NEW.file_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS file_comments_log_client ON public.file_comments;
+CREATE TRIGGER file_comments_log_client
+AFTER INSERT ON public.file_comments
+FOR EACH ROW
+WHEN (NEW.author = 'client')
+EXECUTE FUNCTION public.log_client_comment();
+
+-- 8. REVIEWERS
+
+-- Adds someone to a gallery by name and optional email and returns their reviewer token.
+-- The same unconfirmed email picks up where it left off, e.g. on another device; an email confirmed
+-- with a sign-in link can only be reclaimed with another sign-in link.
+CREATE OR REPLACE FUNCTION public.join_gallery(target_gallery_id uuid, reviewer_name text, reviewer_email text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_email text := nullif(lower(trim(reviewer_email)), '');
+  reviewer_record public.reviewers%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.galleries WHERE id = target_gallery_id AND link_enabled = true) THEN
+    RAISE EXCEPTION 'Gallery not found';
+  END IF;
+
+  IF NOT public.gallery_unlocked(target_gallery_id) THEN
+    RAISE EXCEPTION 'Gallery is locked';
+  END IF;
+
+  IF clean_email IS NOT NULL THEN
+    SELECT * INTO reviewer_record
+    FROM public.reviewers r
+    WHERE r.gallery_id = target_gallery_id
+    AND r.email = clean_email
+    ORDER BY r.created_at
+    LIMIT 1;
+
+    IF reviewer_record.email_verified_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Email already confirmed';
+    END IF;
+  END IF;
 
--- 5. ACCOUNT MANAGEMENT
+  IF reviewer_record.id IS NULL THEN
+    INSERT INTO public.reviewers (gallery_id, name, email)
+    VALUES (target_gallery_id, trim(reviewer_name), clean_email)
+    RETURNING * INTO reviewer_record;
+
+    INSERT INTO public.activity_logs (gallery_id, action)
+    VALUES (target_gallery_id, reviewer_record.name || ' started reviewing');
+  END IF;
+
+  RETURN json_build_object('id', reviewer_record.id, 'token', reviewer_record.token, 'name', reviewer_record.name, 'email', reviewer_record.email);
+END;
+$$;
+
+-- Same as join_gallery(), for a client who came back through a sign-in link. Only the reviewer-sign-in
+-- function calls it, after checking the gallery and the link's code; the email comes from the code.
+DROP FUNCTION IF EXISTS public.join_gallery_verified(uuid, text);
+CREATE OR REPLACE FUNCTION public.join_gallery_verified(target_gallery_id uuid, reviewer_name text, verified_email text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reviewer_record public.reviewers%ROWTYPE;
+BEGIN
+  verified_email := lower(trim(verified_email));
+
+  UPDATE public.reviewers r
+  SET email_verified_at = coalesce(r.email_verified_at, now()),
+      name = coalesce(nullif(trim(reviewer_name), ''), r.name)
+  WHERE r.id = (
+    SELECT id FROM public.reviewers
+    WHERE gallery_id = target_gallery_id AND email = verified_email
+    ORDER BY created_at
+    LIMIT 1
+  )
+  RETURNING r.* INTO reviewer_record;
+
+  IF reviewer_record.id IS NULL THEN
+    INSERT INTO public.reviewers (gallery_id, name, email, email_verified_at)
+    VALUES (target_gallery_id, coalesce(nullif(trim(reviewer_name), ''), split_part(verified_email, '@', 1)), verified_email, now())
+    RETURNING * INTO reviewer_record;
+
+    INSERT INTO public.activity_logs (gallery_id, action)
+    VALUES (target_gallery_id, reviewer_record.name || ' started reviewing');
+  END IF;
+
+  RETURN json_build_object('id', reviewer_record.id, 'token', reviewer_record.token, 'name', reviewer_record.name, 'email', reviewer_record.email);
+END;
+$$;
+
+-- Who else is reviewing and how many photos each has picked, for the submit dialog. No emails or tokens.
+CREATE OR REPLACE FUNCTION public.list_gallery_reviewers(target_gallery_id uuid)
+RETURNS TABLE (id uuid, name text, pick_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.name, count(s.file_id)::integer
+  FROM public.reviewers r
+  JOIN public.galleries g ON g.id = r.gallery_id AND g.link_enabled = true
+  LEFT JOIN public.selections s ON s.reviewer_id = r.id
+  WHERE r.gallery_id = target_gallery_id
+  AND public.gallery_unlocked(target_gallery_id)
+  GROUP BY r.id, r.name, r.created_at
+  ORDER BY r.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_gallery(uuid, text, text) TO anon, authenticated;
+-- Not for browsers: anyone could claim any email
+REVOKE EXECUTE ON FUNCTION public.join_gallery_verified(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.join_gallery_verified(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.list_gallery_reviewers(uuid) TO anon, authenticated;
+
+-- 9. ACCOUNT MANAGEMENT
 
 -- Drop old functions to avoid confusion
 DROP FUNCTION IF EXISTS public.delete_own_account();
@@ -378,13 +1635,35 @@ $$;
 GRANT EXECUTE ON FUNCTION public.delete_account_v2() TO authenticated;
 GRANT EXECUTE ON FUNCTION public.delete_account_v2() TO service_role;
 
+-- 10. REALTIME
+-- Live updates for the gallery manager, the dashboard and the client page. Realtime applies the policies
+-- above, so subscribers only receive rows they could select.
+DO $$
+DECLARE
+  live_table text;
+BEGIN
+  FOREACH live_table IN ARRAY ARRAY['galleries', 'selections', 'activity_logs'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = live_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', live_table);
+    END IF;
+  END LOOP;
+END;
+$$;
+
 -- 4. STORAGE SETUP
 
 -- Insert bucket if not exists, OR UPDATE if it exists to ensure file_size_limit is high enough
 -- We set the limit to 1GB (1073741824 bytes) to comfortably accommodate the 250MB requirement
+-- The bucket is private; existing projects are switched over here, which revokes old public URLs
 INSERT INTO storage.buckets (id, name, public, file_size_limit)
-VALUES ('gallery-files', 'gallery-files', true, 1073741824)
+VALUES ('gallery-files', 'gallery-files', false, 1073741824)
 ON CONFLICT (id) DO UPDATE SET
+public = false,
 file_size_limit = 1073741824;
 
 -- FORCE CACHE RELOAD
@@ -393,11 +1672,28 @@ NOTIFY pgrst, 'reload schema';
 -- GRANT PERMISSIONS TO ANON ROLE
 GRANT SELECT ON public.galleries TO anon;
 GRANT SELECT ON public.files TO anon;
+GRANT SELECT ON public.sections TO anon;
 GRANT SELECT, INSERT, DELETE ON public.selections TO anon;
+GRANT SELECT, INSERT ON public.file_comments TO anon;
+GRANT SELECT, INSERT, DELETE ON public.favorite_lists TO anon;
+GRANT UPDATE (name) ON public.favorite_lists TO anon;
+GRANT SELECT, INSERT, DELETE ON public.favorite_list_files TO anon;
 GRANT INSERT ON public.activity_logs TO anon;
+GRANT SELECT (id, gallery_id, kind, amount, method, reference, paid_at, voided_at) ON public.payments TO anon;
 
 -- GRANT PERMISSIONS TO AUTHENTICATED ROLE
+GRANT SELECT, INSERT, UPDATE ON public.profiles TO authenticated;
 GRANT SELECT ON public.galleries TO authenticated;
 GRANT SELECT ON public.files TO authenticated;
+GRANT SELECT ON public.sections TO authenticated;
 GRANT SELECT, INSERT, DELETE ON public.selections TO authenticated;
-GRANT INSERT ON public.activity_logs TO authenticated;
\ No newline at end of file
+GRANT SELECT ON public.selection_rounds TO authenticated;
+GRANT SELECT (id, gallery_id, name, email, user_id, email_verified_at, created_at) ON public.reviewers TO authenticated;
+GRANT SELECT, INSERT ON public.file_comments TO authenticated;
+GRANT UPDATE (resolved_at) ON public.file_comments TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.favorite_lists TO authenticated;
+GRANT UPDATE (name) ON public.favorite_lists TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.favorite_list_files TO authenticated;
+GRANT INSERT ON public.activity_logs TO authenticated;
+GRANT SELECT ON public.payment_transactions TO authenticated;
+GRANT SELECT, INSERT ON public.payments TO authenticated;
\ No newline at end of file
@@ -2,35 +2,149 @@ export interface Profile {
   id: string;
   email: string;
   role: 'photographer' | 'client';
+  watermark: WatermarkSettings | null; // Account default; null until the photographer customises it
+  // Printed on invoices and receipts
+  business_name: string | null;
+  business_logo_path: string | null;
+  business_email: string | null;
+  business_phone: string | null;
+  business_address: string | null;
+  tax_pin: string | null;
+  invoice_prefix: string;
+  last_invoice_number: number; // The next invoice gets this plus one
+  currency: string; // ISO 4217 code new galleries start with
+  locale: string; // Number format for amounts, e.g. 'en-KE'
 }
 
+export type WatermarkPosition = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  type: 'text' | 'logo';
+  text: string;
+  logo_path: string | null; // Storage path of the uploaded logo
+  position: WatermarkPosition; // Ignored when tiled
+  opacity: number; // 0 to 1
+  tiled: boolean; // Repeat the mark diagonally across the whole image
+}
+
+export type ExpiryMode = 'duration' | 'date' | 'never';
+
+export type SortMode = 'custom' | 'captured' | 'filename' | 'uploaded';
+
+export type SelectionStatus = 'pending' | 'submitted' | 'completed';
+
 export interface Gallery {
   id: string;
   photographer_id: string;
   client_name: string;
   title: string;
   agreed_balance: number;
-  amount_paid: number;
+  amount_paid: number; // Derived from the payments ledger, read-only
+  currency: string; // ISO 4217 code for every amount in this gallery
   link_enabled: boolean;
   selection_enabled: boolean; // New: Toggle selection mode
-  selection_status: 'pending' | 'submitted' | 'completed'; // New: Workflow status
+  selection_status: SelectionStatus; // New: Workflow status
+  selection_round: number; // Current proofing round, starting at 1
+  selection_note: string | null; // Shown to the client after a reopen or a new round
+  included_selections: number | null; // Photos the package covers; null = no limit
+  extra_price: number; // Per selected photo beyond the package
+  extras_count: number; // Extras charged when the selection was submitted
+  extras_amount: number; // Part of agreed_balance
+  strip_location: boolean; // Remove GPS data from client-facing copies on upload
+  password_protected: boolean; // Clients must unlock the gallery with a password first
+  sort_mode: SortMode; // Default order for the client view
+  expiry_mode: ExpiryMode; // How new files get their expiry
+  expiry_hours: number; // Lifetime of each file for 'duration'
+  expiry_date: string | null; // Fixed end date for 'date'
+  watermark: WatermarkSettings | null; // Overrides the account watermark; null = use the account's
+  invoice_number: string | null; // Assigned when the first invoice is generated
+  invoice_issued_at: string | null;
   created_at: string;
 }
 
 export interface GalleryFile {
   id: string;
   gallery_id: string;
-  file_url: string;
   file_path: string; // Storage path for deletion
+  original_name: string | null; // Filename as uploaded (null for files uploaded before it was stored)
+  size_bytes: number | null;
+  mime_type: string | null;
+  captured_at: string | null; // EXIF capture time
+  caption: string | null;
+  section_id: string | null;
+  position: number | null; // Manual order within its section (null = not arranged yet)
+  thumbnail_path: string | null; // Small grid derivative (null for files uploaded before derivatives)
+  preview_path: string | null; // ~2048px web preview
+  proof_path: string | null; // Watermarked low-res preview for unpaid galleries
+  proof_thumbnail_path: string | null; // Watermarked grid thumbnail for unpaid galleries
+  content_hash: string | null; // SHA-256 of the original, used for duplicate detection
+  poster_path: string | null; // Video poster frame
+  duration: number | null; // Video length in seconds
+  width: number | null;
+  height: number | null;
   file_type: 'image' | 'video';
   created_at: string;
-  expires_at: string;
+  expires_at: string | null; // null = never expires
+  expiry_override: boolean; // Set per file; keeps this expiry when the gallery policy is re-applied
   download_count: number;
 }
 
+export interface Section {
+  id: string;
+  gallery_id: string;
+  name: string;
+  position: number;
+  created_at: string;
+}
+
+export interface Reviewer {
+  id: string;
+  gallery_id: string;
+  name: string;
+  email: string | null;
+  email_verified_at: string | null; // Set once the email was confirmed with a sign-in link
+  created_at: string;
+}
+
 export interface Selection {
+  id: string;
+  gallery_id: string;
+  file_id: string;
+  reviewer_id: string | null; // null = the submitted list
+  created_at: string;
+}
+
+export interface SelectionRound {
+  id: string;
+  gallery_id: string;
+  round: number;
+  status: SelectionStatus; // How the round ended
+  file_ids: string[];
+  closed_at: string;
+}
+
+export interface FavoriteList {
+  id: string;
+  gallery_id: string;
+  name: string;
+  reviewer_id: string | null; // Who created it
+  created_at: string;
+  file_ids: string[]; // From favorite_list_files
+}
+
+export type CommentAuthor = 'client' | 'photographer';
+export type CommentKind = 'note' | 'edit';
+
+export interface FileComment {
+  id: string;
   gallery_id: string;
   file_id: string;
+  author: CommentAuthor;
+  kind: CommentKind; // 'edit' = edit request
+  body: string;
+  reviewer_id: string | null; // Who wrote a client comment
+  resolved_at: string | null; // Client comments stay open until the photographer resolves them
   created_at: string;
 }
 
@@ -39,4 +153,40 @@ export interface ActivityLog {
   gallery_id: string;
   action: string;
   timestamp: string;
-}
\ No newline at end of file
+}
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed';
+
+export interface PaymentTransaction {
+  id: string;
+  gallery_id: string;
+  amount: number;
+  phone: string;
+  provider: string; // 'mpesa' | 'mock'
+  provider_reference: string | null;
+  receipt_number: string | null; // e.g. M-Pesa receipt, set on success
+  status: PaymentStatus;
+  result_description: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type PaymentMethod = 'cash' | 'mpesa' | 'bank' | 'card' | 'other';
+
+// One entry in the payments ledger; galleries.amount_paid is the sum of the live entries
+export interface Payment {
+  id: string;
+  gallery_id: string;
+  kind: 'payment' | 'refund';
+  amount: number;
+  method: PaymentMethod;
+  reference: string | null;
+  paid_at: string;
+  note: string | null;
+  recorded_by: string | null; // NULL = recorded automatically from a gallery payment
+  transaction_id: string | null;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
+  created_at: string;
+}
@@ -0,0 +1,132 @@
+// Byte size of each TIFF field type, indexed by type id
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const DATE_TIME_TAG = 0x0132;
+const EXIF_IFD_TAG = 0x8769;
+const GPS_INFO_TAG = 0x8825;
+const DATE_TIME_ORIGINAL_TAG = 0x9003;
+
+interface TiffBlock {
+  view: DataView;
+  tiffStart: number;
+  tiffEnd: number;
+  little: boolean;
+}
+
+const isExifHeader = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] === 0x45 && bytes[offset + 1] === 0x78 && bytes[offset + 2] === 0x69 &&
+  bytes[offset + 3] === 0x66 && bytes[offset + 4] === 0 && bytes[offset + 5] === 0;
+
+// Locates the TIFF structure inside a JPEG's APP1 (Exif) segment
+const findTiffBlock = (bytes: Uint8Array): TiffBlock | null => {
+  if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xFF) return null;
+    const marker = bytes[offset + 1];
+
+    // Metadata segments always come before the image data
+    if (marker === 0xDA || marker === 0xD9) return null;
+
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xE1 && isExifHeader(bytes, offset + 4)) {
+      const tiffStart = offset + 10;
+      const tiffEnd = Math.min(offset + 2 + length, bytes.length);
+      if (tiffStart + 8 > tiffEnd) return null;
+      return { view, tiffStart, tiffEnd, little: view.getUint16(tiffStart) === 0x4949 };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+};
+
+// Returns the absolute offset of the 12-byte entry for `tag` in the IFD at `ifdOffset`
+const findEntry = ({ view, tiffEnd, little }: TiffBlock, ifdOffset: number, tag: number) => {
+  if (ifdOffset + 2 > tiffEnd) return null;
+  const count = view.getUint16(ifdOffset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiffEnd) return null;
+    if (view.getUint16(entry, little) === tag) return entry;
+  }
+  return null;
+};
+
+const readAscii = (bytes: Uint8Array, block: TiffBlock, entry: number) => {
+  const { view, tiffStart, tiffEnd, little } = block;
+  const count = view.getUint32(entry + 4, little);
+  const start = count > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+  if (start + count > tiffEnd) return null;
+  return String.fromCharCode(...bytes.subarray(start, start + count)).replace(/\0+$/, '');
+};
+
+// EXIF dates look like "2024:06:15 14:03:22" and carry no time zone, so they are read as local time
+const parseExifDate = (value: string | null) => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const date = new Date(y, mo - 1, d, h, mi, s);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Reads when a JPEG was taken (DateTimeOriginal, falling back to DateTime).
+ * Only the first few hundred KB of the file are needed.
+ */
+export const readJpegCaptureDate = (bytes: Uint8Array): Date | null => {
+  const block = findTiffBlock(bytes);
+  if (!block) return null;
+
+  const ifd0 = block.tiffStart + block.view.getUint32(block.tiffStart + 4, block.little);
+  const exifPointer = findEntry(block, ifd0, EXIF_IFD_TAG);
+  if (exifPointer !== null) {
+    const exifIfd = block.tiffStart + block.view.getUint32(exifPointer + 8, block.little);
+    const original = findEntry(block, exifIfd, DATE_TIME_ORIGINAL_TAG);
+    const date = original !== null ? parseExifDate(readAscii(bytes, block, original)) : null;
+    if (date) return date;
+  }
+
+  const modified = findEntry(block, ifd0, DATE_TIME_TAG);
+  return modified !== null ? parseExifDate(readAscii(bytes, block, modified)) : null;
+};
+
+/**
+ * Removes GPS coordinates from a JPEG's EXIF block in place.
+ * The file keeps its size and every other tag, so camera data and orientation survive.
+ * Returns true when location data was found and wiped.
+ */
+export const stripJpegGps = (bytes: Uint8Array): boolean => {
+  const block = findTiffBlock(bytes);
+  if (!block) return false;
+  const { view, tiffStart, tiffEnd, little } = block;
+
+  const ifd0 = tiffStart + view.getUint32(tiffStart + 4, little);
+  const gpsPointer = findEntry(block, ifd0, GPS_INFO_TAG);
+  if (gpsPointer === null) return false;
+
+  const gpsIfd = tiffStart + view.getUint32(gpsPointer + 8, little);
+  if (gpsIfd + 2 > tiffEnd) return false;
+
+  const gpsCount = view.getUint16(gpsIfd, little);
+  const entriesEnd = gpsIfd + 2 + gpsCount * 12;
+  if (entriesEnd + 4 > tiffEnd) return false;
+
+  for (let i = 0; i < gpsCount; i++) {
+    const entry = gpsIfd + 2 + i * 12;
+    const size = (TIFF_TYPE_SIZES[view.getUint16(entry + 2, little)] || 1) * view.getUint32(entry + 4, little);
+    // Values over 4 bytes live elsewhere in the TIFF block
+    if (size > 4) {
+      const valueOffset = tiffStart + view.getUint32(entry + 8, little);
+      if (valueOffset + size <= tiffEnd) bytes.fill(0, valueOffset, valueOffset + size);
+    }
+  }
+
+  // Clear the entries and the next-IFD pointer, leaving an empty GPS IFD behind
+  bytes.fill(0, gpsIfd, entriesEnd + 4);
+  return true;
+};
@@ -1,10 +1,26 @@
-export const formatCurrency = (amount: number) => {
-  return new Intl.NumberFormat('en-KE', {
+export const DEFAULT_CURRENCY = 'KES';
+export const DEFAULT_LOCALE = 'en-KE';
+
+// Amounts are always shown in the gallery's currency; the locale only decides separators and symbol placement
+export const formatCurrency = (amount: number, currency: string = DEFAULT_CURRENCY, locale: string = DEFAULT_LOCALE) => {
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
-    currency: 'KES',
+    currency,
   }).format(amount);
 };
 
+// The symbol on its own (e.g. "$", "KES"), for input prefixes
+export const getCurrencySymbol = (currency: string = DEFAULT_CURRENCY, locale: string = DEFAULT_LOCALE) => {
+  const parts = new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value ?? currency;
+};
+
+// A formatted amount without its symbol, for fields that show the symbol separately
+export const formatAmount = (amount: number, currency: string = DEFAULT_CURRENCY, locale: string = DEFAULT_LOCALE) => {
+  const parts = new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(amount);
+  return parts.filter(part => part.type !== 'currency').map(part => part.value).join('').trim();
+};
+
 export const formatDate = (dateString: string) => {
   return new Date(dateString).toLocaleDateString('en-US', {
     month: 'short',
@@ -15,6 +31,21 @@ export const formatDate = (dateString: string) => {
   });
 };
 
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
 export const getTimeRemaining = (expiresAt: string) => {
   const total = Date.parse(expiresAt) - Date.now();
   const days = Math.floor(total / (1000 * 60 * 60 * 24));
@@ -29,26 +60,3 @@ export const getTimeRemaining = (expiresAt: string) => {
     expired: total <= 0
   };
 };
-
-export const getOptimizedImageUrl = (url: string, width: number = 800, height?: number, quality: number = 50) => {
-  if (!url) return '';
-  
-  // Only apply to Supabase Storage URLs
-  // We need to switch from standard storage URL to the Image Transformation URL
-  // Standard: .../storage/v1/object/public/...
-  // Transform: .../storage/v1/render/image/public/...
-  if (url.includes('supabase.co/storage/v1/object/public')) {
-    const optimizedUrl = url.replace('/object/public/', '/render/image/public/');
-    
-    const separator = optimizedUrl.includes('?') ? '&' : '?';
-    // Add format=webp for significantly smaller file sizes
-    let params = `width=${width}&quality=${quality}&format=webp`;
-    
-    if (height) {
-      params += `&height=${height}&resize=cover`;
-    }
-    
-    return `${optimizedUrl}${separator}${params}`;
-  }
-  return url;
-};
\ No newline at end of file
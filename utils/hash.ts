@@ -0,0 +1,37 @@
+import type { HashRequest, HashResponse } from '../workers/hash.worker';
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (response: HashResponse) => void>();
+
+// One shared worker hashes every file, one after another
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('../workers/hash.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<HashResponse>) => {
+    const resolve = pendingRequests.get(event.data.id);
+    pendingRequests.delete(event.data.id);
+    resolve?.(event.data);
+  };
+  // A crashed worker fails everything in flight and is recreated on the next request
+  worker.onerror = () => {
+    pendingRequests.forEach((resolve, id) => resolve({ id, error: 'Hash worker crashed' }));
+    pendingRequests.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+// Hex-encoded SHA-256 of a file's contents, used to spot re-uploads of the same photo
+export const sha256Hex = async (blob: Blob) => {
+  const id = nextRequestId++;
+  const request: HashRequest = { id, file: blob };
+  const response = await new Promise<HashResponse>((resolve) => {
+    pendingRequests.set(id, resolve);
+    getWorker().postMessage(request);
+  });
+
+  if (response.error || !response.hash) throw new Error(response.error || 'Could not hash file');
+  return response.hash;
+};
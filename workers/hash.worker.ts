@@ -0,0 +1,35 @@
+// Hashes files off the main thread, a chunk at a time, so even long videos never sit in memory whole.
+
+import { Sha256 } from '../utils/sha256';
+
+export interface HashRequest {
+  id: number;
+  file: Blob;
+}
+
+export interface HashResponse {
+  id: number;
+  hash?: string;
+  error?: string;
+}
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<HashRequest>) => void) | null;
+  postMessage: (message: HashResponse) => void;
+};
+
+workerScope.onmessage = async (event) => {
+  const { id, file } = event.data;
+
+  try {
+    const hash = new Sha256();
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      hash.update(new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer()));
+    }
+    workerScope.postMessage({ id, hash: hash.digestHex() });
+  } catch (err: any) {
+    workerScope.postMessage({ id, error: err?.message || 'Could not read file' });
+  }
+};
@@ -0,0 +1,142 @@
+// Generates the grid thumbnail, web preview and their watermarked proof versions for an uploaded image off the main thread.
+// Re-encoding through a canvas drops all EXIF data, so derivatives never carry GPS coordinates.
+
+import type { WatermarkSettings } from '../types';
+
+export interface DerivativeRequest {
+  id: number;
+  file: Blob;
+  watermark: WatermarkSettings;
+  logo?: Blob | null; // Logo image for 'logo' watermarks
+  proofOnly?: boolean; // Re-watermarking existing files only needs new proofs
+}
+
+export interface DerivativeResponse {
+  id: number;
+  thumbnail?: Blob;
+  preview?: Blob;
+  proof?: Blob;
+  proofThumbnail?: Blob;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+const THUMBNAIL_SIZE = 600;
+const PREVIEW_SIZE = 2048;
+const PROOF_SIZE = 1280;
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<DerivativeRequest>) => void) | null;
+  postMessage: (message: DerivativeResponse) => void;
+};
+
+type Watermark = { settings: WatermarkSettings; logo: ImageBitmap | null };
+
+// Draws the text or logo mark, either once at the chosen corner/centre or tiled diagonally so it can't be cropped out
+const drawWatermark = (context: OffscreenCanvasRenderingContext2D, width: number, height: number, { settings, logo }: Watermark) => {
+  const useLogo = settings.type === 'logo' && !!logo;
+  if (!settings.enabled || (!useLogo && !settings.text.trim())) return;
+
+  const shortSide = Math.min(width, height);
+  const fontSize = Math.max(16, Math.round(shortSide / (settings.tiled ? 10 : 12)));
+
+  context.save();
+  context.globalAlpha = Math.min(1, Math.max(0, settings.opacity));
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.fillStyle = 'white';
+  context.strokeStyle = 'rgba(0, 0, 0, 0.5)';
+  context.lineWidth = Math.max(1, fontSize / 24);
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+
+  let markWidth: number;
+  let markHeight: number;
+  if (useLogo) {
+    markWidth = shortSide * (settings.tiled ? 0.2 : 0.25);
+    markHeight = markWidth * logo!.height / logo!.width;
+  } else {
+    markWidth = context.measureText(settings.text).width;
+    markHeight = fontSize;
+  }
+
+  // Draws one mark centred on (x, y)
+  const stamp = (x: number, y: number) => {
+    if (useLogo) {
+      context.drawImage(logo!, x - markWidth / 2, y - markHeight / 2, markWidth, markHeight);
+    } else {
+      context.fillText(settings.text, x, y);
+      context.strokeText(settings.text, x, y);
+    }
+  };
+
+  if (settings.tiled) {
+    context.translate(width / 2, height / 2);
+    context.rotate(-Math.PI / 6);
+    const stepX = markWidth + shortSide * 0.15;
+    const stepY = markHeight + shortSide * 0.15;
+    const reach = Math.hypot(width, height) / 2;
+    for (let y = -reach; y <= reach; y += stepY) {
+      for (let x = -reach; x <= reach; x += stepX) {
+        stamp(x, y);
+      }
+    }
+  } else {
+    const margin = shortSide * 0.04;
+    const left = margin + markWidth / 2;
+    const right = width - margin - markWidth / 2;
+    const top = margin + markHeight / 2;
+    const bottom = height - margin - markHeight / 2;
+    const x = settings.position === 'center' ? width / 2 : settings.position.endsWith('left') ? left : right;
+    const y = settings.position === 'center' ? height / 2 : settings.position.startsWith('top') ? top : bottom;
+    stamp(x, y);
+  }
+
+  context.restore();
+};
+
+const resize = async (bitmap: ImageBitmap, maxSize: number, quality: number, watermark?: Watermark) => {
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas not available');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  if (watermark) drawWatermark(context, width, height, watermark);
+
+  const blob = await canvas.convertToBlob({ type: 'image/webp', quality });
+  // Safari can't encode WebP and silently falls back to PNG, which is far too large
+  if (blob.type !== 'image/webp') {
+    return canvas.convertToBlob({ type: 'image/jpeg', quality });
+  }
+  return blob;
+};
+
+workerScope.onmessage = async (event) => {
+  const { id, file, watermark, logo, proofOnly } = event.data;
+
+  try {
+    // Orientation from EXIF is applied while decoding
+    const bitmap = await createImageBitmap(file);
+    const logoBitmap = logo ? await createImageBitmap(logo).catch(() => null) : null;
+    const mark = { settings: watermark, logo: logoBitmap };
+    const proof = await resize(bitmap, PROOF_SIZE, 0.7, mark);
+    // The grid shows this instead of the clean thumbnail until the gallery is paid
+    const proofThumbnail = await resize(bitmap, THUMBNAIL_SIZE, 0.75, mark);
+
+    if (proofOnly) {
+      workerScope.postMessage({ id, proof, proofThumbnail, width: bitmap.width, height: bitmap.height });
+    } else {
+      const thumbnail = await resize(bitmap, THUMBNAIL_SIZE, 0.75);
+      const preview = await resize(bitmap, PREVIEW_SIZE, 0.85);
+      workerScope.postMessage({ id, thumbnail, preview, proof, proofThumbnail, width: bitmap.width, height: bitmap.height });
+    }
+    bitmap.close();
+    logoBitmap?.close();
+  } catch (err: any) {
+    workerScope.postMessage({ id, error: err?.message || 'Could not decode image' });
+  }
+};